@@ -186,10 +186,12 @@ function measureExecution<T>(
 /**
  * Creates a performance logger for monitoring utility performance
  * Uses @kitiumai/logger's createTimer utility when available
+ * `record` logs numeric metrics such as `createCache(...).stats()`
  */
 export function createPerformanceLogger(utilityName: string): {
   start: (operation: string) => () => void;
   measure: <T>(operation: string, function_: () => T) => T;
+  record: (operation: string, metrics: Record<string, number>) => void;
 } {
   const logger = createUtilLogger(`perf:${utilityName}`);
   const utils = getLoggerUtils();
@@ -198,6 +200,9 @@ export function createPerformanceLogger(utilityName: string): {
     start: (operation: string) => createTimerEndFunction(utils, logger, operation),
     measure: <T>(operation: string, function_: () => T): T =>
       measureExecution(utils, logger, operation, function_),
+    record: (operation: string, metrics: Record<string, number>) => {
+      logger?.debug(`Metrics: ${operation}`, metrics);
+    },
   };
 }
 
@@ -3,7 +3,7 @@
  * Refactored to use shared error handling and curry helpers
  */
 
-import type { ErrorHandlingOptions } from '../error.js';
+import type { ErrorHandlingOptions, UtilsError } from '../error.js';
 import { createErrorHandler } from '../internal/error-handler.js';
 import { type Result } from '../result.js';
 
@@ -18,7 +18,7 @@ export type ChunkOptions = {
 /**
  * Return type for chunk with error handling
  */
-export type ChunkReturn<T, O> = O extends { onError: 'return' } ? Result<T[][]> : T[][];
+export type ChunkReturn<T, O> = O extends { onError: 'return' } ? Result<T[][], UtilsError> : T[][];
 
 /**
  * Create error handler for chunk function
@@ -51,14 +51,14 @@ function normalizeChunkOptions(sizeOrOptions: number | ChunkOptions | undefined)
 /**
  * Implementation of chunk function
  */
-function chunkImpl<T>(array: T[], options: ChunkOptions): T[][] | Result<T[][]> {
+function chunkImpl<T>(array: T[], options: ChunkOptions): T[][] | Result<T[][], UtilsError> {
   // Validate size
   if (typeof options.size !== 'number' || Number.isNaN(options.size)) {
     const errorResult = chunkErrorHandler.handleError({
       ...options,
       onError: (options.onError ?? 'throw') as 'throw' | 'return',
     });
-    return errorResult as T[][] | Result<T[][]>;
+    return errorResult as T[][] | Result<T[][], UtilsError>;
   }
 
   if (options.size <= 0) {
@@ -66,7 +66,7 @@ function chunkImpl<T>(array: T[], options: ChunkOptions): T[][] | Result<T[][]>
       ...options,
       onError: (options.onError ?? 'throw') as 'throw' | 'return',
     });
-    return errorResult as T[][] | Result<T[][]>;
+    return errorResult as T[][] | Result<T[][], UtilsError>;
   }
 
   // Core chunking logic
@@ -76,7 +76,7 @@ function chunkImpl<T>(array: T[], options: ChunkOptions): T[][] | Result<T[][]>
   }
 
   // Return based on error strategy
-  return chunkErrorHandler.wrapResult(options, result) as T[][] | Result<T[][]>;
+  return chunkErrorHandler.wrapResult(options, result) as T[][] | Result<T[][], UtilsError>;
 }
 
 /**
@@ -106,15 +106,21 @@ function chunkImpl<T>(array: T[], options: ChunkOptions): T[][] | Result<T[][]>
  * ```
  */
 export function chunk<T>(array: T[], size: number): T[][];
+export function chunk<T>(
+  array: T[],
+  options: ChunkOptions & { onError: 'return' }
+): Result<T[][], UtilsError>;
 export function chunk<T, O extends ChunkOptions & { onError?: 'throw' | undefined }>(
   array: T[],
   options: O
 ): ChunkReturn<T, O>;
-export function chunk<T>(options: number | ChunkOptions): (array: T[]) => T[][] | Result<T[][]>;
+export function chunk<T>(
+  options: number | ChunkOptions
+): (array: T[]) => T[][] | Result<T[][], UtilsError>;
 export function chunk<T>(
   arrayOrOptions: T[] | number | ChunkOptions,
   sizeOrOptions?: number | ChunkOptions
-): T[][] | Result<T[][]> | ((array: T[]) => T[][] | Result<T[][]>) {
+): T[][] | Result<T[][], UtilsError> | ((array: T[]) => T[][] | Result<T[][], UtilsError>) {
   // Handle data-last (curried) form
   if (!Array.isArray(arrayOrOptions)) {
     const normalized = normalizeChunkOptions(arrayOrOptions as number | ChunkOptions);
@@ -3,7 +3,8 @@
  * Refactored to use shared error handling
  */
 
-import type { ErrorHandlingOptions } from '../error.js';
+import type { ErrorHandlingOptions, UtilsError } from '../error.js';
+import { createDualApi } from '../internal/curry-helper.js';
 import { createErrorHandler } from '../internal/error-handler.js';
 import { ok, type Result } from '../result.js';
 
@@ -19,7 +20,7 @@ export type GroupByOptions<T> = {
  * Return type for groupBy with error handling
  */
 export type GroupByReturn<T, O> = O extends { onError: 'return' }
-  ? Result<Record<string, T[]>>
+  ? Result<Record<string, T[]>, UtilsError>
   : Record<string, T[]>;
 
 /**
@@ -63,7 +64,7 @@ function normalizeGroupByOptions<T>(
 function groupByImpl<T>(
   array: T[],
   options: GroupByOptions<T>
-): Record<string, T[]> | Result<Record<string, T[]>> {
+): Record<string, T[]> | Result<Record<string, T[]>, UtilsError> {
   const errorHandler = createGroupByErrorHandler<T>();
   const result: Record<string, T[]> = {};
 
@@ -129,20 +130,24 @@ export function groupBy<T>(
   array: T[],
   selector: keyof T | ((item: T) => string | number | undefined)
 ): Record<string, T[]>;
+export function groupBy<T>(
+  array: T[],
+  options: GroupByOptions<T> & { onError: 'return' }
+): Result<Record<string, T[]>, UtilsError>;
 export function groupBy<T, O extends GroupByOptions<T> & { onError?: 'throw' | undefined }>(
   array: T[],
   options: O
 ): GroupByReturn<T, O>;
 export function groupBy<T>(
   selector: keyof T | ((item: T) => string | number | undefined) | GroupByOptions<T>
-): (array: T[]) => Record<string, T[]> | Result<Record<string, T[]>>;
+): (array: T[]) => Record<string, T[]> | Result<Record<string, T[]>, UtilsError>;
 export function groupBy<T>(
   arrayOrSelector: T[] | keyof T | ((item: T) => string | number | undefined) | GroupByOptions<T>,
   selectorOrOptions?: keyof T | ((item: T) => string | number | undefined) | GroupByOptions<T>
 ):
   | Record<string, T[]>
-  | Result<Record<string, T[]>>
-  | ((array: T[]) => Record<string, T[]> | Result<Record<string, T[]>>) {
+  | Result<Record<string, T[]>, UtilsError>
+  | ((array: T[]) => Record<string, T[]> | Result<Record<string, T[]>, UtilsError>) {
   // Handle data-last (curried) form
   if (!Array.isArray(arrayOrSelector)) {
     const normalized = normalizeGroupByOptions<T>(arrayOrSelector);
@@ -166,22 +171,31 @@ export function groupBy<T>(
  * ```ts
  * countBy([{ type: 'a' }, { type: 'b' }, { type: 'a' }], 'type')
  * // { a: 2, b: 1 }
+ * countBy((word: string) => word.length)(['a', 'bb', 'cc']) // data-last: { 1: 1, 2: 2 }
  * ```
  */
-export function countBy<T>(
-  array: T[],
-  keyOrFunction: keyof T | ((item: T) => string | number)
-): Record<string, number> {
-  const result: Record<string, number> = {};
-  for (const item of array) {
-    const key =
-      typeof keyOrFunction === 'function'
-        ? String(keyOrFunction(item))
-        : String(item[keyOrFunction]);
-    result[key] = (result[key] ?? 0) + 1;
+export const countBy: {
+  <T>(array: T[], keyOrFunction: keyof T | ((item: T) => string | number)): Record<string, number>;
+  <T>(
+    keyOrFunction: keyof T | ((item: T) => string | number)
+  ): (array: T[]) => Record<string, number>;
+} = createDualApi(
+  2,
+  <T>(
+    array: T[],
+    keyOrFunction: keyof T | ((item: T) => string | number)
+  ): Record<string, number> => {
+    const result: Record<string, number> = {};
+    for (const item of array) {
+      const key =
+        typeof keyOrFunction === 'function'
+          ? String(keyOrFunction(item))
+          : String(item[keyOrFunction]);
+      result[key] = (result[key] ?? 0) + 1;
+    }
+    return result;
   }
-  return result;
-}
+);
 
 /**
  * Create an object from an array using a key
@@ -195,19 +209,23 @@ export function countBy<T>(
  * ```ts
  * keyBy([{ id: 1, name: 'a' }, { id: 2, name: 'b' }], 'id')
  * // { 1: { id: 1, name: 'a' }, 2: { id: 2, name: 'b' } }
+ * keyBy<User>('id')(users) // data-last
  * ```
  */
-export function keyBy<T>(
-  array: T[],
-  keyOrFunction: keyof T | ((item: T) => string | number)
-): Record<string, T> {
-  const result: Record<string, T> = {};
-  for (const item of array) {
-    const key =
-      typeof keyOrFunction === 'function'
-        ? String(keyOrFunction(item))
-        : String(item[keyOrFunction]);
-    result[key] = item;
+export const keyBy: {
+  <T>(array: T[], keyOrFunction: keyof T | ((item: T) => string | number)): Record<string, T>;
+  <T>(keyOrFunction: keyof T | ((item: T) => string | number)): (array: T[]) => Record<string, T>;
+} = createDualApi(
+  2,
+  <T>(array: T[], keyOrFunction: keyof T | ((item: T) => string | number)): Record<string, T> => {
+    const result: Record<string, T> = {};
+    for (const item of array) {
+      const key =
+        typeof keyOrFunction === 'function'
+          ? String(keyOrFunction(item))
+          : String(item[keyOrFunction]);
+      result[key] = item;
+    }
+    return result;
   }
-  return result;
-}
+);
@@ -29,3 +29,4 @@ export {
 } from './set-ops.js';
 export { compact, flatMap, flatten, flattenDeep } from './transform.js';
 export { range, sample, shuffle } from './utils.js';
+export { Seq, seq } from './seq.js';
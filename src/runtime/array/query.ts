@@ -2,6 +2,8 @@
  * Array query utilities (head, tail, last, initial, take, drop, zip, arraysEqual)
  */
 
+import { createDualApi } from '../internal/curry-helper.js';
+
 /**
  * Get the first element of an array
  *
@@ -79,11 +81,15 @@ export function initial<T>(array: T[]): T[] {
  * @example
  * ```ts
  * take([1, 2, 3, 4, 5], 3) // [1, 2, 3]
+ * take(3)([1, 2, 3, 4, 5]) // data-last: [1, 2, 3]
  * ```
  */
-export function take<T>(array: T[], n: number): T[] {
+export const take: {
+  <T>(array: T[], n: number): T[];
+  <T>(n: number): (array: T[]) => T[];
+} = createDualApi(2, <T>(array: T[], n: number): T[] => {
   return array.slice(0, n);
-}
+});
 
 /**
  * Get the last n elements of an array
@@ -96,11 +102,15 @@ export function take<T>(array: T[], n: number): T[] {
  * @example
  * ```ts
  * takeRight([1, 2, 3, 4, 5], 3) // [3, 4, 5]
+ * takeRight(3)([1, 2, 3, 4, 5]) // data-last: [3, 4, 5]
  * ```
  */
-export function takeRight<T>(array: T[], n: number): T[] {
+export const takeRight: {
+  <T>(array: T[], n: number): T[];
+  <T>(n: number): (array: T[]) => T[];
+} = createDualApi(2, <T>(array: T[], n: number): T[] => {
   return array.slice(-n);
-}
+});
 
 /**
  * Remove the first n elements from an array
@@ -113,11 +123,15 @@ export function takeRight<T>(array: T[], n: number): T[] {
  * @example
  * ```ts
  * drop([1, 2, 3, 4, 5], 2) // [3, 4, 5]
+ * drop(2)([1, 2, 3, 4, 5]) // data-last: [3, 4, 5]
  * ```
  */
-export function drop<T>(array: T[], n: number): T[] {
+export const drop: {
+  <T>(array: T[], n: number): T[];
+  <T>(n: number): (array: T[]) => T[];
+} = createDualApi(2, <T>(array: T[], n: number): T[] => {
   return array.slice(n);
-}
+});
 
 /**
  * Remove the last n elements from an array
@@ -130,11 +144,15 @@ export function drop<T>(array: T[], n: number): T[] {
  * @example
  * ```ts
  * dropRight([1, 2, 3, 4, 5], 2) // [1, 2, 3]
+ * dropRight(2)([1, 2, 3, 4, 5]) // data-last: [1, 2, 3]
  * ```
  */
-export function dropRight<T>(array: T[], n: number): T[] {
+export const dropRight: {
+  <T>(array: T[], n: number): T[];
+  <T>(n: number): (array: T[]) => T[];
+} = createDualApi(2, <T>(array: T[], n: number): T[] => {
   return array.slice(0, -n);
-}
+});
 
 /**
  * Combine two arrays into pairs
@@ -148,9 +166,13 @@ export function dropRight<T>(array: T[], n: number): T[] {
  * @example
  * ```ts
  * zip([1, 2, 3], ['a', 'b', 'c']) // [[1, 'a'], [2, 'b'], [3, 'c']]
+ * zip(['a', 'b'])([1, 2]) // data-last: [[1, 'a'], [2, 'b']]
  * ```
  */
-export function zip<T, U>(array1: T[], array2: U[]): Array<[T, U]> {
+export const zip: {
+  <T, U>(array1: T[], array2: U[]): Array<[T, U]>;
+  <T, U>(array2: U[]): (array1: T[]) => Array<[T, U]>;
+} = createDualApi(2, <T, U>(array1: T[], array2: U[]): Array<[T, U]> => {
   const length = Math.min(array1.length, array2.length);
   const result: Array<[T, U]> = [];
   for (let index = 0; index < length; index++) {
@@ -158,7 +180,7 @@ export function zip<T, U>(array1: T[], array2: U[]): Array<[T, U]> {
     result.push([array1[index]!, array2[index]!]);
   }
   return result;
-}
+});
 
 /**
  * Separate pairs into two arrays
@@ -194,11 +216,15 @@ export function unzip<T, U>(pairs: Array<[T, U]>): [T[], U[]] {
  * ```ts
  * arraysEqual([1, 2, 3], [1, 2, 3]) // true
  * arraysEqual([1, 2], [1, 2, 3]) // false
+ * arraysEqual([1, 2])([1, 2]) // data-last: true
  * ```
  */
-export function arraysEqual<T>(a: T[], b: T[]): boolean {
+export const arraysEqual: {
+  <T>(a: T[], b: T[]): boolean;
+  <T>(b: T[]): (a: T[]) => boolean;
+} = createDualApi(2, <T>(a: T[], b: T[]): boolean => {
   if (a.length !== b.length) {
     return false;
   }
   return a.every((item, index) => item === b[index]);
-}
+});
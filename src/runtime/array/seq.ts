@@ -0,0 +1,239 @@
+/**
+ * Lazy iterator pipeline over any Iterable
+ * Fuses chained operations into a single pass without intermediate arrays
+ */
+
+import type { UtilsError } from '../error.js';
+import { ok, type Result } from '../result.js';
+import { chunk, type ChunkOptions } from './chunk.js';
+import { groupBy, type GroupByOptions } from './group.js';
+
+/**
+ * Lazy, re-iterable sequence. Operations are applied per item when a terminal
+ * method (`toArray`, `reduce`, `groupBy`, ...) or `for...of` consumes it.
+ */
+export class Seq<T> implements Iterable<T> {
+  constructor(private readonly source: () => Iterator<T>) {}
+
+  [Symbol.iterator](): Iterator<T> {
+    return this.source();
+  }
+
+  /**
+   * Map each item
+   */
+  map<R>(function_: (item: T, index: number) => R): Seq<R> {
+    return this.derive(function* (source) {
+      let index = 0;
+      for (const item of source) {
+        yield function_(item, index++);
+      }
+    });
+  }
+
+  /**
+   * Keep items matching the predicate
+   */
+  filter<S extends T>(predicate: (item: T, index: number) => item is S): Seq<S>;
+  filter(predicate: (item: T, index: number) => boolean): Seq<T>;
+  filter(predicate: (item: T, index: number) => boolean): Seq<T> {
+    return this.derive(function* (source) {
+      let index = 0;
+      for (const item of source) {
+        if (predicate(item, index++)) {
+          yield item;
+        }
+      }
+    });
+  }
+
+  /**
+   * Map and flatten one level, matching `flatMap` (only arrays are flattened)
+   */
+  flatMap<R>(function_: (item: T, index: number) => R | R[]): Seq<R> {
+    return this.derive(function* (source) {
+      let index = 0;
+      for (const item of source) {
+        const result = function_(item, index++);
+        if (Array.isArray(result)) {
+          yield* result;
+        } else {
+          yield result;
+        }
+      }
+    });
+  }
+
+  /**
+   * Remove falsy values, matching `compact`
+   */
+  compact(): Seq<Exclude<T, null | undefined | false | 0 | ''>> {
+    return this.filter((item): item is Exclude<T, null | undefined | false | 0 | ''> =>
+      Boolean(item)
+    );
+  }
+
+  /**
+   * Group items into arrays of `size`. Sizes are validated eagerly with the
+   * same rules and error strategy as `chunk`.
+   */
+  chunk(options: ChunkOptions & { onError: 'return' }): Result<Seq<T[]>, UtilsError>;
+  chunk(sizeOrOptions: number | ChunkOptions): Seq<T[]>;
+  chunk(sizeOrOptions: number | ChunkOptions): Seq<T[]> | Result<Seq<T[]>, UtilsError> {
+    const options = typeof sizeOrOptions === 'number' ? { size: sizeOrOptions } : sizeOrOptions;
+    const validation = chunk(options)([]);
+    if (!Array.isArray(validation) && !validation.ok) {
+      return validation;
+    }
+
+    const chunked = this.derive(function* (source) {
+      let batch: T[] = [];
+      for (const item of source) {
+        batch.push(item);
+        if (batch.length >= options.size) {
+          yield batch;
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        yield batch;
+      }
+    });
+
+    return options.onError === 'return' ? ok(chunked) : chunked;
+  }
+
+  /**
+   * Keep the first item for each key, matching `uniqueBy`
+   */
+  uniqueBy(keyOrFunction: keyof T | ((item: T) => unknown)): Seq<T> {
+    return this.derive(function* (source) {
+      const seen = new Set<unknown>();
+      for (const item of source) {
+        const value =
+          typeof keyOrFunction === 'function' ? keyOrFunction(item) : item[keyOrFunction];
+        if (!seen.has(value)) {
+          seen.add(value);
+          yield item;
+        }
+      }
+    });
+  }
+
+  /**
+   * Take the first `n` items; stops pulling from the source afterwards
+   */
+  take(n: number): Seq<T> {
+    return this.derive(function* (source) {
+      if (n <= 0) {
+        return;
+      }
+      let taken = 0;
+      for (const item of source) {
+        yield item;
+        if (++taken >= n) {
+          return;
+        }
+      }
+    });
+  }
+
+  /**
+   * Skip the first `n` items
+   */
+  drop(n: number): Seq<T> {
+    return this.derive(function* (source) {
+      let skipped = 0;
+      for (const item of source) {
+        if (skipped < n) {
+          skipped++;
+          continue;
+        }
+        yield item;
+      }
+    });
+  }
+
+  /**
+   * Pair items with another iterable, stopping at the shorter one like `zip`
+   */
+  zip<U>(other: Iterable<U>): Seq<[T, U]> {
+    return this.derive(function* (source) {
+      const otherIterator = other[Symbol.iterator]();
+      try {
+        for (const item of source) {
+          const next = otherIterator.next();
+          if (next.done) {
+            return;
+          }
+          yield [item, next.value] as [T, U];
+        }
+      } finally {
+        otherIterator.return?.();
+      }
+    });
+  }
+
+  /**
+   * Group items by key (terminal). Delegates to `groupBy`, including its
+   * `onError` strategy.
+   */
+  groupBy(
+    options: GroupByOptions<T> & { onError: 'return' }
+  ): Result<Record<string, T[]>, UtilsError>;
+  groupBy(
+    selectorOrOptions: keyof T | ((item: T) => string | number | undefined) | GroupByOptions<T>
+  ): Record<string, T[]>;
+  groupBy(
+    selectorOrOptions: keyof T | ((item: T) => string | number | undefined) | GroupByOptions<T>
+  ): Record<string, T[]> | Result<Record<string, T[]>, UtilsError> {
+    return groupBy<T>(selectorOrOptions)(this.toArray());
+  }
+
+  /**
+   * Fold items into a single value (terminal)
+   */
+  reduce<R>(reducer: (accumulator: R, item: T, index: number) => R, initial: R): R {
+    let accumulator = initial;
+    let index = 0;
+    for (const item of this) {
+      accumulator = reducer(accumulator, item, index++);
+    }
+    return accumulator;
+  }
+
+  /**
+   * Collect items into an array (terminal)
+   */
+  toArray(): T[] {
+    return [...this];
+  }
+
+  private derive<R>(operator: (source: Iterable<T>) => Generator<R, void, undefined>): Seq<R> {
+    return new Seq(() => operator(this));
+  }
+}
+
+/**
+ * Wrap any iterable in a lazy sequence.
+ *
+ * Operations are fused into one pass and nothing runs until a terminal method
+ * consumes the sequence, so chains over large inputs avoid intermediate arrays.
+ * Sequences over re-iterable sources (arrays, Sets, Maps) can be consumed more
+ * than once; one-shot sources such as generators can only be consumed once.
+ *
+ * @example
+ * ```ts
+ * seq(orders)
+ *   .uniqueBy('id')
+ *   .flatMap((order) => order.items)
+ *   .filter((item) => item.quantity > 0)
+ *   .take(100)
+ *   .toArray();
+ *
+ * seq(readLines()).chunk(500).map(insertBatch).toArray();
+ * ```
+ */
+export function seq<T>(iterable: Iterable<T>): Seq<T> {
+  return new Seq(() => iterable[Symbol.iterator]());
+}
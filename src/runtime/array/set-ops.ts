@@ -2,6 +2,8 @@
  * Set operations for arrays (unique, intersection, difference, union, without)
  */
 
+import { createDualApi } from '../internal/curry-helper.js';
+
 /**
  * Remove duplicate values from array
  *
@@ -30,9 +32,13 @@ export function unique<T>(array: T[]): T[] {
  * ```ts
  * uniqueBy([{ id: 1, name: 'a' }, { id: 1, name: 'b' }], 'id')
  * // [{ id: 1, name: 'a' }]
+ * uniqueBy<Item>('id')(items) // data-last
  * ```
  */
-export function uniqueBy<T>(array: T[], key: keyof T): T[] {
+export const uniqueBy: {
+  <T>(array: T[], key: keyof T): T[];
+  <T>(key: keyof T): (array: T[]) => T[];
+} = createDualApi(2, <T>(array: T[], key: keyof T): T[] => {
   const seen = new Set();
   return array.filter((item) => {
     const value = item[key];
@@ -42,7 +48,7 @@ export function uniqueBy<T>(array: T[], key: keyof T): T[] {
     seen.add(value);
     return true;
   });
-}
+});
 
 /**
  * Split array into two arrays based on predicate
@@ -55,25 +61,29 @@ export function uniqueBy<T>(array: T[], key: keyof T): T[] {
  * @example
  * ```ts
  * partition([1, 2, 3, 4, 5], x => x % 2 === 0) // [[2, 4], [1, 3, 5]]
+ * partition((x: number) => x > 2)([1, 2, 3, 4]) // data-last: [[3, 4], [1, 2]]
  * ```
  */
-export function partition<T>(
-  array: T[],
-  predicate: (item: T, index: number) => boolean
-): [T[], T[]] {
-  const passed: T[] = [];
-  const failed: T[] = [];
+export const partition: {
+  <T>(array: T[], predicate: (item: T, index: number) => boolean): [T[], T[]];
+  <T>(predicate: (item: T, index: number) => boolean): (array: T[]) => [T[], T[]];
+} = createDualApi(
+  2,
+  <T>(array: T[], predicate: (item: T, index: number) => boolean): [T[], T[]] => {
+    const passed: T[] = [];
+    const failed: T[] = [];
 
-  array.forEach((item, index) => {
-    if (predicate(item, index)) {
-      passed.push(item);
-    } else {
-      failed.push(item);
-    }
-  });
+    array.forEach((item, index) => {
+      if (predicate(item, index)) {
+        passed.push(item);
+      } else {
+        failed.push(item);
+      }
+    });
 
-  return [passed, failed];
-}
+    return [passed, failed];
+  }
+);
 
 /**
  * Find common elements across all arrays
@@ -124,12 +134,16 @@ export function intersection<T>(...arrays: T[][]): T[] {
  * @example
  * ```ts
  * difference([1, 2, 3, 4], [2, 4]) // [1, 3]
+ * difference([2, 4])([1, 2, 3, 4]) // data-last: [1, 3]
  * ```
  */
-export function difference<T>(a: T[], b: T[]): T[] {
+export const difference: {
+  <T>(a: T[], b: T[]): T[];
+  <T>(b: T[]): (a: T[]) => T[];
+} = createDualApi(2, <T>(a: T[], b: T[]): T[] => {
   const bSet = new Set(b);
   return a.filter((item) => !bSet.has(item));
-}
+});
 
 /**
  * Combine multiple arrays and remove duplicates
@@ -158,9 +172,16 @@ export function union<T>(...arrays: T[][]): T[] {
  * @example
  * ```ts
  * without([1, 2, 3, 4, 5], 2, 4) // [1, 3, 5]
+ * without(2, 4)([1, 2, 3, 4, 5]) // data-last: [1, 3, 5]
  * ```
  */
-export function without<T>(array: T[], ...values: T[]): T[] {
-  const excludeSet = new Set(values);
-  return array.filter((item) => !excludeSet.has(item));
-}
+export const without: {
+  <T>(array: T[], ...values: T[]): T[];
+  <T>(...values: T[]): (array: T[]) => T[];
+} = createDualApi(
+  (args) => Array.isArray(args[0]),
+  <T>(array: T[], ...values: T[]): T[] => {
+    const excludeSet = new Set(values);
+    return array.filter((item) => !excludeSet.has(item));
+  }
+);
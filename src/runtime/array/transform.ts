@@ -2,6 +2,8 @@
  * Array transformation utilities (flatten, flatMap, compact)
  */
 
+import { createDualApi } from '../internal/curry-helper.js';
+
 /**
  * Flatten nested array one level
  *
@@ -46,11 +48,15 @@ export function flattenDeep<T>(array: T[]): T[] {
  * @example
  * ```ts
  * flatMap([1, 2, 3], x => [x, x * 2]) // [1, 2, 2, 4, 3, 6]
+ * flatMap((x: number) => [x, -x])([1, 2]) // data-last: [1, -1, 2, -2]
  * ```
  */
-export function flatMap<T, R>(array: T[], function_: (item: T, index: number) => R | R[]): R[] {
+export const flatMap: {
+  <T, R>(array: T[], function_: (item: T, index: number) => R | R[]): R[];
+  <T, R>(function_: (item: T, index: number) => R | R[]): (array: T[]) => R[];
+} = createDualApi(2, <T, R>(array: T[], function_: (item: T, index: number) => R | R[]): R[] => {
   return array.flatMap((item, index) => function_(item, index));
-}
+});
 
 /**
  * Remove falsy values from array
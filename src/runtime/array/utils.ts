@@ -2,6 +2,8 @@
  * Array utility functions (range, shuffle, sample)
  */
 
+import { createDualApi } from '../internal/curry-helper.js';
+
 /**
  * Create array of numbers from start to end
  *
@@ -58,9 +60,16 @@ export function shuffle<T>(array: T[]): T[] {
  * @example
  * ```ts
  * sample([1, 2, 3, 4, 5], 2) // [3, 1] (random)
+ * sample(2)([1, 2, 3, 4, 5]) // data-last
  * ```
  */
-export function sample<T>(array: T[], count = 1): T[] {
-  const shuffled = shuffle(array);
-  return shuffled.slice(0, Math.min(count, array.length));
-}
+export const sample: {
+  <T>(array: T[], count?: number): T[];
+  <T>(count?: number): (array: T[]) => T[];
+} = createDualApi(
+  (args) => Array.isArray(args[0]),
+  <T>(array: T[], count = 1): T[] => {
+    const shuffled = shuffle(array);
+    return shuffled.slice(0, Math.min(count, array.length));
+  }
+);
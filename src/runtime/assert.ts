@@ -0,0 +1,129 @@
+/**
+ * Assertion helpers that narrow types and throw UtilsError
+ *
+ * Errors are created through the configurable ErrorFactory, so
+ * `setErrorFactory` also applies to failed assertions.
+ */
+
+import type { UtilsErrorCode } from './error.js';
+import { createError } from './internal/error-factory.js';
+import { isNumber, isString } from './validation.js';
+
+function fail(code: UtilsErrorCode, message: string, details: Record<string, unknown>): never {
+  throw createError({ code, message, details });
+}
+
+function typeName(value: unknown): string {
+  if (value === null || Number.isNaN(value)) {
+    return String(value);
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Assert that a condition is truthy, throwing a `VALIDATION_ERROR` otherwise
+ *
+ * @example
+ * ```ts
+ * assert(items.length > 0, 'Expected at least one item');
+ * ```
+ */
+export function assert(condition: unknown, message = 'Assertion failed'): asserts condition {
+  if (!condition) {
+    fail('VALIDATION_ERROR', message, { value: condition });
+  }
+}
+
+/**
+ * Assert an internal invariant. The message may be a function so it is only
+ * built on failure.
+ *
+ * @example
+ * ```ts
+ * invariant(user.role in permissions, () => `Unknown role ${user.role}`);
+ * ```
+ */
+export function invariant(condition: unknown, message: string | (() => string)): asserts condition {
+  if (!condition) {
+    fail('VALIDATION_ERROR', typeof message === 'function' ? message() : message, {
+      value: condition,
+    });
+  }
+}
+
+/**
+ * Assert that a value satisfies a type guard, throwing a `TYPE_ERROR` otherwise
+ *
+ * @example
+ * ```ts
+ * assertType(payload, isUser, 'Invalid user payload');
+ * payload.email; // payload is User
+ * ```
+ */
+export function assertType<T>(
+  value: unknown,
+  guard: (value: unknown) => value is T,
+  message?: string
+): asserts value is T {
+  if (!guard(value)) {
+    const name = guard.name || 'guard';
+    fail('TYPE_ERROR', message ?? `Value of type ${typeName(value)} failed ${name}`, { value });
+  }
+}
+
+/**
+ * Assert that a value is a string, throwing a `TYPE_ERROR` otherwise
+ */
+export function assertString(value: unknown, message?: string): asserts value is string {
+  if (!isString(value)) {
+    fail('TYPE_ERROR', message ?? `Expected string, received ${typeName(value)}`, {
+      value,
+      expected: 'string',
+    });
+  }
+}
+
+/**
+ * Assert that a value is a number other than NaN, throwing a `TYPE_ERROR` otherwise
+ */
+export function assertNumber(value: unknown, message?: string): asserts value is number {
+  if (!isNumber(value)) {
+    fail('TYPE_ERROR', message ?? `Expected number, received ${typeName(value)}`, {
+      value,
+      expected: 'number',
+    });
+  }
+}
+
+/**
+ * Assert that a value is neither `null` nor `undefined`, throwing a `TYPE_ERROR` otherwise
+ *
+ * @example
+ * ```ts
+ * const user = users.get(id);
+ * assertDefined(user, `Unknown user ${id}`);
+ * ```
+ */
+export function assertDefined<T>(value: T, message?: string): asserts value is NonNullable<T> {
+  if (value === null || value === undefined) {
+    fail('TYPE_ERROR', message ?? `Expected a defined value, received ${typeName(value)}`, {
+      value,
+    });
+  }
+}
+
+/**
+ * Mark a branch as unreachable for exhaustive checks; throws a `TYPE_ERROR` if reached
+ *
+ * @example
+ * ```ts
+ * switch (shape.kind) {
+ *   case 'circle': return circleArea(shape);
+ *   case 'square': return squareArea(shape);
+ *   default: return assertNever(shape);
+ * }
+ * ```
+ */
+export function assertNever(value: never, message?: string): never {
+  return fail('TYPE_ERROR', message ?? `Unexpected value ${String(value)}`, { value });
+}
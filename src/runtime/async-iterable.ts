@@ -0,0 +1,345 @@
+/**
+ * Async iterable and stream utility functions
+ */
+
+import { chunk, type ChunkOptions } from './array/chunk.js';
+import { type AbortOptions } from './async.js';
+import { createUtilsError } from './error.js';
+import { throwIfAborted } from './internal/abort.js';
+
+/**
+ * Sync or async iterable accepted by the async iterable helpers
+ */
+export type AnyIterable<T> = AsyncIterable<T> | Iterable<T>;
+
+function getIterator<T>(source: AnyIterable<T>): AsyncIterator<T> | Iterator<T> {
+  return Symbol.asyncIterator in source
+    ? source[Symbol.asyncIterator]()
+    : source[Symbol.iterator]();
+}
+
+/**
+ * Lazily map each item of an async iterable
+ *
+ * @example
+ * ```ts
+ * for await (const user of mapAsync(fetchPages(), (page) => page.items)) { ... }
+ * ```
+ */
+export async function* mapAsync<T, R>(
+  source: AnyIterable<T>,
+  function_: (item: T, index: number) => R | Promise<R>
+): AsyncGenerator<R, void, undefined> {
+  let index = 0;
+  for await (const item of source) {
+    yield await function_(item, index++);
+  }
+}
+
+/**
+ * Lazily keep items of an async iterable that match the predicate
+ */
+export function filterAsync<T, S extends T>(
+  source: AnyIterable<T>,
+  predicate: (item: T, index: number) => item is S
+): AsyncGenerator<S, void, undefined>;
+export function filterAsync<T>(
+  source: AnyIterable<T>,
+  predicate: (item: T, index: number) => boolean | Promise<boolean>
+): AsyncGenerator<T, void, undefined>;
+export async function* filterAsync<T>(
+  source: AnyIterable<T>,
+  predicate: (item: T, index: number) => boolean | Promise<boolean>
+): AsyncGenerator<T, void, undefined> {
+  let index = 0;
+  for await (const item of source) {
+    if (await predicate(item, index++)) {
+      yield item;
+    }
+  }
+}
+
+/**
+ * Take the first `count` items, then stop (and close) the source
+ */
+export async function* takeAsync<T>(
+  source: AnyIterable<T>,
+  count: number
+): AsyncGenerator<T, void, undefined> {
+  if (count <= 0) {
+    return;
+  }
+
+  let taken = 0;
+  for await (const item of source) {
+    yield item;
+    if (++taken >= count) {
+      return;
+    }
+  }
+}
+
+/**
+ * Group items of an async iterable into arrays of `size`.
+ * Uses the same size validation as `chunk`; the last batch may be smaller.
+ *
+ * @example
+ * ```ts
+ * for await (const rows of batchAsync(readLines(file), 500)) {
+ *   await db.insertMany(rows);
+ * }
+ * ```
+ */
+export async function* batchAsync<T>(
+  source: AnyIterable<T>,
+  sizeOrOptions: number | ChunkOptions
+): AsyncGenerator<T[], void, undefined> {
+  const options =
+    typeof sizeOrOptions === 'number'
+      ? { size: sizeOrOptions, onError: 'throw' as const }
+      : { ...sizeOrOptions, onError: 'throw' as const };
+  // Validate eagerly with chunk so invalid sizes fail with INVALID_CHUNK_SIZE
+  chunk([], options);
+
+  let batch: T[] = [];
+  for await (const item of source) {
+    batch.push(item);
+    if (batch.length >= options.size) {
+      yield batch;
+      batch = [];
+    }
+  }
+
+  if (batch.length > 0) {
+    yield batch;
+  }
+}
+
+/**
+ * Interleave several async iterables, yielding items as soon as any source produces them
+ *
+ * @example
+ * ```ts
+ * for await (const event of mergeAsync(queueA, queueB)) { ... }
+ * ```
+ */
+export async function* mergeAsync<T>(
+  ...sources: Array<AnyIterable<T>>
+): AsyncGenerator<T, void, undefined> {
+  const iterators = sources.map((source) => getIterator(source));
+
+  const pulling = new Map<number, Promise<{ index: number; result: IteratorResult<T> }>>();
+  const pull = (index: number): void => {
+    const iterator = iterators[index];
+    if (iterator) {
+      pulling.set(index, (async () => ({ index, result: await iterator.next() }))());
+    }
+  };
+
+  for (let index = 0; index < iterators.length; index++) {
+    pull(index);
+  }
+
+  try {
+    while (pulling.size > 0) {
+      const { index, result } = await Promise.race(pulling.values());
+      if (result.done) {
+        pulling.delete(index);
+        continue;
+      }
+      yield result.value;
+      pull(index);
+    }
+  } finally {
+    // Close sources that are still open when the consumer stops early or a source throws
+    for (const index of pulling.keys()) {
+      void iterators[index]?.return?.();
+    }
+  }
+}
+
+/**
+ * Options for bufferTime
+ */
+export type BufferTimeOptions = {
+  /** Emit early once the buffer reaches this many items */
+  maxSize?: number;
+};
+
+/**
+ * Collect items into arrays emitted at most `ms` after the first buffered item.
+ * Empty windows are not emitted; remaining items are flushed when the source ends.
+ *
+ * @example
+ * ```ts
+ * for await (const events of bufferTime(clickStream, 1000, { maxSize: 100 })) {
+ *   await analytics.track(events);
+ * }
+ * ```
+ */
+export async function* bufferTime<T>(
+  source: AnyIterable<T>,
+  ms: number,
+  options: BufferTimeOptions = {}
+): AsyncGenerator<T[], void, undefined> {
+  const { maxSize = Number.POSITIVE_INFINITY } = options;
+  const iterator = getIterator(source);
+  const flushSignal = Symbol('flush');
+
+  let buffer: T[] = [];
+  let flushAt = 0;
+  let pending: Promise<IteratorResult<T>> | undefined;
+  let done = false;
+
+  try {
+    while (!done) {
+      pending ??= (async () => iterator.next())();
+
+      let next: IteratorResult<T> | typeof flushSignal;
+      if (buffer.length === 0) {
+        next = await pending;
+      } else {
+        let timerId: ReturnType<typeof setTimeout> | undefined;
+        const windowEnd = new Promise<typeof flushSignal>((resolve) => {
+          timerId = setTimeout(() => resolve(flushSignal), Math.max(0, flushAt - Date.now()));
+        });
+        try {
+          next = await Promise.race([pending, windowEnd]);
+        } finally {
+          clearTimeout(timerId);
+        }
+      }
+
+      if (next === flushSignal) {
+        yield buffer;
+        buffer = [];
+        continue;
+      }
+
+      pending = undefined;
+      if (next.done) {
+        done = true;
+        continue;
+      }
+
+      if (buffer.length === 0) {
+        flushAt = Date.now() + ms;
+      }
+      buffer.push(next.value);
+      if (buffer.length >= maxSize) {
+        yield buffer;
+        buffer = [];
+      }
+    }
+
+    if (buffer.length > 0) {
+      yield buffer;
+    }
+  } finally {
+    if (!done) {
+      void iterator.return?.();
+    }
+  }
+}
+
+/**
+ * Collect every item of an async iterable into an array
+ *
+ * @example
+ * ```ts
+ * const users = await toArrayAsync(takeAsync(fetchUsers(), 100));
+ * ```
+ */
+export async function toArrayAsync<T>(
+  source: AnyIterable<T>,
+  options: AbortOptions = {}
+): Promise<T[]> {
+  const { signal } = options;
+  const items: T[] = [];
+  throwIfAborted(signal);
+  for await (const item of source) {
+    throwIfAborted(signal);
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Options for mapConcurrent
+ */
+export type MapConcurrentOptions = {
+  /** Maximum mapper calls in flight (default: 4) */
+  concurrency?: number;
+  /** Yield results in source order (default: true) or as soon as they settle */
+  ordered?: boolean;
+} & AbortOptions;
+
+/**
+ * Map an async iterable with at most `concurrency` mapper calls in flight.
+ * Pulls from the source only as capacity frees up, so large or paginated
+ * sources are never fully materialized.
+ *
+ * @example
+ * ```ts
+ * for await (const page of mapConcurrent(urls, (url, signal) => fetch(url, { signal }), {
+ *   concurrency: 5,
+ * })) { ... }
+ * ```
+ */
+export async function* mapConcurrent<T, R>(
+  source: AnyIterable<T>,
+  function_: (item: T, signal?: AbortSignal) => Promise<R>,
+  options: MapConcurrentOptions = {}
+): AsyncGenerator<R, void, undefined> {
+  const { concurrency = 4, ordered = true, signal } = options;
+
+  if (!(concurrency >= 1)) {
+    throw createUtilsError({
+      code: 'INVALID_ARGUMENT',
+      message: 'mapConcurrent concurrency must be at least 1',
+      details: { concurrency },
+    });
+  }
+
+  const iterator = getIterator(source);
+  // Map preserves insertion order, which gives source order for `ordered` mode
+  const inFlight = new Map<number, Promise<{ id: number; value: R }>>();
+  let nextId = 0;
+  let exhausted = false;
+
+  const start = (item: T): void => {
+    const id = nextId++;
+    const task = (async () => ({ id, value: await function_(item, signal) }))();
+    // Rejections are surfaced when the task is awaited below
+    task.catch(() => undefined);
+    inFlight.set(id, task);
+  };
+
+  try {
+    while (true) {
+      while (!exhausted && inFlight.size < concurrency) {
+        throwIfAborted(signal);
+        const next = await iterator.next();
+        if (next.done) {
+          exhausted = true;
+        } else {
+          start(next.value);
+        }
+      }
+
+      const [oldest] = inFlight.values();
+      if (!oldest) {
+        return;
+      }
+
+      throwIfAborted(signal);
+      const settled = await (ordered ? oldest : Promise.race(inFlight.values()));
+      inFlight.delete(settled.id);
+      yield settled.value;
+    }
+  } finally {
+    if (!exhausted) {
+      void iterator.return?.();
+    }
+  }
+}
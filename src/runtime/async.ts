@@ -2,121 +2,384 @@
  * Async/Promise utility functions
  */
 
+import { createUtilsError } from './error.js';
+import {
+  createAbortError,
+  linkAbortController,
+  raceWithSignal,
+  throwIfAborted,
+} from './internal/abort.js';
+
+/**
+ * Cancellation options shared by async helpers
+ */
+export type AbortOptions = {
+  /** Aborting rejects the pending operation with a UtilsError coded `ABORTED` */
+  signal?: AbortSignal | undefined;
+};
+
+/**
+ * Async task that receives the caller's AbortSignal (if any)
+ */
+export type AbortableTask<T> = (signal?: AbortSignal) => Promise<T>;
+
 /**
  * Sleep for specified milliseconds
+ *
+ * @example
+ * ```ts
+ * await sleep(100);
+ * await sleep(5000, { signal: controller.signal }); // rejects with ABORTED on abort
+ * ```
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => {
-    setTimeout(resolve, ms);
+export function sleep(ms: number, options: AbortOptions = {}): Promise<void> {
+  const { signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timeoutId);
+      reject(createAbortError(signal));
+    };
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
   });
 }
 
+/**
+ * Built-in retry delay strategies
+ *
+ * - `fixed`: always `delay`
+ * - `linear`: `delay * attempt`
+ * - `exponential`: `delay * backoff ** (attempt - 1)`
+ * - `full-jitter`: random value between 0 and the exponential delay
+ * - `decorrelated-jitter`: random value between `delay` and three times the previous delay
+ */
+export type RetryStrategyName =
+  'fixed' | 'linear' | 'exponential' | 'full-jitter' | 'decorrelated-jitter';
+
+/**
+ * Context passed to custom retry strategies and predicates
+ */
+export type RetryContext = {
+  /** 1-based number of the retry about to be scheduled */
+  attempt: number;
+  /** Error thrown by the failed attempt */
+  error: Error;
+  /** Delay used before the previous retry (0 before the first retry) */
+  previousDelay: number;
+};
+
+/**
+ * Delay strategy: a built-in name or a function returning the delay in ms
+ */
+export type RetryStrategy = RetryStrategyName | ((context: RetryContext) => number);
+
+/**
+ * Clock used by `retry` for timing; inject a fake to test without real waiting
+ */
+export type RetryClock = {
+  now: () => number;
+  sleep: (ms: number, options?: AbortOptions) => Promise<void>;
+};
+
 /**
  * Retry options
  */
 export type RetryOptions = {
+  /** Number of retries after the first attempt (default: 3) */
   retries?: number;
+  /** Base delay in ms (default: 1000) */
   delay?: number;
+  /** Multiplier for exponential strategies (default: 2) */
   backoff?: number;
-  onRetry?: (error: Error, attempt: number) => void;
+  /** Delay strategy (default: 'exponential') */
+  strategy?: RetryStrategy;
+  /** Upper bound for any single delay in ms */
+  maxDelay?: number;
+  /** Total time budget in ms; no retry is scheduled that would exceed it */
+  maxElapsed?: number;
+  /** Return false to stop retrying and rethrow the error */
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+  /**
+   * Honor `retryable` and `retryDelay` hints found on thrown errors, such as
+   * the KitiumError shape produced by `toKitiumErrorShape` (default: true)
+   */
+  respectErrorHints?: boolean;
+  onRetry?: (error: Error, attempt: number, delay: number) => void;
+  /** Clock used for elapsed time and waiting (default: Date.now and sleep) */
+  clock?: RetryClock;
+  /** Random source for jitter strategies, returning values in [0, 1) */
+  random?: () => number;
+} & AbortOptions;
+
+const defaultRetryClock: RetryClock = {
+  now: () => Date.now(),
+  sleep,
 };
 
 /**
- * Retry async function with exponential backoff
+ * Read `retryable` / `retryDelay` hints from an error-like value
+ */
+function readRetryHints(error: unknown): { retryable?: boolean; retryDelay?: number } {
+  if (typeof error !== 'object' || error === null) {
+    return {};
+  }
+
+  const { retryable, retryDelay } = error as { retryable?: unknown; retryDelay?: unknown };
+  return {
+    ...(typeof retryable === 'boolean' ? { retryable } : {}),
+    ...(typeof retryDelay === 'number' && retryDelay >= 0 ? { retryDelay } : {}),
+  };
+}
+
+/**
+ * Compute the delay before the next retry for a strategy
+ */
+function computeRetryDelay(
+  strategy: RetryStrategy,
+  context: RetryContext,
+  settings: { delay: number; backoff: number; maxDelay: number; random: () => number }
+): number {
+  const { delay, backoff, maxDelay, random } = settings;
+  const exponential = Math.min(maxDelay, delay * backoff ** (context.attempt - 1));
+
+  if (typeof strategy === 'function') {
+    return strategy(context);
+  }
+
+  switch (strategy) {
+    case 'fixed':
+      return delay;
+    case 'linear':
+      return delay * context.attempt;
+    case 'full-jitter':
+      return random() * exponential;
+    case 'decorrelated-jitter': {
+      const upper = Math.max(delay, context.previousDelay * 3);
+      return delay + random() * (upper - delay);
+    }
+    case 'exponential':
+    default:
+      return exponential;
+  }
+}
+
+/**
+ * Retry async function with configurable backoff.
+ *
+ * The signal is passed to every attempt; aborting stops further attempts and
+ * cancels any pending backoff delay. Retries stop early when `shouldRetry`
+ * returns false, when the error is marked `retryable: false`, or when the next
+ * delay would exceed `maxElapsed`; the last error is rethrown in each case.
+ *
+ * @example
+ * ```ts
+ * await retry((signal) => fetchJson(url, { signal }), {
+ *   retries: 5,
+ *   delay: 100,
+ *   strategy: 'full-jitter',
+ *   maxDelay: 2000,
+ *   maxElapsed: 10_000,
+ *   shouldRetry: (error) => !isUtilsError(error) || error.code !== 'VALIDATION_ERROR',
+ * });
+ * ```
  */
 export async function retry<T>(
-  function_: () => Promise<T>,
+  function_: AbortableTask<T>,
   options: RetryOptions = {}
 ): Promise<T> {
-  const { retries = 3, delay = 1000, backoff = 2, onRetry } = options;
+  const {
+    retries = 3,
+    delay = 1000,
+    backoff = 2,
+    strategy = 'exponential',
+    maxDelay = Number.POSITIVE_INFINITY,
+    maxElapsed = Number.POSITIVE_INFINITY,
+    shouldRetry,
+    respectErrorHints = true,
+    onRetry,
+    clock = defaultRetryClock,
+    random = Math.random,
+    signal,
+  } = options;
+
+  const startedAt = clock.now();
+  let previousDelay = 0;
 
-  let lastError: Error;
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
 
-  for (let attempt = 0; attempt <= retries; attempt++) {
     try {
-      return await function_();
+      return await raceWithSignal(function_(signal), signal);
     } catch (error) {
-      lastError = error as Error;
+      throwIfAborted(signal);
+      const lastError = error as Error;
+      const retryNumber = attempt + 1;
 
-      if (attempt < retries) {
-        const waitTime = delay * backoff ** attempt;
-        onRetry?.(lastError, attempt + 1);
-        await sleep(waitTime);
+      if (attempt >= retries || (shouldRetry && !shouldRetry(lastError, retryNumber))) {
+        throw lastError;
       }
+
+      const hints = respectErrorHints ? readRetryHints(lastError) : {};
+      if (hints.retryable === false) {
+        throw lastError;
+      }
+
+      const waitTime = Math.max(
+        0,
+        Math.min(
+          maxDelay,
+          hints.retryDelay ??
+            computeRetryDelay(
+              strategy,
+              { attempt: retryNumber, error: lastError, previousDelay },
+              { delay, backoff, maxDelay, random }
+            )
+        )
+      );
+
+      if (clock.now() - startedAt + waitTime > maxElapsed) {
+        throw lastError;
+      }
+
+      onRetry?.(lastError, retryNumber, waitTime);
+      previousDelay = waitTime;
+      await clock.sleep(waitTime, { signal });
     }
   }
-
-  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-  throw lastError!;
 }
 
 /**
- * Add timeout to promise
+ * Timeout options
  */
-export function timeout<T>(
-  promise: Promise<T>,
+export type TimeoutOptions = {
+  message?: string;
+} & AbortOptions;
+
+/**
+ * Add timeout to promise.
+ *
+ * Rejects with a UtilsError coded `TIMEOUT` when `ms` elapses. Pass a task
+ * function instead of a promise to receive an AbortSignal that fires on
+ * timeout or when `options.signal` aborts. The timer is cleared once the race
+ * settles.
+ *
+ * @example
+ * ```ts
+ * await timeout(fetchUser(), 1000, 'User lookup timed out');
+ * await timeout((signal) => fetch(url, { signal }), 1000, { signal: request.signal });
+ * ```
+ */
+export async function timeout<T>(
+  task: Promise<T> | ((signal: AbortSignal) => Promise<T>),
   ms: number,
-  message = 'Operation timed out'
+  messageOrOptions: string | TimeoutOptions = {}
 ): Promise<T> {
-  return Promise.race([
-    promise,
-    new Promise<T>((_resolve, reject) => {
-      setTimeout(() => reject(new Error(message)), ms);
-    }),
-  ]);
+  const options =
+    typeof messageOrOptions === 'string' ? { message: messageOrOptions } : messageOrOptions;
+  const { message = 'Operation timed out', signal } = options;
+
+  throwIfAborted(signal);
+
+  const { controller, dispose } = linkAbortController(signal);
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const timeoutPromise = new Promise<never>((_resolve, reject) => {
+    timeoutId = setTimeout(() => {
+      const error = createUtilsError({ code: 'TIMEOUT', message, details: { ms } });
+      controller.abort(error);
+      reject(error);
+    }, ms);
+  });
+
+  const promise = typeof task === 'function' ? task(controller.signal) : task;
+
+  try {
+    return await Promise.race([raceWithSignal(promise, signal), timeoutPromise]);
+  } finally {
+    clearTimeout(timeoutId);
+    dispose();
+  }
 }
 
 /**
  * Run promises in parallel
  */
-export function parallel<T>(fns: Array<() => Promise<T>>): Promise<T[]> {
-  return Promise.all(fns.map((function_) => function_()));
+export function parallel<T>(
+  fns: Array<AbortableTask<T>>,
+  options: AbortOptions = {}
+): Promise<T[]> {
+  const { signal } = options;
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError(signal));
+  }
+
+  return raceWithSignal(Promise.all(fns.map((function_) => function_(signal))), signal);
 }
 
 /**
  * Run promises in series (one after another)
  */
-export async function series<T>(fns: Array<() => Promise<T>>): Promise<T[]> {
+export async function series<T>(
+  fns: Array<AbortableTask<T>>,
+  options: AbortOptions = {}
+): Promise<T[]> {
+  const { signal } = options;
   const results: T[] = [];
   for (const function_ of fns) {
-    results.push(await function_());
+    throwIfAborted(signal);
+    results.push(await raceWithSignal(function_(signal), signal));
   }
   return results;
 }
 
 /**
- * Run async function with concurrency limit
+ * Run async function with concurrency limit.
+ * Stops scheduling new items after the first failure or when the signal aborts.
  */
 export async function concurrency<T, R>(
   items: T[],
-  function_: (item: T) => Promise<R>,
-  limit: number
+  function_: (item: T, signal?: AbortSignal) => Promise<R>,
+  limit: number,
+  options: AbortOptions = {}
 ): Promise<R[]> {
+  const { signal } = options;
   const results: R[] = new Array(items.length);
-  const executing: Array<Promise<void>> = [];
+  let nextIndex = 0;
+  let stopped = false;
 
-  for (let index = 0; index < items.length; index++) {
-    const item = items[index];
-    if (item === undefined) {
-      continue;
-    }
-    const promise = (async () => {
-      const result = await function_(item);
-      results[index] = result;
-    })();
-
-    executing.push(promise);
-
-    if (executing.length >= limit) {
-      await Promise.race(executing);
-      const executingIndex = executing.findIndex((p) => p === promise);
-      if (executingIndex !== -1) {
-        void executing.splice(executingIndex, 1);
+  throwIfAborted(signal);
+
+  const runWorker = async (): Promise<void> => {
+    while (!stopped && nextIndex < items.length) {
+      const index = nextIndex++;
+      const item = items[index];
+      if (item === undefined) {
+        continue;
+      }
+
+      try {
+        throwIfAborted(signal);
+        results[index] = await raceWithSignal(function_(item, signal), signal);
+      } catch (error) {
+        stopped = true;
+        throw error;
       }
     }
-  }
+  };
 
-  await Promise.all(executing);
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
   return results;
 }
 
@@ -0,0 +1,155 @@
+/**
+ * Runtime validators for branded types
+ */
+
+import type { Brand } from '../types/branded.js';
+import { createUtilsError, type UtilsError } from './error.js';
+import { err, ok, type Result } from './result.js';
+import { isEmail } from './string/query.js';
+import { isString } from './validation.js';
+
+/**
+ * Validating constructor bundle for a branded type
+ */
+export type BrandDefinition<T, B extends string> = {
+  readonly name: B;
+  /** Type guard: whether the value passes the brand's validator */
+  is(value: unknown): value is Brand<T, B>;
+  /** Validate and brand the value, throwing a `VALIDATION_ERROR` on failure */
+  parse(value: unknown): Brand<T, B>;
+  /** Validate and brand the value, returning a `VALIDATION_ERROR` on failure */
+  safeParse(value: unknown): Result<Brand<T, B>, UtilsError>;
+  /** Brand a value without validation, for trusted sources such as your own database */
+  unsafe(value: T): Brand<T, B>;
+};
+
+/**
+ * Branded type produced by a brand definition
+ *
+ * @example
+ * ```ts
+ * type Email = BrandOf<typeof brands.Email>; // Brand<string, 'Email'>
+ * ```
+ */
+export type BrandOf<D> = D extends BrandDefinition<infer T, infer B> ? Brand<T, B> : never;
+
+/**
+ * Define a branded type whose values can only be created after validation.
+ *
+ * @example
+ * ```ts
+ * const OrderId = defineBrand('OrderId', (value): value is string =>
+ *   isString(value) && /^ord_[a-z0-9]+$/.test(value)
+ * );
+ * type OrderId = BrandOf<typeof OrderId>;
+ *
+ * const result = OrderId.safeParse(request.params.id);
+ * if (result.ok) {
+ *   await loadOrder(result.value);
+ * }
+ * ```
+ */
+export function defineBrand<T, B extends string>(
+  name: B,
+  validator: (value: unknown) => value is T
+): BrandDefinition<T, B>;
+export function defineBrand<T, B extends string>(
+  name: B,
+  validator: (value: unknown) => boolean
+): BrandDefinition<T, B>;
+export function defineBrand<T, B extends string>(
+  name: B,
+  validator: (value: unknown) => boolean
+): BrandDefinition<T, B> {
+  const is = (value: unknown): value is Brand<T, B> => validator(value);
+
+  const safeParse = (value: unknown): Result<Brand<T, B>, UtilsError> =>
+    is(value)
+      ? ok(value)
+      : err(
+          createUtilsError({
+            code: 'VALIDATION_ERROR',
+            message: `Invalid ${name}`,
+            details: { brand: name, value },
+          })
+        );
+
+  return {
+    name,
+    is,
+    parse: (value) => {
+      const result = safeParse(value);
+      if (!result.ok) {
+        throw result.error;
+      }
+      return result.value;
+    },
+    safeParse,
+    unsafe: (value) => value as Brand<T, B>,
+  };
+}
+
+const isoDateTimePattern =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:Z|[+-](\d{2}):(\d{2}))$/;
+
+/**
+ * Whether the value is an ISO 8601 date-time naming a real calendar date and
+ * clock time; `Date.parse` alone rolls `2024-02-30` over to March 1
+ */
+function isIsoDateTime(value: string): boolean {
+  const match = isoDateTimePattern.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [
+    year = 0,
+    month = 0,
+    day = 0,
+    hour = 0,
+    minute = 0,
+    second = 0,
+    offsetHour = 0,
+    offsetMinute = 0,
+  ] = match.slice(1).map((part) => Number(part ?? 0));
+  if (hour > 23 || minute > 59 || second > 59 || offsetHour > 23 || offsetMinute > 59) {
+    return false;
+  }
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return (
+    date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+  );
+}
+
+/**
+ * Common brands
+ *
+ * - `Email`: strings accepted by `isEmail`
+ * - `UserId`: non-empty strings without surrounding whitespace
+ * - `PositiveInt`: safe integers greater than zero
+ * - `IsoDateTimeString`: ISO 8601 date-times with a timezone, e.g. `2024-01-31T12:00:00Z`;
+ *   impossible dates and times such as `2024-02-30` or `24:00` are rejected
+ *
+ * @example
+ * ```ts
+ * type UserId = BrandOf<typeof brands.UserId>;
+ *
+ * const id = brands.UserId.parse(request.params.id);
+ * const page = brands.PositiveInt.safeParse(Number(query.page));
+ * ```
+ */
+export const brands = {
+  Email: defineBrand('Email', (value): value is string => isString(value) && isEmail(value)),
+  UserId: defineBrand(
+    'UserId',
+    (value): value is string => isString(value) && value.length > 0 && value.trim() === value
+  ),
+  PositiveInt: defineBrand(
+    'PositiveInt',
+    (value): value is number => Number.isSafeInteger(value) && (value as number) > 0
+  ),
+  IsoDateTimeString: defineBrand(
+    'IsoDateTimeString',
+    (value): value is string => isString(value) && isIsoDateTime(value)
+  ),
+};
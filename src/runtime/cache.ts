@@ -0,0 +1,306 @@
+/**
+ * In-process LRU/TTL cache
+ */
+
+import { createUtilsError } from './error.js';
+
+/**
+ * Why an entry left the cache
+ */
+export type CacheEvictReason = 'capacity' | 'expired' | 'deleted' | 'replaced' | 'cleared';
+
+/**
+ * Options for createCache
+ */
+export type CacheOptions<K, V> = {
+  /** Maximum total size; each entry counts as 1 unless `sizeOf` is set (default: Infinity) */
+  max?: number;
+  /** Entry lifetime in ms (default: no expiry) */
+  ttl?: number;
+  /**
+   * How long after `ttl` an entry may still be served by `getOrLoad` while it
+   * reloads in the background, in ms (default: 0)
+   */
+  staleWhileRevalidate?: number;
+  /** Called whenever an entry is removed or replaced */
+  onEvict?: (key: K, value: V, reason: CacheEvictReason) => void;
+  /** Size of an entry counted against `max` (default: 1) */
+  sizeOf?: (value: V, key: K) => number;
+};
+
+/**
+ * Per-entry options for Cache.set and Cache.getOrLoad
+ */
+export type CacheSetOptions = {
+  /** Entry lifetime in ms (overrides the cache default) */
+  ttl?: number;
+};
+
+/**
+ * Cache metrics, suitable for `createPerformanceLogger(...).record`
+ */
+export type CacheStats = {
+  /** Fresh values returned by `get` or `getOrLoad` */
+  hits: number;
+  /** Lookups that found no fresh value */
+  misses: number;
+  /** Stale values served by `getOrLoad` while reloading */
+  stale: number;
+  /** Loader calls made by `getOrLoad` */
+  loads: number;
+  /** Entries removed for capacity or expiry */
+  evictions: number;
+  /** `hits / (hits + misses)`, or 0 before the first lookup */
+  hitRate: number;
+  /** Number of stored entries */
+  size: number;
+  /** Sum of entry sizes counted against `max` */
+  totalSize: number;
+};
+
+/**
+ * LRU/TTL cache handle
+ */
+export type Cache<K, V> = {
+  /** Get a fresh value and mark it as recently used */
+  get: (key: K) => V | undefined;
+  /** Store a value, evicting least recently used entries beyond `max` */
+  set: (key: K, value: V, options?: CacheSetOptions) => Cache<K, V>;
+  /** Check for a fresh value without updating recency or metrics */
+  has: (key: K) => boolean;
+  /** Get a fresh value without updating recency or metrics */
+  peek: (key: K) => V | undefined;
+  /** Remove an entry; returns whether one existed */
+  delete: (key: K) => boolean;
+  /** Remove every entry */
+  clear: () => void;
+  /** Fresh entries, from least to most recently used */
+  entries: () => IterableIterator<[K, V]>;
+  /**
+   * Return the cached value or load it. Concurrent calls for the same key share
+   * one loader call. Within the `staleWhileRevalidate` window the stale value is
+   * returned immediately and reloaded in the background.
+   */
+  getOrLoad: (key: K, loader: (key: K) => V | Promise<V>, options?: CacheSetOptions) => Promise<V>;
+  stats: () => CacheStats;
+  /** Number of stored entries */
+  readonly size: number;
+};
+
+type CacheEntry<V> = {
+  value: V;
+  size: number;
+  staleAt: number;
+  expiresAt: number;
+};
+
+/**
+ * Create an in-process cache with LRU eviction, TTL expiry and deduplicated loads.
+ *
+ * @example
+ * ```ts
+ * const users = createCache<string, User>({ max: 1000, ttl: 60_000, staleWhileRevalidate: 10_000 });
+ * const user = await users.getOrLoad(id, (key) => fetchUser(key));
+ *
+ * const perf = createPerformanceLogger('users-cache');
+ * setInterval(() => perf.record('cache', users.stats()), 60_000);
+ * ```
+ */
+export function createCache<K, V>(options: CacheOptions<K, V> = {}): Cache<K, V> {
+  const {
+    max = Number.POSITIVE_INFINITY,
+    ttl: defaultTtl,
+    staleWhileRevalidate = 0,
+    onEvict,
+    sizeOf,
+  } = options;
+
+  if (
+    !(max >= 1) ||
+    (defaultTtl !== undefined && !(defaultTtl > 0)) ||
+    !(staleWhileRevalidate >= 0)
+  ) {
+    throw createUtilsError({
+      code: 'INVALID_ARGUMENT',
+      message:
+        'Cache max must be at least 1, ttl must be positive and staleWhileRevalidate non-negative',
+      details: { max, ttl: defaultTtl, staleWhileRevalidate },
+    });
+  }
+
+  // Map iteration order doubles as recency order: reads re-insert entries at the end
+  const store = new Map<K, CacheEntry<V>>();
+  // set, delete and clear drop a key's in-flight load, so its result is not stored
+  const loading = new Map<K, Promise<V>>();
+  const counters = { hits: 0, misses: 0, stale: 0, loads: 0, evictions: 0 };
+  let totalSize = 0;
+
+  const remove = (key: K, entry: CacheEntry<V>, reason: CacheEvictReason): void => {
+    store.delete(key);
+    totalSize -= entry.size;
+    if (reason === 'capacity' || reason === 'expired') {
+      counters.evictions++;
+    }
+    onEvict?.(key, entry.value, reason);
+  };
+
+  /** Look up an entry, dropping it once it is past its stale window */
+  const lookup = (key: K): CacheEntry<V> | undefined => {
+    const entry = store.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      remove(key, entry, 'expired');
+      return undefined;
+    }
+    return entry;
+  };
+
+  const isFresh = (entry: CacheEntry<V>): boolean => entry.staleAt > Date.now();
+
+  const touch = (key: K, entry: CacheEntry<V>): void => {
+    store.delete(key);
+    store.set(key, entry);
+  };
+
+  const set = (key: K, value: V, setOptions: CacheSetOptions = {}): Cache<K, V> => {
+    const { ttl = defaultTtl } = setOptions;
+    loading.delete(key);
+    const size = sizeOf ? sizeOf(value, key) : 1;
+    if (!(size > 0) || !Number.isFinite(size) || (ttl !== undefined && !(ttl > 0))) {
+      throw createUtilsError({
+        code: 'INVALID_ARGUMENT',
+        message: 'Cache entry size and ttl must be positive',
+        details: { size, ttl },
+      });
+    }
+
+    const existing = store.get(key);
+    if (existing) {
+      store.delete(key);
+      totalSize -= existing.size;
+      if (existing.value !== value) {
+        onEvict?.(key, existing.value, 'replaced');
+      }
+    }
+
+    if (size > max) {
+      onEvict?.(key, value, 'capacity');
+      counters.evictions++;
+      return cache;
+    }
+
+    const staleAt = ttl === undefined ? Number.POSITIVE_INFINITY : Date.now() + ttl;
+    store.set(key, { value, size, staleAt, expiresAt: staleAt + staleWhileRevalidate });
+    totalSize += size;
+
+    for (const [oldestKey, oldest] of store) {
+      if (totalSize <= max) {
+        break;
+      }
+      remove(oldestKey, oldest, 'capacity');
+    }
+    return cache;
+  };
+
+  const load = async (
+    key: K,
+    loader: (key: K) => V | Promise<V>,
+    setOptions?: CacheSetOptions
+  ): Promise<V> => {
+    const inFlight = loading.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    counters.loads++;
+    const pending = (async () => loader(key))();
+    loading.set(key, pending);
+    try {
+      const value = await pending;
+      // Skip storing a value whose key was set, deleted or cleared while it loaded
+      if (loading.get(key) === pending) {
+        set(key, value, setOptions);
+      }
+      return value;
+    } finally {
+      if (loading.get(key) === pending) {
+        loading.delete(key);
+      }
+    }
+  };
+
+  const methods: Omit<Cache<K, V>, 'size'> = {
+    get: (key) => {
+      const entry = lookup(key);
+      if (entry && isFresh(entry)) {
+        touch(key, entry);
+        counters.hits++;
+        return entry.value;
+      }
+      counters.misses++;
+      return undefined;
+    },
+    set,
+    has: (key) => {
+      const entry = lookup(key);
+      return entry !== undefined && isFresh(entry);
+    },
+    peek: (key) => {
+      const entry = lookup(key);
+      return entry && isFresh(entry) ? entry.value : undefined;
+    },
+    delete: (key) => {
+      loading.delete(key);
+      const entry = store.get(key);
+      if (!entry) {
+        return false;
+      }
+      remove(key, entry, 'deleted');
+      return true;
+    },
+    clear: () => {
+      loading.clear();
+      for (const [key, entry] of [...store]) {
+        remove(key, entry, 'cleared');
+      }
+    },
+    *entries() {
+      for (const [key, entry] of [...store]) {
+        if (isFresh(entry)) {
+          yield [key, entry.value];
+        }
+      }
+    },
+    getOrLoad: async (key, loader, setOptions) => {
+      const entry = lookup(key);
+      if (entry) {
+        touch(key, entry);
+        if (isFresh(entry)) {
+          counters.hits++;
+          return entry.value;
+        }
+        // Serve the stale value and refresh in the background; a failed refresh keeps it
+        counters.stale++;
+        load(key, loader, setOptions).catch(() => undefined);
+        return entry.value;
+      }
+
+      counters.misses++;
+      return load(key, loader, setOptions);
+    },
+    stats: () => {
+      const lookups = counters.hits + counters.misses;
+      return {
+        ...counters,
+        hitRate: lookups === 0 ? 0 : counters.hits / lookups,
+        size: store.size,
+        totalSize,
+      };
+    },
+  };
+
+  const cache = Object.defineProperty(methods, 'size', {
+    get: () => store.size,
+    enumerable: true,
+  }) as Cache<K, V>;
+  return cache;
+}
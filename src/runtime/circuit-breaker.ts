@@ -0,0 +1,289 @@
+/**
+ * Circuit breaker for async operations
+ */
+
+import { createUtilsError } from './error.js';
+
+/**
+ * Circuit breaker states
+ *
+ * - `closed`: calls pass through and outcomes are recorded
+ * - `open`: calls are rejected with a `CIRCUIT_OPEN` UtilsError until `resetTimeout` elapses
+ * - `half-open`: a limited number of trial calls decide whether to close or re-open
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Event emitted whenever the circuit changes state
+ */
+export type CircuitStateChange = {
+  from: CircuitState;
+  to: CircuitState;
+  /** Error that caused the transition, when a failure opened the circuit */
+  error?: unknown;
+};
+
+/**
+ * Snapshot of circuit breaker counters
+ */
+export type CircuitBreakerStats = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** Failure ratio over the rolling window (0 when no calls were recorded) */
+  failureRate: number;
+  /** Number of outcomes in the rolling window */
+  windowCalls: number;
+  /** Timestamp at which the circuit last opened */
+  openedAt: number | undefined;
+};
+
+/**
+ * Options for circuitBreaker
+ */
+export type CircuitBreakerOptions = {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Failure ratio (0-1) over the rolling window that opens the circuit */
+  failureRateThreshold?: number;
+  /** Number of recent outcomes tracked for the failure rate (default: 20) */
+  windowSize?: number;
+  /** Minimum outcomes in the window before the failure rate is evaluated (default: 10) */
+  minimumCalls?: number;
+  /** Time in ms the circuit stays open before allowing trial calls (default: 30000) */
+  resetTimeout?: number;
+  /** Concurrent trial calls allowed while half-open (default: 1) */
+  halfOpenMaxCalls?: number;
+  /** Decide whether an error counts as a failure (default: every error) */
+  isFailure?: (error: unknown) => boolean;
+  /**
+   * Called on every state transition; errors thrown by listeners are rethrown
+   * asynchronously and do not affect calls
+   */
+  onStateChange?: (event: CircuitStateChange) => void;
+  /** Clock used for reset timing; inject a fake in tests */
+  clock?: { now: () => number };
+};
+
+/**
+ * Function guarded by a circuit breaker, with state inspection and controls
+ */
+export type CircuitBreaker<TArguments extends unknown[], R> = ((
+  ...args: TArguments
+) => Promise<R>) & {
+  /** Current state (open circuits past `resetTimeout` report `half-open`) */
+  readonly state: CircuitState;
+  stats: () => CircuitBreakerStats;
+  /** Subscribe to state transitions; returns an unsubscribe function */
+  onStateChange: (listener: (event: CircuitStateChange) => void) => () => void;
+  /** Force the circuit open */
+  open: () => void;
+  /** Force the circuit closed and clear recorded outcomes */
+  reset: () => void;
+};
+
+/**
+ * Wrap an async function with a circuit breaker.
+ *
+ * While open, calls fail fast with a UtilsError coded `CIRCUIT_OPEN` whose
+ * details include `retryAfter` (ms). Compose with `retry` and `timeout` by
+ * wrapping them inside or outside the breaker; to avoid retrying fast
+ * failures, stop on `CIRCUIT_OPEN` in `shouldRetry`.
+ *
+ * @example
+ * ```ts
+ * const getUser = circuitBreaker(
+ *   (id: string) => timeout((signal) => api.getUser(id, { signal }), 2000),
+ *   { failureThreshold: 3, resetTimeout: 10_000 }
+ * );
+ *
+ * await retry(() => getUser('42'), {
+ *   shouldRetry: (error) => !isUtilsError(error) || error.code !== 'CIRCUIT_OPEN',
+ * });
+ * ```
+ */
+export function circuitBreaker<TArguments extends unknown[], R>(
+  function_: (...args: TArguments) => Promise<R>,
+  options: CircuitBreakerOptions = {}
+): CircuitBreaker<TArguments, R> {
+  const {
+    failureThreshold = 5,
+    failureRateThreshold,
+    windowSize = 20,
+    minimumCalls = 10,
+    resetTimeout = 30_000,
+    halfOpenMaxCalls = 1,
+    isFailure = () => true,
+    onStateChange,
+    clock = { now: () => Date.now() },
+  } = options;
+
+  const listeners = new Set<(event: CircuitStateChange) => void>();
+  if (onStateChange) {
+    listeners.add(onStateChange);
+  }
+
+  let state: CircuitState = 'closed';
+  let openedAt: number | undefined;
+  let consecutiveFailures = 0;
+  let halfOpenInFlight = 0;
+  let window: boolean[] = [];
+  /** Bumped on every transition, so trial outcomes from an earlier half-open round are ignored */
+  let generation = 0;
+
+  const transition = (to: CircuitState, error?: unknown): void => {
+    if (state === to) {
+      return;
+    }
+
+    const event: CircuitStateChange = {
+      from: state,
+      to,
+      ...(error === undefined ? {} : { error }),
+    };
+    state = to;
+    generation++;
+    halfOpenInFlight = 0;
+
+    if (to === 'open') {
+      openedAt = clock.now();
+    } else if (to === 'closed') {
+      openedAt = undefined;
+      consecutiveFailures = 0;
+      window = [];
+    }
+
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch (listenerError) {
+        queueMicrotask(() => {
+          throw listenerError;
+        });
+      }
+    }
+  };
+
+  const currentState = (): CircuitState => {
+    if (state === 'open' && openedAt !== undefined && clock.now() - openedAt >= resetTimeout) {
+      transition('half-open');
+    }
+    return state;
+  };
+
+  const failureRate = (): number =>
+    window.length === 0 ? 0 : window.filter(Boolean).length / window.length;
+
+  const record = (failed: boolean): void => {
+    window.push(failed);
+    if (window.length > windowSize) {
+      window.shift();
+    }
+  };
+
+  const shouldOpen = (): boolean => {
+    if (consecutiveFailures >= failureThreshold) {
+      return true;
+    }
+    return (
+      failureRateThreshold !== undefined &&
+      window.length >= minimumCalls &&
+      failureRate() >= failureRateThreshold
+    );
+  };
+
+  const onSuccess = (wasTrial: boolean): void => {
+    consecutiveFailures = 0;
+    record(false);
+    if (wasTrial) {
+      transition('closed');
+    }
+  };
+
+  const onFailure = (error: unknown, wasTrial: boolean): void => {
+    if (!isFailure(error)) {
+      if (wasTrial) {
+        transition('closed');
+      }
+      return;
+    }
+
+    consecutiveFailures++;
+    record(true);
+    if (wasTrial || (state === 'closed' && shouldOpen())) {
+      transition('open', error);
+    }
+  };
+
+  const guarded = async (...args: TArguments): Promise<R> => {
+    const current = currentState();
+
+    if (current === 'open' || (current === 'half-open' && halfOpenInFlight >= halfOpenMaxCalls)) {
+      const retryAfter =
+        current === 'open' && openedAt !== undefined
+          ? Math.max(0, openedAt + resetTimeout - clock.now())
+          : 0;
+      throw createUtilsError({
+        code: 'CIRCUIT_OPEN',
+        message: 'Circuit breaker is open',
+        details: { state: current, retryAfter },
+      });
+    }
+
+    const isTrial = current === 'half-open';
+    const round = generation;
+    if (isTrial) {
+      halfOpenInFlight++;
+    }
+
+    let outcome: { ok: true; value: R } | { ok: false; error: unknown };
+    try {
+      outcome = { ok: true, value: await function_(...args) };
+    } catch (error) {
+      outcome = { ok: false, error };
+    }
+
+    // A trial only decides the round it was admitted in; once another trial or a
+    // manual open/reset moved the circuit on, its outcome is recorded as a plain call
+    const isCurrentTrial = isTrial && round === generation;
+    if (isCurrentTrial) {
+      halfOpenInFlight--;
+    }
+    // Outcomes are recorded outside the try so that a state change cannot turn a
+    // successful call into a failure
+    if (outcome.ok) {
+      onSuccess(isCurrentTrial);
+      return outcome.value;
+    }
+    onFailure(outcome.error, isCurrentTrial);
+    throw outcome.error;
+  };
+
+  return Object.defineProperties(guarded, {
+    state: { get: currentState, enumerable: true },
+    stats: {
+      value: (): CircuitBreakerStats => ({
+        state: currentState(),
+        consecutiveFailures,
+        failureRate: failureRate(),
+        windowCalls: window.length,
+        openedAt,
+      }),
+    },
+    onStateChange: {
+      value: (listener: (event: CircuitStateChange) => void) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+    },
+    open: { value: () => transition('open') },
+    reset: {
+      value: () => {
+        transition('closed');
+        consecutiveFailures = 0;
+        window = [];
+      },
+    },
+  }) as CircuitBreaker<TArguments, R>;
+}
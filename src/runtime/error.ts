@@ -11,6 +11,10 @@ export type UtilsErrorCode =
   | 'INVALID_ARGUMENT'
   | 'INVALID_RANGE'
   | 'OPERATION_FAILED'
+  | 'ABORTED'
+  | 'TIMEOUT'
+  | 'CIRCUIT_OPEN'
+  | 'RATE_LIMITED'
   | 'TYPE_ERROR'
   | 'VALIDATION_ERROR';
 
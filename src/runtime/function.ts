@@ -2,100 +2,1063 @@
  * Function utility functions
  */
 
+import { createUtilsError } from './error.js';
+import { createAbortError } from './internal/abort.js';
+
 type UnknownFunction = (...args: unknown[]) => unknown;
 type BooleanFunction = (...args: unknown[]) => boolean;
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type AnyFunction = (...args: any[]) => any;
 
 /**
- * Compose functions from right to left
+ * Compose functions from right to left.
+ *
+ * The mirror image of `pipe`: the last function receives the input and each
+ * earlier function receives the output of the one after it.
+ *
+ * @example
+ * ```ts
+ * const slugify = compose(kebabCase, (title: string) => title.trim());
+ * slugify('  Hello World ') // 'hello-world'
+ * ```
  */
-export function compose<T, R>(...fns: Array<(argument: unknown) => unknown>): (argument: T) => R {
-  return (argument: T) =>
-    fns.reduceRight((result, function_) => function_(result), argument as unknown) as R;
+export function compose<A, B>(ab: (argument: A) => B): (argument: A) => B;
+export function compose<A, B, C>(
+  bc: (argument: B) => C,
+  ab: (argument: A) => B
+): (argument: A) => C;
+export function compose<A, B, C, D>(
+  cd: (argument: C) => D,
+  bc: (argument: B) => C,
+  ab: (argument: A) => B
+): (argument: A) => D;
+export function compose<A, B, C, D, E>(
+  de: (argument: D) => E,
+  cd: (argument: C) => D,
+  bc: (argument: B) => C,
+  ab: (argument: A) => B
+): (argument: A) => E;
+export function compose<A, B, C, D, E, F>(
+  ef: (argument: E) => F,
+  de: (argument: D) => E,
+  cd: (argument: C) => D,
+  bc: (argument: B) => C,
+  ab: (argument: A) => B
+): (argument: A) => F;
+export function compose<A, B, C, D, E, F, G>(
+  fg: (argument: F) => G,
+  ef: (argument: E) => F,
+  de: (argument: D) => E,
+  cd: (argument: C) => D,
+  bc: (argument: B) => C,
+  ab: (argument: A) => B
+): (argument: A) => G;
+export function compose<A, B, C, D, E, F, G, H>(
+  gh: (argument: G) => H,
+  fg: (argument: F) => G,
+  ef: (argument: E) => F,
+  de: (argument: D) => E,
+  cd: (argument: C) => D,
+  bc: (argument: B) => C,
+  ab: (argument: A) => B
+): (argument: A) => H;
+export function compose<A, B, C, D, E, F, G, H, I>(
+  hi: (argument: H) => I,
+  gh: (argument: G) => H,
+  fg: (argument: F) => G,
+  ef: (argument: E) => F,
+  de: (argument: D) => E,
+  cd: (argument: C) => D,
+  bc: (argument: B) => C,
+  ab: (argument: A) => B
+): (argument: A) => I;
+export function compose<A, B, C, D, E, F, G, H, I, J>(
+  ij: (argument: I) => J,
+  hi: (argument: H) => I,
+  gh: (argument: G) => H,
+  fg: (argument: F) => G,
+  ef: (argument: E) => F,
+  de: (argument: D) => E,
+  cd: (argument: C) => D,
+  bc: (argument: B) => C,
+  ab: (argument: A) => B
+): (argument: A) => J;
+export function compose(
+  ...fns: Array<(argument: unknown) => unknown>
+): (argument: unknown) => unknown {
+  return (argument: unknown) => fns.reduceRight((result, function_) => function_(result), argument);
 }
 
 /**
- * Pipe functions from left to right
+ * Pipe functions from left to right.
+ *
+ * Each stage's input is inferred from the previous stage's output, so a
+ * mistyped stage fails to compile and data-last utilities infer their element
+ * types from the pipeline input. Nest `pipe` calls for more than nine stages.
+ *
+ * @example
+ * ```ts
+ * const topTwo = pipe((users: User[]) => users, uniqueBy('email'), take(2));
+ * ```
  */
-export function pipe<T, R>(...fns: Array<(argument: unknown) => unknown>): (argument: T) => R {
-  return (argument: T) =>
-    fns.reduce((result, function_) => function_(result), argument as unknown) as R;
+export function pipe<A, B>(ab: (argument: A) => B): (argument: A) => B;
+export function pipe<A, B, C>(ab: (argument: A) => B, bc: (argument: B) => C): (argument: A) => C;
+export function pipe<A, B, C, D>(
+  ab: (argument: A) => B,
+  bc: (argument: B) => C,
+  cd: (argument: C) => D
+): (argument: A) => D;
+export function pipe<A, B, C, D, E>(
+  ab: (argument: A) => B,
+  bc: (argument: B) => C,
+  cd: (argument: C) => D,
+  de: (argument: D) => E
+): (argument: A) => E;
+export function pipe<A, B, C, D, E, F>(
+  ab: (argument: A) => B,
+  bc: (argument: B) => C,
+  cd: (argument: C) => D,
+  de: (argument: D) => E,
+  ef: (argument: E) => F
+): (argument: A) => F;
+export function pipe<A, B, C, D, E, F, G>(
+  ab: (argument: A) => B,
+  bc: (argument: B) => C,
+  cd: (argument: C) => D,
+  de: (argument: D) => E,
+  ef: (argument: E) => F,
+  fg: (argument: F) => G
+): (argument: A) => G;
+export function pipe<A, B, C, D, E, F, G, H>(
+  ab: (argument: A) => B,
+  bc: (argument: B) => C,
+  cd: (argument: C) => D,
+  de: (argument: D) => E,
+  ef: (argument: E) => F,
+  fg: (argument: F) => G,
+  gh: (argument: G) => H
+): (argument: A) => H;
+export function pipe<A, B, C, D, E, F, G, H, I>(
+  ab: (argument: A) => B,
+  bc: (argument: B) => C,
+  cd: (argument: C) => D,
+  de: (argument: D) => E,
+  ef: (argument: E) => F,
+  fg: (argument: F) => G,
+  gh: (argument: G) => H,
+  hi: (argument: H) => I
+): (argument: A) => I;
+export function pipe<A, B, C, D, E, F, G, H, I, J>(
+  ab: (argument: A) => B,
+  bc: (argument: B) => C,
+  cd: (argument: C) => D,
+  de: (argument: D) => E,
+  ef: (argument: E) => F,
+  fg: (argument: F) => G,
+  gh: (argument: G) => H,
+  hi: (argument: H) => I,
+  ij: (argument: I) => J
+): (argument: A) => J;
+export function pipe(
+  ...fns: Array<(argument: unknown) => unknown>
+): (argument: unknown) => unknown {
+  return (argument: unknown) => fns.reduce((result, function_) => function_(result), argument);
 }
 
 /**
- * Debounce function execution
+ * Pipe functions from left to right, awaiting each stage.
+ *
+ * Stages may return values or promises; the next stage always receives the
+ * resolved value and the composed function always returns a promise.
+ *
+ * @example
+ * ```ts
+ * const loadProfile = pipeAsync(fetchUser, (user: User) => user.profileId, fetchProfile);
+ * const profile = await loadProfile('user-1');
+ * ```
  */
-export function debounce<T extends UnknownFunction>(
-  function_: T,
-  delayMs: number
-): (...args: Parameters<T>) => void {
-  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+export function pipeAsync<A, B>(ab: (argument: A) => B | Promise<B>): (argument: A) => Promise<B>;
+export function pipeAsync<A, B, C>(
+  ab: (argument: A) => B | Promise<B>,
+  bc: (argument: B) => C | Promise<C>
+): (argument: A) => Promise<C>;
+export function pipeAsync<A, B, C, D>(
+  ab: (argument: A) => B | Promise<B>,
+  bc: (argument: B) => C | Promise<C>,
+  cd: (argument: C) => D | Promise<D>
+): (argument: A) => Promise<D>;
+export function pipeAsync<A, B, C, D, E>(
+  ab: (argument: A) => B | Promise<B>,
+  bc: (argument: B) => C | Promise<C>,
+  cd: (argument: C) => D | Promise<D>,
+  de: (argument: D) => E | Promise<E>
+): (argument: A) => Promise<E>;
+export function pipeAsync<A, B, C, D, E, F>(
+  ab: (argument: A) => B | Promise<B>,
+  bc: (argument: B) => C | Promise<C>,
+  cd: (argument: C) => D | Promise<D>,
+  de: (argument: D) => E | Promise<E>,
+  ef: (argument: E) => F | Promise<F>
+): (argument: A) => Promise<F>;
+export function pipeAsync<A, B, C, D, E, F, G>(
+  ab: (argument: A) => B | Promise<B>,
+  bc: (argument: B) => C | Promise<C>,
+  cd: (argument: C) => D | Promise<D>,
+  de: (argument: D) => E | Promise<E>,
+  ef: (argument: E) => F | Promise<F>,
+  fg: (argument: F) => G | Promise<G>
+): (argument: A) => Promise<G>;
+export function pipeAsync<A, B, C, D, E, F, G, H>(
+  ab: (argument: A) => B | Promise<B>,
+  bc: (argument: B) => C | Promise<C>,
+  cd: (argument: C) => D | Promise<D>,
+  de: (argument: D) => E | Promise<E>,
+  ef: (argument: E) => F | Promise<F>,
+  fg: (argument: F) => G | Promise<G>,
+  gh: (argument: G) => H | Promise<H>
+): (argument: A) => Promise<H>;
+export function pipeAsync<A, B, C, D, E, F, G, H, I>(
+  ab: (argument: A) => B | Promise<B>,
+  bc: (argument: B) => C | Promise<C>,
+  cd: (argument: C) => D | Promise<D>,
+  de: (argument: D) => E | Promise<E>,
+  ef: (argument: E) => F | Promise<F>,
+  fg: (argument: F) => G | Promise<G>,
+  gh: (argument: G) => H | Promise<H>,
+  hi: (argument: H) => I | Promise<I>
+): (argument: A) => Promise<I>;
+export function pipeAsync<A, B, C, D, E, F, G, H, I, J>(
+  ab: (argument: A) => B | Promise<B>,
+  bc: (argument: B) => C | Promise<C>,
+  cd: (argument: C) => D | Promise<D>,
+  de: (argument: D) => E | Promise<E>,
+  ef: (argument: E) => F | Promise<F>,
+  fg: (argument: F) => G | Promise<G>,
+  gh: (argument: G) => H | Promise<H>,
+  hi: (argument: H) => I | Promise<I>,
+  ij: (argument: I) => J | Promise<J>
+): (argument: A) => Promise<J>;
+export function pipeAsync(
+  ...fns: Array<(argument: unknown) => unknown>
+): (argument: unknown) => Promise<unknown> {
+  return async (argument: unknown) => {
+    let result = argument;
+    for (const function_ of fns) {
+      result = await function_(result);
+    }
+    return result;
+  };
+}
 
-  return function (this: unknown, ...args: Parameters<T>) {
-    if (timeoutId) {
-      clearTimeout(timeoutId);
+/**
+ * Compose functions from right to left, awaiting each stage.
+ *
+ * @example
+ * ```ts
+ * const loadProfile = composeAsync(fetchProfile, (user: User) => user.profileId, fetchUser);
+ * ```
+ */
+export function composeAsync<A, B>(
+  ab: (argument: A) => B | Promise<B>
+): (argument: A) => Promise<B>;
+export function composeAsync<A, B, C>(
+  bc: (argument: B) => C | Promise<C>,
+  ab: (argument: A) => B | Promise<B>
+): (argument: A) => Promise<C>;
+export function composeAsync<A, B, C, D>(
+  cd: (argument: C) => D | Promise<D>,
+  bc: (argument: B) => C | Promise<C>,
+  ab: (argument: A) => B | Promise<B>
+): (argument: A) => Promise<D>;
+export function composeAsync<A, B, C, D, E>(
+  de: (argument: D) => E | Promise<E>,
+  cd: (argument: C) => D | Promise<D>,
+  bc: (argument: B) => C | Promise<C>,
+  ab: (argument: A) => B | Promise<B>
+): (argument: A) => Promise<E>;
+export function composeAsync<A, B, C, D, E, F>(
+  ef: (argument: E) => F | Promise<F>,
+  de: (argument: D) => E | Promise<E>,
+  cd: (argument: C) => D | Promise<D>,
+  bc: (argument: B) => C | Promise<C>,
+  ab: (argument: A) => B | Promise<B>
+): (argument: A) => Promise<F>;
+export function composeAsync<A, B, C, D, E, F, G>(
+  fg: (argument: F) => G | Promise<G>,
+  ef: (argument: E) => F | Promise<F>,
+  de: (argument: D) => E | Promise<E>,
+  cd: (argument: C) => D | Promise<D>,
+  bc: (argument: B) => C | Promise<C>,
+  ab: (argument: A) => B | Promise<B>
+): (argument: A) => Promise<G>;
+export function composeAsync<A, B, C, D, E, F, G, H>(
+  gh: (argument: G) => H | Promise<H>,
+  fg: (argument: F) => G | Promise<G>,
+  ef: (argument: E) => F | Promise<F>,
+  de: (argument: D) => E | Promise<E>,
+  cd: (argument: C) => D | Promise<D>,
+  bc: (argument: B) => C | Promise<C>,
+  ab: (argument: A) => B | Promise<B>
+): (argument: A) => Promise<H>;
+export function composeAsync<A, B, C, D, E, F, G, H, I>(
+  hi: (argument: H) => I | Promise<I>,
+  gh: (argument: G) => H | Promise<H>,
+  fg: (argument: F) => G | Promise<G>,
+  ef: (argument: E) => F | Promise<F>,
+  de: (argument: D) => E | Promise<E>,
+  cd: (argument: C) => D | Promise<D>,
+  bc: (argument: B) => C | Promise<C>,
+  ab: (argument: A) => B | Promise<B>
+): (argument: A) => Promise<I>;
+export function composeAsync<A, B, C, D, E, F, G, H, I, J>(
+  ij: (argument: I) => J | Promise<J>,
+  hi: (argument: H) => I | Promise<I>,
+  gh: (argument: G) => H | Promise<H>,
+  fg: (argument: F) => G | Promise<G>,
+  ef: (argument: E) => F | Promise<F>,
+  de: (argument: D) => E | Promise<E>,
+  cd: (argument: C) => D | Promise<D>,
+  bc: (argument: B) => C | Promise<C>,
+  ab: (argument: A) => B | Promise<B>
+): (argument: A) => Promise<J>;
+export function composeAsync(
+  ...fns: Array<(argument: unknown) => unknown>
+): (argument: unknown) => Promise<unknown> {
+  return async (argument: unknown) => {
+    let result = argument;
+    for (let index = fns.length - 1; index >= 0; index--) {
+      result = await fns[index]?.(result);
     }
+    return result;
+  };
+}
+
+/**
+ * Build a function from a pipeline for point-free composition.
+ *
+ * Like `pipe`, but the first function may take any number of arguments, so the
+ * result keeps that function's parameter list.
+ *
+ * @example
+ * ```ts
+ * const total = flow((prices: number[], tax: number) => sum(prices) * (1 + tax), Math.round);
+ * total([10, 20], 0.2) // 36
+ * ```
+ */
+export function flow<A extends unknown[], B>(ab: (...args: A) => B): (...args: A) => B;
+export function flow<A extends unknown[], B, C>(
+  ab: (...args: A) => B,
+  bc: (argument: B) => C
+): (...args: A) => C;
+export function flow<A extends unknown[], B, C, D>(
+  ab: (...args: A) => B,
+  bc: (argument: B) => C,
+  cd: (argument: C) => D
+): (...args: A) => D;
+export function flow<A extends unknown[], B, C, D, E>(
+  ab: (...args: A) => B,
+  bc: (argument: B) => C,
+  cd: (argument: C) => D,
+  de: (argument: D) => E
+): (...args: A) => E;
+export function flow<A extends unknown[], B, C, D, E, F>(
+  ab: (...args: A) => B,
+  bc: (argument: B) => C,
+  cd: (argument: C) => D,
+  de: (argument: D) => E,
+  ef: (argument: E) => F
+): (...args: A) => F;
+export function flow<A extends unknown[], B, C, D, E, F, G>(
+  ab: (...args: A) => B,
+  bc: (argument: B) => C,
+  cd: (argument: C) => D,
+  de: (argument: D) => E,
+  ef: (argument: E) => F,
+  fg: (argument: F) => G
+): (...args: A) => G;
+export function flow<A extends unknown[], B, C, D, E, F, G, H>(
+  ab: (...args: A) => B,
+  bc: (argument: B) => C,
+  cd: (argument: C) => D,
+  de: (argument: D) => E,
+  ef: (argument: E) => F,
+  fg: (argument: F) => G,
+  gh: (argument: G) => H
+): (...args: A) => H;
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I>(
+  ab: (...args: A) => B,
+  bc: (argument: B) => C,
+  cd: (argument: C) => D,
+  de: (argument: D) => E,
+  ef: (argument: E) => F,
+  fg: (argument: F) => G,
+  gh: (argument: G) => H,
+  hi: (argument: H) => I
+): (...args: A) => I;
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I, J>(
+  ab: (...args: A) => B,
+  bc: (argument: B) => C,
+  cd: (argument: C) => D,
+  de: (argument: D) => E,
+  ef: (argument: E) => F,
+  fg: (argument: F) => G,
+  gh: (argument: G) => H,
+  hi: (argument: H) => I,
+  ij: (argument: I) => J
+): (...args: A) => J;
+export function flow(
+  first: (...args: unknown[]) => unknown,
+  ...rest: Array<(argument: unknown) => unknown>
+): (...args: unknown[]) => unknown {
+  return (...args: unknown[]) =>
+    rest.reduce((result, function_) => function_(result), first(...args));
+}
+
+/**
+ * Options for debounce
+ */
+export type DebounceOptions = {
+  /** Invoke on the leading edge of the wait (default: false) */
+  leading?: boolean;
+  /** Invoke on the trailing edge with the latest arguments (default: true) */
+  trailing?: boolean;
+  /** Maximum time a call may be delayed before an invocation, in ms */
+  maxWait?: number;
+};
 
-    timeoutId = setTimeout(() => {
-      function_.apply(this, args);
-      timeoutId = null;
-    }, delayMs);
+/**
+ * Options for throttle
+ */
+export type ThrottleOptions = {
+  /** Invoke on the leading edge of each interval (default: true) */
+  leading?: boolean;
+  /** Invoke at the end of the interval with the latest arguments (default: true) */
+  trailing?: boolean;
+};
+
+/**
+ * Debounced or throttled function with its control handles
+ */
+export type DebouncedFunction<T extends AnyFunction> = {
+  /** Schedule a call; returns the result of the latest invocation */
+  (...args: Parameters<T>): ReturnType<T> | undefined;
+  /** Drop the scheduled invocation */
+  cancel: () => void;
+  /** Run the scheduled invocation now and return the latest result */
+  flush: () => ReturnType<T> | undefined;
+  /** Whether an invocation is scheduled */
+  pending: () => boolean;
+};
+
+/**
+ * Promise-returning debounced or throttled function with its control handles
+ */
+export type DebouncedAsyncFunction<T extends AnyFunction> = {
+  /** Schedule a call; resolves with the result of the invocation that covers it */
+  (...args: Parameters<T>): Promise<Awaited<ReturnType<T>>>;
+  /** Drop the scheduled invocation and reject waiting callers with `ABORTED` */
+  cancel: () => void;
+  /** Run the scheduled invocation now and resolve with the latest result */
+  flush: () => Promise<Awaited<ReturnType<T>> | undefined>;
+  pending: () => boolean;
+};
+
+type DebouncerOptions = {
+  leading: boolean;
+  trailing: boolean;
+  maxWait: number | undefined;
+  /** Called when the wait ends without a trailing invocation for calls made after the last one */
+  onSkip?: () => void;
+};
+
+type Debouncer<TArguments extends unknown[], R> = {
+  call: (thisArgument: unknown, args: TArguments) => R | undefined;
+  cancel: () => void;
+  flush: () => R | undefined;
+  pending: () => boolean;
+};
+
+function createDebouncer<TArguments extends unknown[], R>(
+  invoke: (thisArgument: unknown, args: TArguments) => R,
+  wait: number,
+  options: DebouncerOptions
+): Debouncer<TArguments, R> {
+  const { leading, trailing, onSkip } = options;
+  const maxWait = options.maxWait === undefined ? undefined : Math.max(options.maxWait, wait);
+
+  if (!(wait >= 0) || (!leading && !trailing)) {
+    throw createUtilsError({
+      code: 'INVALID_ARGUMENT',
+      message: 'Wait must be non-negative and leading or trailing must be enabled',
+      details: { wait, leading, trailing },
+    });
+  }
+
+  let lastArgs: TArguments | undefined;
+  let lastThis: unknown;
+  let lastCallTime: number | undefined;
+  let lastInvokeTime = 0;
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+  let result: R | undefined;
+
+  const invokeAt = (time: number): R | undefined => {
+    const args = lastArgs as TArguments;
+    const thisArgument = lastThis;
+    lastArgs = undefined;
+    lastThis = undefined;
+    lastInvokeTime = time;
+    result = invoke(thisArgument, args);
+    return result;
+  };
+
+  const shouldInvoke = (time: number): boolean => {
+    if (lastCallTime === undefined) {
+      return true;
+    }
+    const sinceLastCall = time - lastCallTime;
+    // A negative delta means the system clock moved backwards
+    return (
+      sinceLastCall >= wait ||
+      sinceLastCall < 0 ||
+      (maxWait !== undefined && time - lastInvokeTime >= maxWait)
+    );
+  };
+
+  const remainingWait = (time: number): number => {
+    const remaining = wait - (time - (lastCallTime ?? time));
+    return maxWait === undefined
+      ? remaining
+      : Math.min(remaining, maxWait - (time - lastInvokeTime));
+  };
+
+  const trailingEdge = (time: number): R | undefined => {
+    timerId = undefined;
+    if (trailing && lastArgs) {
+      return invokeAt(time);
+    }
+    if (lastArgs) {
+      onSkip?.();
+    }
+    lastArgs = undefined;
+    lastThis = undefined;
+    return result;
+  };
+
+  const timerExpired = (): void => {
+    const time = Date.now();
+    if (shouldInvoke(time)) {
+      trailingEdge(time);
+      return;
+    }
+    timerId = setTimeout(timerExpired, remainingWait(time));
+  };
+
+  return {
+    call: (thisArgument, args) => {
+      const time = Date.now();
+      const isInvoking = shouldInvoke(time);
+      lastArgs = args;
+      lastThis = thisArgument;
+      lastCallTime = time;
+
+      if (isInvoking) {
+        if (timerId === undefined) {
+          lastInvokeTime = time;
+          timerId = setTimeout(timerExpired, wait);
+          return leading ? invokeAt(time) : result;
+        }
+        if (maxWait !== undefined) {
+          clearTimeout(timerId);
+          timerId = setTimeout(timerExpired, wait);
+          return invokeAt(time);
+        }
+      }
+      timerId ??= setTimeout(timerExpired, wait);
+      return result;
+    },
+    cancel: () => {
+      clearTimeout(timerId);
+      lastInvokeTime = 0;
+      lastArgs = undefined;
+      lastThis = undefined;
+      lastCallTime = undefined;
+      timerId = undefined;
+    },
+    flush: () => {
+      if (timerId === undefined) {
+        return result;
+      }
+      clearTimeout(timerId);
+      return trailingEdge(Date.now());
+    },
+    pending: () => timerId !== undefined,
   };
 }
 
+function toDebouncedFunction<T extends AnyFunction>(
+  function_: T,
+  wait: number,
+  options: DebouncerOptions
+): DebouncedFunction<T> {
+  const debouncer = createDebouncer<Parameters<T>, ReturnType<T>>(
+    (thisArgument, args) => function_.apply(thisArgument, args),
+    wait,
+    options
+  );
+
+  return Object.assign(
+    function (this: unknown, ...args: Parameters<T>) {
+      return debouncer.call(this, args);
+    },
+    { cancel: debouncer.cancel, flush: debouncer.flush, pending: debouncer.pending }
+  );
+}
+
+function toDebouncedAsyncFunction<T extends AnyFunction>(
+  function_: T,
+  wait: number,
+  options: DebouncerOptions
+): DebouncedAsyncFunction<T> {
+  type Waiter = {
+    resolve: (value: Awaited<ReturnType<T>>) => void;
+    reject: (error: unknown) => void;
+  };
+  let waiters: Waiter[] = [];
+  let latest: Promise<Awaited<ReturnType<T>>> | undefined;
+
+  const settle = async (promise: Promise<Awaited<ReturnType<T>>>): Promise<void> => {
+    const batch = waiters;
+    waiters = [];
+    try {
+      const value = await promise;
+      for (const waiter of batch) {
+        waiter.resolve(value);
+      }
+    } catch (error) {
+      for (const waiter of batch) {
+        waiter.reject(error);
+      }
+    }
+  };
+
+  const debouncer = createDebouncer<Parameters<T>, Promise<Awaited<ReturnType<T>>>>(
+    (thisArgument, args) => {
+      const promise = (async () => function_.apply(thisArgument, args))();
+      latest = promise;
+      void settle(promise);
+      return promise;
+    },
+    wait,
+    {
+      ...options,
+      // Callers coalesced into a window without a trailing call share the latest result
+      onSkip: () => {
+        if (latest) {
+          void settle(latest);
+        }
+      },
+    }
+  );
+
+  return Object.assign(
+    function (this: unknown, ...args: Parameters<T>) {
+      return new Promise<Awaited<ReturnType<T>>>((resolve, reject) => {
+        waiters.push({ resolve, reject });
+        debouncer.call(this, args);
+      });
+    },
+    {
+      cancel: () => {
+        debouncer.cancel();
+        const batch = waiters;
+        waiters = [];
+        for (const waiter of batch) {
+          waiter.reject(createAbortError());
+        }
+      },
+      flush: async () => debouncer.flush(),
+      pending: debouncer.pending,
+    }
+  );
+}
+
 /**
- * Throttle function execution
+ * Delay invocations until `delayMs` has passed without another call.
+ *
+ * By default only the trailing call runs, with the latest arguments. Set
+ * `leading` to also run on the first call, and `maxWait` to guarantee an
+ * invocation at least that often during a continuous stream of calls.
+ *
+ * @example
+ * ```ts
+ * const save = debounce(persistDraft, 500, { maxWait: 5000 });
+ * editor.on('change', save);
+ * process.on('SIGTERM', () => save.flush());
+ * ```
  */
-export function throttle<T extends UnknownFunction>(
+export function debounce<T extends AnyFunction>(
   function_: T,
-  interval: number
-): (...args: Parameters<T>) => void {
-  let lastCall = 0;
-  let timeoutId: ReturnType<typeof setTimeout> | null = null;
-
-  return function (this: unknown, ...args: Parameters<T>) {
-    const now = Date.now();
-    const timeSinceLastCall = now - lastCall;
-
-    if (timeSinceLastCall >= interval) {
-      lastCall = now;
-      function_.apply(this, args);
-    } else {
-      if (timeoutId) {
-        clearTimeout(timeoutId);
+  delayMs: number,
+  options: DebounceOptions = {}
+): DebouncedFunction<T> {
+  const { leading = false, trailing = true, maxWait } = options;
+  return toDebouncedFunction(function_, delayMs, { leading, trailing, maxWait });
+}
+
+/**
+ * Promise-returning `debounce`: every caller coalesced into an invocation
+ * resolves (or rejects) with that invocation's result.
+ *
+ * @example
+ * ```ts
+ * const search = debounceAsync((query: string) => api.search(query), 300);
+ * const results = await search(input.value);
+ * ```
+ */
+export function debounceAsync<T extends AnyFunction>(
+  function_: T,
+  delayMs: number,
+  options: DebounceOptions = {}
+): DebouncedAsyncFunction<T> {
+  const { leading = false, trailing = true, maxWait } = options;
+  return toDebouncedAsyncFunction(function_, delayMs, { leading, trailing, maxWait });
+}
+
+/**
+ * Invoke at most once per `interval`.
+ *
+ * By default the first call runs immediately and the latest call within the
+ * interval runs when it ends.
+ *
+ * @example
+ * ```ts
+ * const onScroll = throttle(updatePosition, 100, { trailing: false });
+ * window.addEventListener('scroll', onScroll);
+ * ```
+ */
+export function throttle<T extends AnyFunction>(
+  function_: T,
+  interval: number,
+  options: ThrottleOptions = {}
+): DebouncedFunction<T> {
+  const { leading = true, trailing = true } = options;
+  return toDebouncedFunction(function_, interval, { leading, trailing, maxWait: interval });
+}
+
+/**
+ * Promise-returning `throttle`: callers within an interval resolve with the
+ * result of the invocation that covers them.
+ *
+ * @example
+ * ```ts
+ * const refresh = throttleAsync(() => fetchQuotes(), 1000);
+ * const quotes = await refresh();
+ * ```
+ */
+export function throttleAsync<T extends AnyFunction>(
+  function_: T,
+  interval: number,
+  options: ThrottleOptions = {}
+): DebouncedAsyncFunction<T> {
+  const { leading = true, trailing = true } = options;
+  return toDebouncedAsyncFunction(function_, interval, { leading, trailing, maxWait: interval });
+}
+
+/**
+ * Options for memoize
+ */
+export type MemoizeOptions<T extends AnyFunction> = {
+  /** Derive the cache key from the arguments (default: `JSON.stringify(args)`) */
+  resolver?: (...args: Parameters<T>) => unknown;
+  /** Maximum cached entries; the least recently used entry is evicted first (default: Infinity) */
+  maxSize?: number;
+  /** Entry lifetime in ms (default: no expiry) */
+  ttl?: number;
+  /**
+   * Key object and function arguments by identity instead of serializing them.
+   * Supports cyclic and non-JSON arguments. Entries are stored under WeakMaps
+   * keyed by those arguments, so a result is freed once any of its object
+   * arguments is garbage-collected; with `maxSize`, up to `maxSize` results stay
+   * reachable for eviction order until evicted. Primitive and symbol arguments
+   * are held strongly. Ignored when `resolver` is set.
+   */
+  weakKeys?: boolean;
+};
+
+/**
+ * Cache statistics reported by a memoized function
+ */
+export type MemoizeStats = {
+  hits: number;
+  misses: number;
+  /** Entries removed by `maxSize`, `ttl` or a rejected promise */
+  evictions: number;
+  /** Cached entries; with `weakKeys`, also counts entries freed with their arguments until `clear()` */
+  size: number;
+};
+
+/**
+ * Cache handle attached to memoized functions
+ */
+export type MemoizeCache<T extends AnyFunction> = {
+  /** Remove every cached entry; statistics keep counting */
+  clear: () => void;
+  /** Remove the entry for these arguments; returns whether one existed */
+  delete: (...args: Parameters<T>) => boolean;
+  stats: () => MemoizeStats;
+};
+
+/**
+ * Memoized function with its cache handle
+ */
+export type MemoizedFunction<T extends AnyFunction> = T & { cache: MemoizeCache<T> };
+
+type MemoizeEntry<V> = { value: V; expiresAt: number };
+
+/**
+ * Entry storage for memoize; `get` also marks the entry as most recently used
+ */
+type MemoizeStore<V> = {
+  get: (args: readonly unknown[]) => MemoizeEntry<V> | undefined;
+  set: (args: readonly unknown[], entry: MemoizeEntry<V>) => void;
+  delete: (args: readonly unknown[]) => boolean;
+  /** Remove this entry if it is still cached */
+  remove: (entry: MemoizeEntry<V>) => boolean;
+  evictOldest: () => void;
+  clear: () => void;
+  size: () => number;
+};
+
+function createKeyedStore<V>(keyOf: (args: readonly unknown[]) => unknown): MemoizeStore<V> {
+  // Map iteration order doubles as recency order: hits are re-inserted at the end
+  const entries = new Map<unknown, MemoizeEntry<V>>();
+  const keys = new WeakMap<MemoizeEntry<V>, unknown>();
+
+  const remove = (entry: MemoizeEntry<V>): boolean => {
+    const key = keys.get(entry);
+    if (!keys.has(entry) || entries.get(key) !== entry) {
+      return false;
+    }
+    entries.delete(key);
+    return true;
+  };
+
+  return {
+    get: (args) => {
+      const key = keyOf(args);
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set: (args, entry) => {
+      const key = keyOf(args);
+      entries.delete(key);
+      entries.set(key, entry);
+      keys.set(entry, key);
+    },
+    delete: (args) => entries.delete(keyOf(args)),
+    remove,
+    evictOldest: () => {
+      const [oldest] = entries.keys();
+      entries.delete(oldest);
+    },
+    clear: () => entries.clear(),
+    size: () => entries.size,
+  };
+}
+
+type WeakKeyNode<V> = {
+  objects: WeakMap<object, WeakKeyNode<V>>;
+  primitives: Map<unknown, WeakKeyNode<V>>;
+  entry: MemoizeEntry<V> | undefined;
+};
+
+/**
+ * Stores entries in a trie with one level per argument: object and function
+ * arguments are WeakMap keys, so an entry becomes unreachable once any of them
+ * is collected. Recency is only tracked when `bounded`, since that set holds
+ * entries strongly.
+ */
+function createWeakKeyStore<V>(bounded: boolean): MemoizeStore<V> {
+  const createNode = (): WeakKeyNode<V> => ({
+    objects: new WeakMap(),
+    primitives: new Map(),
+    entry: undefined,
+  });
+  let root = createNode();
+  const leaves = new WeakMap<MemoizeEntry<V>, WeakKeyNode<V>>();
+  const recent = bounded ? new Set<MemoizeEntry<V>>() : undefined;
+  let count = 0;
+
+  const leafOf = (args: readonly unknown[], create: boolean): WeakKeyNode<V> | undefined => {
+    let node = root;
+    // The argument count is the first level, so f(a) and f(a, undefined) differ
+    for (const key of [args.length, ...args]) {
+      const isObject = (typeof key === 'object' && key !== null) || typeof key === 'function';
+      let child = isObject ? node.objects.get(key) : node.primitives.get(key);
+      if (!child) {
+        if (!create) {
+          return undefined;
+        }
+        child = createNode();
+        if (isObject) {
+          node.objects.set(key, child);
+        } else {
+          node.primitives.set(key, child);
+        }
       }
+      node = child;
+    }
+    return node;
+  };
 
-      timeoutId = setTimeout(() => {
-        lastCall = Date.now();
-        function_.apply(this, args);
-        timeoutId = null;
-      }, interval - timeSinceLastCall);
+  const remove = (entry: MemoizeEntry<V>): boolean => {
+    const leaf = leaves.get(entry);
+    if (leaf?.entry !== entry) {
+      return false;
     }
+    leaf.entry = undefined;
+    recent?.delete(entry);
+    count--;
+    return true;
+  };
+
+  return {
+    get: (args) => {
+      const entry = leafOf(args, false)?.entry;
+      if (entry && recent) {
+        recent.delete(entry);
+        recent.add(entry);
+      }
+      return entry;
+    },
+    set: (args, entry) => {
+      const leaf = leafOf(args, true) as WeakKeyNode<V>;
+      if (leaf.entry) {
+        remove(leaf.entry);
+      }
+      leaf.entry = entry;
+      leaves.set(entry, leaf);
+      recent?.add(entry);
+      count++;
+    },
+    delete: (args) => {
+      const entry = leafOf(args, false)?.entry;
+      return entry ? remove(entry) : false;
+    },
+    remove,
+    evictOldest: () => {
+      const [oldest] = recent ?? [];
+      if (oldest) {
+        remove(oldest);
+      }
+    },
+    clear: () => {
+      root = createNode();
+      recent?.clear();
+      count = 0;
+    },
+    size: () => count,
   };
 }
 
 /**
- * Memoize function results
+ * Memoize function results.
+ *
+ * Pass a resolver function or an options object. Results that are promises are
+ * shared by concurrent callers and evicted if they reject, so failed async
+ * calls are retried on the next call.
+ *
+ * @example
+ * ```ts
+ * const getUser = memoize(fetchUser, { maxSize: 500, ttl: 60_000 });
+ * await Promise.all([getUser(1), getUser(1)]); // one request
+ * getUser.cache.stats(); // { hits: 1, misses: 1, evictions: 0, size: 1 }
+ *
+ * const area = memoize((shape: Shape) => compute(shape), { weakKeys: true });
+ * ```
  */
-export function memoize<T extends UnknownFunction>(
+export function memoize<T extends AnyFunction>(
   function_: T,
-  resolver?: (...args: Parameters<T>) => string
-): T {
-  const cache = new Map<string, ReturnType<T>>();
+  resolverOrOptions?: ((...args: Parameters<T>) => string) | MemoizeOptions<T>
+): MemoizedFunction<T> {
+  const options: MemoizeOptions<T> =
+    typeof resolverOrOptions === 'function'
+      ? { resolver: resolverOrOptions }
+      : (resolverOrOptions ?? {});
+  const { resolver, maxSize = Number.POSITIVE_INFINITY, ttl, weakKeys = false } = options;
 
-  return function (this: unknown, ...args: Parameters<T>): ReturnType<T> {
-    const key = resolver ? resolver(...args) : JSON.stringify(args);
+  if (!(maxSize >= 1) || (ttl !== undefined && !(ttl > 0))) {
+    throw createUtilsError({
+      code: 'INVALID_ARGUMENT',
+      message: 'memoize maxSize must be at least 1 and ttl must be positive',
+      details: { maxSize, ttl },
+    });
+  }
+
+  const store: MemoizeStore<ReturnType<T>> =
+    weakKeys && !resolver
+      ? createWeakKeyStore(Number.isFinite(maxSize))
+      : createKeyedStore((args) =>
+          resolver ? resolver(...(args as Parameters<T>)) : JSON.stringify(args)
+        );
+  const stats = { hits: 0, misses: 0, evictions: 0 };
 
-    if (cache.has(key)) {
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      return cache.get(key)!;
+  const evictOnRejection = async (
+    entry: MemoizeEntry<ReturnType<T>>,
+    promise: Promise<unknown>
+  ): Promise<void> => {
+    try {
+      await promise;
+    } catch {
+      if (store.remove(entry)) {
+        stats.evictions++;
+      }
     }
+  };
 
-    const result = function_.apply(this, args) as ReturnType<T>;
-    cache.set(key, result);
-    return result;
-  } as T;
+  const memoized = function (this: unknown, ...args: Parameters<T>): ReturnType<T> {
+    const entry = store.get(args);
+
+    if (entry) {
+      if (entry.expiresAt > Date.now()) {
+        stats.hits++;
+        return entry.value;
+      }
+      store.remove(entry);
+      stats.evictions++;
+    }
+
+    stats.misses++;
+    const value = function_.apply(this, args) as ReturnType<T>;
+    const created = {
+      value,
+      expiresAt: ttl === undefined ? Number.POSITIVE_INFINITY : Date.now() + ttl,
+    };
+    store.set(args, created);
+
+    if (store.size() > maxSize) {
+      store.evictOldest();
+      stats.evictions++;
+    }
+
+    const result: unknown = value;
+    if (result instanceof Promise) {
+      void evictOnRejection(created, result);
+    }
+    return value;
+  } as MemoizedFunction<T>;
+
+  memoized.cache = {
+    clear: () => store.clear(),
+    delete: (...args) => store.delete(args),
+    stats: () => ({ ...stats, size: store.size() }),
+  };
+
+  return memoized;
 }
 
 /**
@@ -3,12 +3,21 @@
  */
 
 export * from './array/index.js';
+export * from './assert.js';
 export * from './async.js';
+export * from './async-iterable.js';
+export * from './brand.js';
+export * from './cache.js';
+export * from './circuit-breaker.js';
 export * from './date.js';
 export * from './error.js';
 export * from './function.js';
 export * from './number.js';
 export * from './object/index.js';
+export * from './option.js';
+export * from './queue.js';
+export * from './rate-limit.js';
 export * from './result.js';
+export * from './schema.js';
 export * from './string/index.js';
 export * from './validation.js';
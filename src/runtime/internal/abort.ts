@@ -0,0 +1,90 @@
+/**
+ * Shared AbortSignal plumbing for cancellable async utilities.
+ * Keeps abort errors and listener cleanup consistent across modules.
+ */
+
+import { createUtilsError, type UtilsError } from '../error.js';
+
+/**
+ * Create the UtilsError used when an operation is cancelled via AbortSignal
+ */
+export function createAbortError(signal?: AbortSignal): UtilsError {
+  return createUtilsError({
+    code: 'ABORTED',
+    message: 'Operation aborted',
+    ...(signal?.reason === undefined ? {} : { cause: signal.reason }),
+  });
+}
+
+/**
+ * Throw an ABORTED UtilsError if the signal has already been aborted
+ */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw createAbortError(signal);
+  }
+}
+
+/**
+ * Settle with the promise, or reject with an ABORTED UtilsError as soon as the
+ * signal aborts. The abort listener is removed once the race settles.
+ */
+export function raceWithSignal<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    // Avoid an unhandled rejection from the abandoned promise
+    promise.catch(() => undefined);
+    return Promise.reject(createAbortError(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(createAbortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    // eslint-disable-next-line promise/prefer-await-to-then
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Create an AbortController that also aborts when the parent signal aborts.
+ * Call `dispose` to detach from the parent once the controller is no longer needed.
+ */
+export function linkAbortController(parent: AbortSignal | undefined): {
+  controller: AbortController;
+  dispose: () => void;
+} {
+  const controller = new AbortController();
+
+  if (!parent) {
+    return { controller, dispose: () => undefined };
+  }
+
+  if (parent.aborted) {
+    controller.abort(parent.reason);
+    return { controller, dispose: () => undefined };
+  }
+
+  const onAbort = (): void => controller.abort(parent.reason);
+  parent.addEventListener('abort', onAbort, { once: true });
+
+  return {
+    controller,
+    dispose: () => parent.removeEventListener('abort', onAbort),
+  };
+}
@@ -21,16 +21,28 @@ export type DualAPI<TData, TOptions, TReturn> =
   | DataFirst<TData, TOptions, TReturn>
   | DataLast<TData, TOptions, TReturn>;
 
+/**
+ * Decides whether a call is data-first: either the number of parameters of the
+ * data-first form, or a predicate over the call's arguments
+ */
+export type DualArity = number | ((args: readonly unknown[]) => boolean);
+
 /**
  * Creates a function that can be called in both data-first and data-last patterns
  *
  * This eliminates the need for complex overload patterns and makes it easier
  * to maintain functions that support both calling styles.
  *
+ * Pass an arity (or predicate) first to build a dual function from any
+ * data-first implementation. Calls with fewer arguments than `arity` return a
+ * function awaiting the data, so the result drops straight into `pipe`. The
+ * overloads are declared on the receiving constant.
+ *
  * @template TData - Type of data being processed
  * @template TOptions - Type of options
  * @template TReturn - Return type
- * @param implementation - The core implementation function(data, options)
+ * @param arity - Data-first arity or predicate (arity-based form only)
+ * @param implementation - The core data-first implementation
  * @returns A function supporting both calling styles
  *
  * @example
@@ -46,10 +58,47 @@ export type DualAPI<TData, TOptions, TReturn> =
  * // Now supports both:
  * chunk([1,2,3,4], { size: 2 });  // data-first
  * chunk({ size: 2 })([1,2,3,4]);   // data-last
+ *
+ * // Arity-based, with explicit overloads
+ * export const take: {
+ *   <T>(array: T[], n: number): T[];
+ *   <T>(n: number): (array: T[]) => T[];
+ * } = createDualApi(2, <T>(array: T[], n: number): T[] => array.slice(0, n));
  * ```
  */
+export function createDualApi<TSignatures>(
+  arity: DualArity,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  implementation: (...args: any[]) => unknown
+): TSignatures;
 export function createDualApi<TData, TOptions, TReturn>(
   implementation: (data: TData, options: TOptions) => TReturn
+): DualAPI<TData, TOptions, TReturn>;
+export function createDualApi(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  arityOrImplementation: DualArity | ((data: any, options: any) => unknown),
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  implementation?: (...args: any[]) => unknown
+): unknown {
+  if (implementation === undefined) {
+    return createOptionsDualApi(
+      arityOrImplementation as (data: unknown, options: unknown) => unknown
+    );
+  }
+
+  const arity = arityOrImplementation as DualArity;
+  const isDataFirst =
+    typeof arity === 'number' ? (args: readonly unknown[]) => args.length >= arity : arity;
+
+  return (...args: unknown[]) =>
+    isDataFirst(args) ? implementation(...args) : (data: unknown) => implementation(data, ...args);
+}
+
+/**
+ * Dual API over a (data, options) implementation, telling data and options apart at runtime
+ */
+function createOptionsDualApi<TData, TOptions, TReturn>(
+  implementation: (data: TData, options: TOptions) => TReturn
 ): DualAPI<TData, TOptions, TReturn> {
   return ((
     dataOrOptions: TData | TOptions,
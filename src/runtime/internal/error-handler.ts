@@ -6,6 +6,7 @@
 import {
   createUtilsError,
   type ErrorHandlingOptions,
+  type UtilsError,
   type UtilsErrorCode,
   type UtilsErrorInit,
 } from '../error.js';
@@ -89,7 +90,7 @@ export class StandardErrorHandler<TOptions extends ErrorHandlingOptions, TValue
    * Validate options and handle errors using the configured strategy
    * Returns the result value or throws/returns error based on onError strategy
    */
-  handleError(options: TOptions & { onError: ErrorStrategy }): Result<never> | never {
+  handleError(options: TOptions & { onError: ErrorStrategy }): Result<never, UtilsError> | never {
     const errorContext = this.errorFactory(options);
     const utilsError = createUtilsError(createErrorInit(errorContext));
 
@@ -119,7 +120,7 @@ export class StandardErrorHandler<TOptions extends ErrorHandlingOptions, TValue
   wrapResult(
     options: TOptions & { onError?: ErrorStrategy },
     value: TValue
-  ): TValue | Result<TValue> {
+  ): TValue | Result<TValue, UtilsError> {
     if (options.onError === 'return') {
       return ok(value);
     }
@@ -3,9 +3,11 @@
  * These are not part of the public API and are subject to change
  */
 
+export { createAbortError, linkAbortController, raceWithSignal, throwIfAborted } from './abort.js';
 export {
   createDualApi,
   createDualApiStrict,
+  type DualArity,
   type DataFirst,
   type DataLast,
   type DualAPI,
@@ -49,3 +51,13 @@ export {
   normalizeSimpleOption,
   validateRequired,
 } from './options.js';
+export {
+  assertSafePath,
+  isUnsafePathSegment,
+  type PathInput,
+  type PathOf,
+  type PathResult,
+  type PathSegment,
+  toPathSegments,
+  toSafePathSegments,
+} from './path.js';
@@ -0,0 +1,93 @@
+/**
+ * Property path parsing and validation shared by the object helpers.
+ */
+
+import type { Path, PathValue } from '../../types/utility.js';
+import { createUtilsError } from '../error.js';
+
+/**
+ * A single step in a property path: an object key or an array index
+ */
+export type PathSegment = string | number;
+
+/**
+ * A property path: dot and bracket string, or an array of keys and indexes
+ */
+export type PathInput = string | readonly PathSegment[];
+
+/** Paths accepted for T: any string when T is unknown or any, otherwise `Path<T>` */
+export type PathOf<T> = unknown extends T ? string : Path<T>;
+
+/** Value at path P in T, or `any` when T is unknown or any */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type PathResult<T, P extends string> = unknown extends T ? any : PathValue<T, P>;
+
+const unsafeSegments = new Set<unknown>(['__proto__', 'prototype', 'constructor']);
+
+/**
+ * Check whether a path segment could reach an object's prototype
+ */
+export function isUnsafePathSegment(segment: unknown): boolean {
+  return unsafeSegments.has(segment);
+}
+
+/**
+ * Throw an `INVALID_ARGUMENT` UtilsError if any segment is `__proto__`,
+ * `prototype` or `constructor`
+ */
+export function assertSafePath(segments: readonly unknown[], path: unknown = segments): void {
+  for (const segment of segments) {
+    if (isUnsafePathSegment(segment)) {
+      throw createUtilsError({
+        code: 'INVALID_ARGUMENT',
+        message: `Unsafe path segment "${String(segment)}"`,
+        details: { path },
+      });
+    }
+  }
+}
+
+const partPattern = /^([^[\]]*)((?:\[[^[\]]+\])*)$/;
+const bracketPattern = /\[([^[\]]+)\]/g;
+
+/**
+ * Parse a path into segments; arrays are copied as-is.
+ *
+ * Strings use dots between keys and brackets for indexes, e.g. `items[0].id`
+ * becomes `['items', 0, 'id']`. Bracketed digits become numbers; dotted digits
+ * stay strings, and `''` is the single key `''` (use `[]` for the root).
+ * Throws an `INVALID_ARGUMENT` UtilsError for unbalanced brackets.
+ */
+export function toPathSegments(path: string | readonly PathSegment[]): PathSegment[] {
+  if (typeof path !== 'string') {
+    return [...path];
+  }
+  const segments: PathSegment[] = [];
+  for (const part of path.split('.')) {
+    const match = partPattern.exec(part);
+    if (!match) {
+      throw createUtilsError({
+        code: 'INVALID_ARGUMENT',
+        message: `Invalid path "${path}"`,
+        details: { path },
+      });
+    }
+    const [, name = '', brackets = ''] = match;
+    if (name !== '' || brackets === '') {
+      segments.push(name);
+    }
+    for (const [, key = ''] of brackets.matchAll(bracketPattern)) {
+      segments.push(/^\d+$/.test(key) ? Number(key) : key);
+    }
+  }
+  return segments;
+}
+
+/**
+ * Parse a path and reject prototype-reaching segments
+ */
+export function toSafePathSegments(path: string | readonly PathSegment[]): PathSegment[] {
+  const segments = toPathSegments(path);
+  assertSafePath(segments, path);
+  return segments;
+}
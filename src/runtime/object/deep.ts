@@ -2,15 +2,261 @@
  * Object deep operations (merge, clone, equality, defaults)
  */
 
+import type { DeepPartial, MergeDeep } from '../../types/utility.js';
+import { createUtilsError } from '../error.js';
+import { createDualApi } from '../internal/curry-helper.js';
+import { isEqualWith } from './equal.js';
 import { isPlainObject } from './utils.js';
 
+/**
+ * How deepMerge combines two arrays at the same path
+ *
+ * - `replace`: the source array wins (default)
+ * - `concat`: target items followed by source items
+ * - `union`: like `concat`, without items already present (SameValueZero)
+ * - `merge`: deep-merge items at the same index
+ * - `{ unionBy }`: deep-merge items with the same key, append the rest
+ */
+export type DeepMergeArrayStrategy =
+  | 'replace'
+  | 'concat'
+  | 'union'
+  | 'merge'
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  | { unionBy: string | ((item: any) => unknown) };
+
+/**
+ * Options for deepMergeWith and defaultsDeepWith
+ */
+export type DeepMergeOptions = {
+  /** Array strategy (default: 'replace') */
+  arrays?: DeepMergeArrayStrategy;
+  /** Merge Map entries by key instead of replacing the Map (default: 'replace') */
+  maps?: 'replace' | 'merge';
+  /** Combine Set members instead of replacing the Set (default: 'replace') */
+  sets?: 'replace' | 'union';
+  /** Ignore `undefined` values instead of letting them override (default: false) */
+  skipUndefined?: boolean;
+  /**
+   * Called for every source key with the current and incoming value and the
+   * key path; return the merged value, or `undefined` to use the default handling
+   */
+  customizer?: (targetValue: unknown, sourceValue: unknown, path: readonly unknown[]) => unknown;
+};
+
+/**
+ * Result of merging `S` into `T` from left to right
+ */
+type MergeAll<
+  T,
+  S extends readonly unknown[],
+  Arrays extends ArrayMode = 'replace',
+> = S extends readonly [infer H, ...infer R] ? MergeAll<MergeDeep<T, H, Arrays>, R, Arrays> : T;
+
+/**
+ * Result of filling `T` with defaults from `S`; earlier arguments win
+ */
+type DefaultsAll<
+  T,
+  S extends readonly unknown[],
+  Arrays extends ArrayMode = 'replace',
+> = S extends readonly [infer H, ...infer R] ? MergeDeep<DefaultsAll<H, R, Arrays>, T, Arrays> : T;
+
+type ArrayMode = 'replace' | 'combine';
+
+/**
+ * How the `arrays` option shapes merged array types; every strategy except
+ * `replace` keeps items from both sides
+ */
+type ArrayModeOf<O extends DeepMergeOptions> = 'arrays' extends keyof O
+  ? O['arrays'] extends 'replace' | undefined
+    ? 'replace'
+    : 'combine'
+  : 'replace';
+
+type MergeFunction<Arrays extends ArrayMode = 'replace'> = <
+  T extends object,
+  S extends object[] = Array<DeepPartial<T> & object>,
+>(
+  target: T,
+  ...sources: S
+) => MergeAll<T, S, Arrays>;
+
+type DefaultsFunction<Arrays extends ArrayMode = 'replace'> = <
+  T extends object,
+  S extends object[] = Array<DeepPartial<T> & object>,
+>(
+  target: T,
+  ...sources: S
+) => DefaultsAll<T, S, Arrays>;
+
+type MergeContext = Required<Omit<DeepMergeOptions, 'customizer'>> & {
+  customizer: DeepMergeOptions['customizer'];
+  /** Keep target values over source values (defaultsDeep) */
+  defaults: boolean;
+};
+
+function mergeValue(
+  targetValue: unknown,
+  sourceValue: unknown,
+  path: readonly unknown[],
+  context: MergeContext
+): unknown {
+  if (context.customizer) {
+    const customized = context.customizer(targetValue, sourceValue, path);
+    if (customized !== undefined) {
+      return customized;
+    }
+  }
+
+  const [lower, upper] = context.defaults ? [sourceValue, targetValue] : [targetValue, sourceValue];
+  if (upper === undefined && context.skipUndefined) {
+    return lower;
+  }
+
+  if (isPlainObject(targetValue) && isPlainObject(sourceValue)) {
+    return mergeObjects(targetValue, sourceValue, path, context);
+  }
+  if (Array.isArray(targetValue) && Array.isArray(sourceValue)) {
+    return context.arrays === 'replace'
+      ? upper
+      : mergeArrays(targetValue, sourceValue, path, context);
+  }
+  if (targetValue instanceof Map && sourceValue instanceof Map && context.maps === 'merge') {
+    const result = new Map(targetValue);
+    for (const [key, value] of sourceValue) {
+      result.set(
+        key,
+        targetValue.has(key)
+          ? mergeValue(targetValue.get(key), value, [...path, key], context)
+          : value
+      );
+    }
+    return result;
+  }
+  if (targetValue instanceof Set && sourceValue instanceof Set && context.sets === 'union') {
+    return new Set([...targetValue, ...sourceValue]);
+  }
+  return upper;
+}
+
+function mergeObjects(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+  path: readonly unknown[],
+  context: MergeContext
+): Record<string, unknown> {
+  const result = { ...target };
+  for (const key of Object.keys(source)) {
+    const sourceValue = source[key];
+    const exists = Object.prototype.hasOwnProperty.call(result, key);
+    if (
+      key === '__proto__' ||
+      (sourceValue === undefined && context.skipUndefined && (!exists || !context.defaults))
+    ) {
+      continue;
+    }
+    if (exists) {
+      result[key] = mergeValue(result[key], sourceValue, [...path, key], context);
+    } else {
+      const customized = context.customizer?.(undefined, sourceValue, [...path, key]);
+      result[key] = customized === undefined ? sourceValue : customized;
+    }
+  }
+  return result;
+}
+
+function mergeArrays(
+  target: readonly unknown[],
+  source: readonly unknown[],
+  path: readonly unknown[],
+  context: MergeContext
+): unknown[] {
+  const strategy = context.arrays;
+  if (strategy === 'concat') {
+    return [...target, ...source];
+  }
+  if (strategy === 'union') {
+    return [...new Set([...target, ...source])];
+  }
+  if (strategy === 'merge') {
+    return Array.from({ length: Math.max(target.length, source.length) }, (_, index) =>
+      index >= source.length
+        ? target[index]
+        : index >= target.length
+          ? source[index]
+          : mergeValue(target[index], source[index], [...path, index], context)
+    );
+  }
+
+  const { unionBy } = strategy as { unionBy: string | ((item: unknown) => unknown) };
+  const keyOf =
+    typeof unionBy === 'function'
+      ? unionBy
+      : (item: unknown) => (isObjectLike(item) ? item[unionBy] : item);
+  const result = [...target];
+  const positions = new Map(result.map((item, index) => [keyOf(item), index]));
+  for (const item of source) {
+    const key = keyOf(item);
+    const index = positions.get(key);
+    if (index === undefined) {
+      positions.set(key, result.length);
+      result.push(item);
+    } else {
+      result[index] = mergeValue(result[index], item, [...path, index], context);
+    }
+  }
+  return result;
+}
+
+function createMerger(
+  options: DeepMergeOptions,
+  defaults: boolean
+): (target: object, sources: readonly unknown[]) => unknown {
+  const context: MergeContext = {
+    arrays: options.arrays ?? 'replace',
+    maps: options.maps ?? 'replace',
+    sets: options.sets ?? 'replace',
+    skipUndefined: options.skipUndefined ?? false,
+    customizer: options.customizer,
+    defaults,
+  };
+  return (target: object, sources: readonly unknown[]): unknown => {
+    if (!isPlainObject(target)) {
+      throw createUtilsError({
+        code: 'INVALID_ARGUMENT',
+        message: 'Merge target must be a plain object',
+        details: { target },
+      });
+    }
+    let result: Record<string, unknown> = target;
+    for (const source of sources) {
+      if (isPlainObject(source)) {
+        result = mergeObjects(result, source, [], context);
+      }
+    }
+    return result;
+  };
+}
+
+const mergeDefault = createMerger({}, false);
+const defaultsDefault = createMerger({}, true);
+
 /**
  * Deep merge objects
  *
+ * Plain objects are merged recursively; any other source value (including
+ * arrays) replaces the target value. Inputs are never mutated: merged objects
+ * are new, and untouched branches are shared with the inputs. Non-object
+ * sources such as `undefined` are ignored; a target that is not a plain object
+ * (class instances, arrays, Maps) throws an `INVALID_ARGUMENT` UtilsError. Use
+ * `deepMergeWith` for other strategies.
+ *
  * @template T - The type of the target object
+ * @template S - The types of the sources
  * @param target - The target object to merge into
  * @param sources - Source objects to merge from (rightmost takes precedence)
- * @returns A new merged object
+ * @returns A new merged object typed as `MergeDeep` of the arguments
  *
  * @example
  * ```ts
@@ -18,187 +264,342 @@ import { isPlainObject } from './utils.js';
  * // { a: { b: 1, c: 2 } }
  * ```
  */
-export function deepMerge<T extends Record<string, unknown>>(
+export function deepMerge<T extends object, S extends object[] = Array<DeepPartial<T> & object>>(
   target: T,
-  ...sources: Array<Partial<T>>
-): T {
-  if (!sources.length) {
-    return target;
-  }
+  ...sources: S
+): MergeAll<T, S> {
+  return mergeDefault(target, sources) as MergeAll<T, S>;
+}
 
-  const result = { ...target };
+/**
+ * Create a deepMerge with custom strategies
+ *
+ * With any array strategy other than `replace`, merged arrays are typed as
+ * arrays of the items of both sides.
+ *
+ * @param options - Array, Map and Set strategies, `undefined` handling and a per-path customizer
+ * @returns A deepMerge function applying the options
+ *
+ * @example
+ * ```ts
+ * const mergeConfig = deepMergeWith({
+ *   arrays: { unionBy: 'name' },
+ *   skipUndefined: true,
+ *   customizer: (current, next, path) =>
+ *     path.join('.') === 'server.allowedHosts' ? next : undefined,
+ * });
+ *
+ * const config = mergeConfig(baseConfig, productionConfig, localOverrides);
+ * ```
+ */
+export function deepMergeWith<O extends DeepMergeOptions>(
+  options: O
+): MergeFunction<ArrayModeOf<O>> {
+  const merge = createMerger(options, false);
+  return (target, ...sources) => merge(target, sources) as never;
+}
 
-  for (const source of sources) {
-    for (const key in source) {
-      const sourceValue = source[key];
-      const targetValue = result[key];
-
-      if (isPlainObject(sourceValue) && isPlainObject(targetValue)) {
-        result[key] = deepMerge(
-          targetValue as Record<string, unknown>,
-          sourceValue as Record<string, unknown>
-        ) as T[Extract<keyof T, string>];
-      } else {
-        result[key] = sourceValue as T[Extract<keyof T, string>];
-      }
-    }
-  }
+/**
+ * Options for deepClone
+ */
+export type DeepCloneOptions = {
+  /**
+   * Called for every value before the default handling with its property key
+   * or Map key (`undefined` for the root); return a clone to use it, or
+   * `undefined` to clone the value normally
+   */
+  customizer?: (value: unknown, key: unknown, depth: number) => unknown;
+  /**
+   * Delegate to the global `structuredClone` when available (default: false).
+   * Other options are then ignored and structured clone semantics apply:
+   * prototypes are not preserved and functions cannot be cloned.
+   */
+  structuredClone?: boolean;
+  /** Maximum nesting depth; deeper values throw an `INVALID_RANGE` UtilsError (default: Infinity) */
+  maxDepth?: number;
+};
 
-  return result;
-}
+type CloneContext = {
+  seen: WeakMap<object, unknown>;
+  path: unknown[];
+  customizer: DeepCloneOptions['customizer'];
+  maxDepth: number;
+};
+
+type TypedArrayConstructor = new (
+  buffer: ArrayBufferLike,
+  byteOffset: number,
+  length: number
+) => ArrayBufferView;
 
 /**
- * Deep clone an object
+ * Deep clone a value
+ *
+ * Handles cyclic and shared references, preserves prototypes (class
+ * instances stay instances) and copies own symbol and non-enumerable
+ * properties. Dates, RegExps, Maps, Sets, ArrayBuffers, typed arrays,
+ * DataViews, Errors and boxed primitives are recreated; functions, WeakMaps,
+ * WeakSets, Promises and SharedArrayBuffers are shared.
  *
  * @template T - The type of the object
  * @param object - The object to clone
+ * @param options - Customizer, structuredClone delegation and depth limit
  * @returns A deep clone of the object
  *
  * @example
  * ```ts
  * deepClone({ a: { b: [1, 2] } })
  * // { a: { b: [1, 2] } } (new instances)
+ *
+ * deepClone(state, {
+ *   maxDepth: 50,
+ *   customizer: (value) => (value instanceof Decimal ? new Decimal(value) : undefined),
+ * })
  * ```
  */
-export function deepClone<T>(object: T): T {
-  if (object === null || typeof object !== 'object') {
-    return object;
+export function deepClone<T>(object: T, options: DeepCloneOptions = {}): T {
+  const { customizer, structuredClone: useStructuredClone = false } = options;
+  const maxDepth = options.maxDepth ?? Number.POSITIVE_INFINITY;
+  if (!(maxDepth >= 0)) {
+    throw createUtilsError({
+      code: 'INVALID_ARGUMENT',
+      message: 'maxDepth must be a non-negative number',
+      details: { maxDepth },
+    });
   }
 
-  if (object instanceof Date) {
-    return new Date(object.getTime()) as T;
+  if (useStructuredClone && typeof globalThis.structuredClone === 'function') {
+    try {
+      return globalThis.structuredClone(object);
+    } catch (error) {
+      throw createUtilsError({
+        code: 'OPERATION_FAILED',
+        message: 'structuredClone could not clone the value',
+        cause: error,
+      });
+    }
   }
 
-  if (object instanceof Array) {
-    return object.map((item) => deepClone(item)) as T;
-  }
+  return cloneValue(object, undefined, {
+    seen: new WeakMap(),
+    path: [],
+    customizer,
+    maxDepth,
+  }) as T;
+}
 
-  if (object instanceof Set) {
-    return new Set(Array.from(object).map((item) => deepClone(item))) as T;
+function cloneValue(value: unknown, key: unknown, context: CloneContext): unknown {
+  const depth = context.path.length;
+  if (context.customizer) {
+    const customized = context.customizer(value, key, depth);
+    if (customized !== undefined) {
+      return customized;
+    }
   }
 
-  if (object instanceof Map) {
-    return new Map(
-      Array.from(object.entries()).map(([key, value]) => [deepClone(key), deepClone(value)])
-    ) as T;
+  if (typeof value !== 'object' || value === null) {
+    return value;
   }
 
-  const cloned = {} as T;
-  for (const key in object) {
-    if (Object.prototype.hasOwnProperty.call(object, key)) {
-      cloned[key] = deepClone(object[key]);
-    }
+  const seen = context.seen.get(value);
+  if (seen !== undefined) {
+    return seen;
   }
-  return cloned;
-}
 
-/**
- * Deep strict equality check
- *
- * @param a - The first value to compare
- * @param b - The second value to compare
- * @returns True if values are deeply equal
- *
- * @example
- * ```ts
- * isEqual({ a: [1, 2] }, { a: [1, 2] }) // true
- * isEqual({ a: 1 }, { a: 2 }) // false
- * ```
- */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function isEqual(a: any, b: any): boolean {
-  if (Object.is(a, b)) {
-    return true;
+  if (depth > context.maxDepth) {
+    throw createUtilsError({
+      code: 'INVALID_RANGE',
+      message: `deepClone exceeded maxDepth ${context.maxDepth}`,
+      details: { maxDepth: context.maxDepth, path: [...context.path] },
+    });
   }
 
-  if (!isObjectLike(a) || !isObjectLike(b)) {
-    return false;
+  const cloneChild = (child: unknown, childKey: unknown): unknown => {
+    context.path.push(childKey);
+    try {
+      return cloneValue(child, childKey, context);
+    } finally {
+      context.path.pop();
+    }
+  };
+
+  const clone = createClone(value, context, cloneChild);
+  if (clone === value) {
+    return value;
+  }
+  if (Object.getPrototypeOf(clone) !== Object.getPrototypeOf(value)) {
+    Object.setPrototypeOf(clone, Object.getPrototypeOf(value) as object | null);
   }
 
-  const isArrayA = Array.isArray(a);
-  const isArrayB = Array.isArray(b);
-  if (isArrayA || isArrayB) {
-    if (!isArrayA || !isArrayB) {
-      return false;
+  if (value instanceof Map) {
+    for (const [entryKey, entryValue] of value) {
+      (clone as Map<unknown, unknown>).set(
+        cloneChild(entryKey, entryKey),
+        cloneChild(entryValue, entryKey)
+      );
+    }
+  } else if (value instanceof Set) {
+    for (const member of value) {
+      (clone as Set<unknown>).add(cloneChild(member, member));
     }
-    return isEqualArrays(a as unknown[], b as unknown[]);
   }
 
-  return isEqualObjects(a as Record<string, unknown>, b as Record<string, unknown>);
-}
-
-function isObjectLike(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null;
-}
-
-function isEqualArrays(arrayA: readonly unknown[], arrayB: readonly unknown[]): boolean {
-  if (arrayA.length !== arrayB.length) {
-    return false;
+  if (!ArrayBuffer.isView(value) && !(value instanceof ArrayBuffer)) {
+    copyOwnProperties(value, clone as object, cloneChild);
   }
+  return clone;
+}
 
-  for (let index = 0; index < arrayA.length; index++) {
-    if (!isEqual(arrayA[index], arrayB[index])) {
-      return false;
+/**
+ * Create the empty (or, for binary data, filled) clone of a value and
+ * register it for cycle tracking; returns the value itself when it is shared
+ */
+function createClone(
+  value: object,
+  context: CloneContext,
+  cloneChild: (child: unknown, key: unknown) => unknown
+): unknown {
+  let clone: object;
+  if (Array.isArray(value)) {
+    clone = new Array(value.length);
+  } else if (value instanceof Date) {
+    clone = new Date(value.getTime());
+  } else if (value instanceof RegExp) {
+    clone = new RegExp(value.source, value.flags);
+  } else if (value instanceof Map) {
+    clone = new Map();
+  } else if (value instanceof Set) {
+    clone = new Set();
+  } else if (value instanceof ArrayBuffer) {
+    clone = value.slice(0);
+  } else if (ArrayBuffer.isView(value)) {
+    const buffer = cloneChild(value.buffer, 'buffer') as ArrayBufferLike;
+    if (value instanceof DataView) {
+      clone = new DataView(buffer, value.byteOffset, value.byteLength);
+    } else {
+      const name = Object.prototype.toString.call(value).slice(8, -1);
+      const Constructor = (globalThis as unknown as Record<string, TypedArrayConstructor>)[name];
+      const length = (value as unknown as { length: number }).length;
+      clone = Constructor
+        ? new Constructor(buffer, value.byteOffset, length)
+        : new Uint8Array(buffer, value.byteOffset, value.byteLength);
     }
+  } else if (value instanceof Error) {
+    clone = new Error(value.message);
+  } else if (value instanceof Number || value instanceof String || value instanceof Boolean) {
+    clone = Object(value.valueOf()) as object;
+  } else if (
+    value instanceof WeakMap ||
+    value instanceof WeakSet ||
+    value instanceof Promise ||
+    (typeof SharedArrayBuffer === 'function' && value instanceof SharedArrayBuffer)
+  ) {
+    return value;
+  } else {
+    clone = Object.create(Object.getPrototypeOf(value) as object | null) as object;
   }
 
-  return true;
+  context.seen.set(value, clone);
+  return clone;
 }
 
-function isEqualObjects(
-  objectA: Record<string, unknown>,
-  objectB: Record<string, unknown>
-): boolean {
-  const keysA = Object.keys(objectA);
-  const keysB = Object.keys(objectB);
-  if (keysA.length !== keysB.length) {
-    return false;
-  }
+function copyOwnProperties(
+  source: object,
+  target: object,
+  cloneChild: (child: unknown, key: unknown) => unknown
+): void {
+  const isArray = Array.isArray(source);
+  const isString = source instanceof String;
+  for (const key of Reflect.ownKeys(source)) {
+    if (
+      (isArray && key === 'length') ||
+      (isString && (key === 'length' || (typeof key === 'string' && /^\d+$/.test(key))))
+    ) {
+      continue;
+    }
 
-  for (const key of keysA) {
-    if (!Object.prototype.hasOwnProperty.call(objectB, key)) {
-      return false;
+    const descriptor = Object.getOwnPropertyDescriptor(source, key) as PropertyDescriptor;
+    if ('value' in descriptor) {
+      descriptor.value = cloneChild(descriptor.value, key);
     }
-    if (!isEqual(objectA[key], objectB[key])) {
-      return false;
+    if (descriptor.enumerable && descriptor.writable && descriptor.configurable) {
+      (target as Record<PropertyKey, unknown>)[key] = descriptor.value;
+    } else {
+      Object.defineProperty(target, key, descriptor);
     }
   }
+}
+
+/**
+ * Deep strict equality check
+ *
+ * Cycle-safe; Dates, RegExps, Maps, Sets, Errors and binary data are compared
+ * by content. Use isEqualWith for tolerances, ignored paths or unordered arrays.
+ *
+ * @param a - The first value to compare
+ * @param b - The second value to compare
+ * @returns True if values are deeply equal
+ *
+ * @example
+ * ```ts
+ * isEqual({ a: [1, 2] }, { a: [1, 2] }) // true
+ * isEqual({ a: 1 }, { a: 2 }) // false
+ * isEqual({ a: [1, 2] })({ a: [1, 2] }) // data-last: true
+ * ```
+ */
+export const isEqual: {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (a: any, b: any): boolean;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (b: any): (a: any) => boolean;
+} = createDualApi(2, (a: unknown, b: unknown): boolean => isEqualWith(a, b));
 
-  return true;
+function isObjectLike(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
 }
 
 /**
  * Fill missing properties with defaults (deep merge)
  *
+ * Like deepMerge with reversed precedence: existing target values (including
+ * `undefined`) are kept and only missing keys are filled. Inputs are never
+ * mutated, and a target that is not a plain object throws like deepMerge.
+ *
  * @template T - The type of the target object
+ * @template S - The types of the sources
  * @param target - The target object
- * @param sources - Source objects with default values
+ * @param sources - Source objects with default values (leftmost takes precedence)
  * @returns A new object with deep defaults applied
  *
  * @example
  * ```ts
- * defaultsDeep({ a: { b: 1 } }, { a: { c: 2 } })
+ * defaultsDeep({ a: { b: 1 } }, { a: { b: 2, c: 2 } })
  * // { a: { b: 1, c: 2 } }
  * ```
  */
-export function defaultsDeep<T extends Record<string, unknown>>(
+export function defaultsDeep<T extends object, S extends object[] = Array<DeepPartial<T> & object>>(
   target: T,
-  ...sources: Array<Partial<T>>
-): T {
-  const result = { ...target };
-  for (const source of sources) {
-    for (const key in source) {
-      const sourceValue = source[key];
-      const targetValue = result[key];
-      if (isPlainObject(sourceValue) && isPlainObject(targetValue)) {
-        result[key] = defaultsDeep(
-          targetValue as Record<string, unknown>,
-          sourceValue as Record<string, unknown>
-        ) as T[Extract<keyof T, string>];
-      } else if (!(key in result)) {
-        result[key] = sourceValue as T[Extract<keyof T, string>];
-      }
-    }
-  }
-  return result;
+  ...sources: S
+): DefaultsAll<T, S> {
+  return defaultsDefault(target, sources) as DefaultsAll<T, S>;
+}
+
+/**
+ * Create a defaultsDeep with custom strategies
+ *
+ * @param options - Array, Map and Set strategies, `undefined` handling and a per-path customizer
+ * @returns A defaultsDeep function applying the options
+ *
+ * @example
+ * ```ts
+ * const withDefaults = defaultsDeepWith({ skipUndefined: true, arrays: 'union' });
+ * withDefaults({ port: undefined, tags: ['api'] }, { port: 8080, tags: ['web'] })
+ * // { port: 8080, tags: ['api', 'web'] }
+ * ```
+ */
+export function defaultsDeepWith<O extends DeepMergeOptions>(
+  options: O
+): DefaultsFunction<ArrayModeOf<O>> {
+  const merge = createMerger(options, true);
+  return (target, ...sources) => merge(target, sources) as never;
 }
@@ -0,0 +1,390 @@
+/**
+ * Structural diff and patch (diff, applyPatch, toJsonPatch)
+ */
+
+import { createUtilsError } from '../error.js';
+import { assertSafePath } from '../internal/path.js';
+import { isPlainObject } from './utils.js';
+
+/**
+ * Location of a change: object keys, array indexes, Map keys or Set members
+ */
+export type DiffPath = unknown[];
+
+/**
+ * A single change produced by `diff`
+ *
+ * For Sets the last path segment is the member itself; for Maps it is the key.
+ */
+export type DiffOperation =
+  | { op: 'add'; path: DiffPath; value: unknown }
+  | { op: 'remove'; path: DiffPath; oldValue: unknown }
+  | { op: 'replace'; path: DiffPath; value: unknown; oldValue: unknown };
+
+/**
+ * RFC 6902 JSON Patch operation with an RFC 6901 JSON Pointer path
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown };
+
+function invalidPath(message: string, path: unknown): never {
+  throw createUtilsError({ code: 'INVALID_ARGUMENT', message, details: { path } });
+}
+
+/**
+ * Compute the changes that turn `a` into `b`.
+ *
+ * Plain objects, arrays, Maps and Sets are compared recursively; Dates are
+ * compared by time. Any other differing values, including values of different
+ * kinds, produce a `replace`. Array removals are listed from the highest index
+ * down so the operations can be applied in order.
+ *
+ * @param a - The original value
+ * @param b - The updated value
+ * @returns The list of change operations (empty when the values are equal)
+ *
+ * @example
+ * ```ts
+ * diff({ a: 1, tags: ['x'] }, { a: 2, tags: ['x', 'y'] })
+ * // [
+ * //   { op: 'replace', path: ['a'], value: 2, oldValue: 1 },
+ * //   { op: 'add', path: ['tags', 1], value: 'y' },
+ * // ]
+ * ```
+ */
+export function diff(a: unknown, b: unknown): DiffOperation[] {
+  const operations: DiffOperation[] = [];
+  collectChanges(a, b, [], operations, new WeakMap());
+  return operations;
+}
+
+function collectChanges(
+  a: unknown,
+  b: unknown,
+  path: DiffPath,
+  operations: DiffOperation[],
+  visiting: WeakMap<object, object>
+): void {
+  if (Object.is(a, b)) {
+    return;
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    if (!Object.is(a.getTime(), b.getTime())) {
+      operations.push({ op: 'replace', path, value: b, oldValue: a });
+    }
+    return;
+  }
+
+  const kind = containerKind(a);
+  if (kind === undefined || kind !== containerKind(b)) {
+    operations.push({ op: 'replace', path, value: b, oldValue: a });
+    return;
+  }
+
+  // Cyclic structures: a pair already being compared higher up is treated as equal
+  const objectA = a as object;
+  if (visiting.get(objectA) === b) {
+    return;
+  }
+  visiting.set(objectA, b as object);
+
+  switch (kind) {
+    case 'array':
+      collectArrayChanges(a as unknown[], b as unknown[], path, operations, visiting);
+      break;
+    case 'map':
+      collectMapChanges(
+        a as Map<unknown, unknown>,
+        b as Map<unknown, unknown>,
+        path,
+        operations,
+        visiting
+      );
+      break;
+    case 'set':
+      for (const member of a as Set<unknown>) {
+        if (!(b as Set<unknown>).has(member)) {
+          operations.push({ op: 'remove', path: [...path, member], oldValue: member });
+        }
+      }
+      for (const member of b as Set<unknown>) {
+        if (!(a as Set<unknown>).has(member)) {
+          operations.push({ op: 'add', path: [...path, member], value: member });
+        }
+      }
+      break;
+    case 'object':
+      collectObjectChanges(
+        a as Record<string, unknown>,
+        b as Record<string, unknown>,
+        path,
+        operations,
+        visiting
+      );
+      break;
+  }
+
+  visiting.delete(objectA);
+}
+
+function containerKind(value: unknown): 'array' | 'map' | 'set' | 'object' | undefined {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (value instanceof Map) {
+    return 'map';
+  }
+  if (value instanceof Set) {
+    return 'set';
+  }
+  return isPlainObject(value) ? 'object' : undefined;
+}
+
+function collectArrayChanges(
+  a: readonly unknown[],
+  b: readonly unknown[],
+  path: DiffPath,
+  operations: DiffOperation[],
+  visiting: WeakMap<object, object>
+): void {
+  const shared = Math.min(a.length, b.length);
+  for (let index = 0; index < shared; index++) {
+    collectChanges(a[index], b[index], [...path, index], operations, visiting);
+  }
+  for (let index = shared; index < b.length; index++) {
+    operations.push({ op: 'add', path: [...path, index], value: b[index] });
+  }
+  for (let index = a.length - 1; index >= shared; index--) {
+    operations.push({ op: 'remove', path: [...path, index], oldValue: a[index] });
+  }
+}
+
+function collectMapChanges(
+  a: ReadonlyMap<unknown, unknown>,
+  b: ReadonlyMap<unknown, unknown>,
+  path: DiffPath,
+  operations: DiffOperation[],
+  visiting: WeakMap<object, object>
+): void {
+  for (const [key, value] of a) {
+    if (b.has(key)) {
+      collectChanges(value, b.get(key), [...path, key], operations, visiting);
+    } else {
+      operations.push({ op: 'remove', path: [...path, key], oldValue: value });
+    }
+  }
+  for (const [key, value] of b) {
+    if (!a.has(key)) {
+      operations.push({ op: 'add', path: [...path, key], value });
+    }
+  }
+}
+
+function collectObjectChanges(
+  a: Record<string, unknown>,
+  b: Record<string, unknown>,
+  path: DiffPath,
+  operations: DiffOperation[],
+  visiting: WeakMap<object, object>
+): void {
+  for (const key of Object.keys(a)) {
+    if (Object.prototype.hasOwnProperty.call(b, key)) {
+      collectChanges(a[key], b[key], [...path, key], operations, visiting);
+    } else {
+      operations.push({ op: 'remove', path: [...path, key], oldValue: a[key] });
+    }
+  }
+  for (const key of Object.keys(b)) {
+    if (!Object.prototype.hasOwnProperty.call(a, key)) {
+      operations.push({ op: 'add', path: [...path, key], value: b[key] });
+    }
+  }
+}
+
+/**
+ * Apply change operations to a value without mutating it.
+ *
+ * Accepts operations from `diff` or RFC 6902 `add`/`remove`/`replace`
+ * operations with JSON Pointer paths. Containers along each changed path are
+ * copied; unchanged branches and inserted values are shared with the inputs.
+ * Throws an `INVALID_ARGUMENT` UtilsError when a path does not exist or
+ * contains `__proto__`, `prototype` or `constructor`.
+ *
+ * @param target - The value to patch
+ * @param operations - Operations to apply, in order
+ * @returns The patched value
+ *
+ * @example
+ * ```ts
+ * const changes = diff(serverState, clientState);
+ * const synced = applyPatch(serverState, changes); // deep-equals clientState
+ *
+ * applyPatch({ tags: ['a'] }, [{ op: 'add', path: '/tags/-', value: 'b' }])
+ * // { tags: ['a', 'b'] }
+ * ```
+ */
+export function applyPatch<T>(
+  target: T,
+  operations: ReadonlyArray<DiffOperation | JsonPatchOperation>
+): T {
+  let result: unknown = target;
+  for (const operation of operations) {
+    const path =
+      typeof operation.path === 'string' ? parseJsonPointer(operation.path) : operation.path;
+    assertSafePath(path, operation.path);
+    result = applyOperation(result, operation, path, 0);
+  }
+  return result as T;
+}
+
+function applyOperation(
+  current: unknown,
+  operation: DiffOperation | JsonPatchOperation,
+  path: DiffPath,
+  depth: number
+): unknown {
+  if (path.length === 0) {
+    if (operation.op === 'remove') {
+      invalidPath('Cannot remove the root value', operation.path);
+    }
+    return operation.value;
+  }
+
+  const segment = path[depth];
+  const isLast = depth === path.length - 1;
+
+  if (Array.isArray(current)) {
+    const copy = [...current];
+    const index = toArrayIndex(segment, copy.length, isLast && operation.op === 'add');
+    if (index === undefined) {
+      invalidPath(`Invalid array index "${String(segment)}"`, operation.path);
+    }
+    if (!isLast) {
+      copy[index] = applyOperation(copy[index], operation, path, depth + 1);
+    } else if (operation.op === 'add') {
+      copy.splice(index, 0, operation.value);
+    } else if (operation.op === 'remove') {
+      copy.splice(index, 1);
+    } else {
+      copy[index] = operation.value;
+    }
+    return copy;
+  }
+
+  if (current instanceof Set) {
+    if (!isLast) {
+      invalidPath('Cannot patch inside a Set member', operation.path);
+    }
+    const copy = new Set(current);
+    if (operation.op !== 'add' && !copy.has(segment)) {
+      invalidPath('Path does not exist', operation.path);
+    }
+    copy.delete(segment);
+    if (operation.op !== 'remove') {
+      copy.add(operation.value);
+    }
+    return copy;
+  }
+
+  if (current instanceof Map) {
+    if (operation.op !== 'add' || !isLast) {
+      if (!current.has(segment)) {
+        invalidPath('Path does not exist', operation.path);
+      }
+    }
+    const copy = new Map(current);
+    if (!isLast) {
+      copy.set(segment, applyOperation(copy.get(segment), operation, path, depth + 1));
+    } else if (operation.op === 'remove') {
+      copy.delete(segment);
+    } else {
+      copy.set(segment, operation.value);
+    }
+    return copy;
+  }
+
+  if (typeof current !== 'object' || current === null) {
+    return invalidPath('Path does not exist', operation.path);
+  }
+
+  const key = String(segment);
+  const exists = Object.prototype.hasOwnProperty.call(current, key);
+  if (!exists && (operation.op !== 'add' || !isLast)) {
+    invalidPath('Path does not exist', operation.path);
+  }
+  const copy: Record<string, unknown> = { ...current };
+  if (!isLast) {
+    copy[key] = applyOperation(copy[key], operation, path, depth + 1);
+  } else if (operation.op === 'remove') {
+    delete copy[key];
+  } else {
+    copy[key] = operation.value;
+  }
+  return copy;
+}
+
+function toArrayIndex(segment: unknown, length: number, allowEnd: boolean): number | undefined {
+  if (segment === '-' && allowEnd) {
+    return length;
+  }
+  const index =
+    typeof segment === 'number'
+      ? segment
+      : typeof segment === 'string' && /^(?:0|[1-9]\d*)$/.test(segment)
+        ? Number(segment)
+        : Number.NaN;
+  const upper = allowEnd ? length : length - 1;
+  return Number.isInteger(index) && index >= 0 && index <= upper ? index : undefined;
+}
+
+function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    invalidPath('JSON Pointer must be empty or start with "/"', pointer);
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function toJsonPointer(path: DiffPath): string {
+  return path
+    .map((segment) => {
+      if (typeof segment !== 'string' && typeof segment !== 'number') {
+        invalidPath('JSON Pointer segments must be strings or numbers', path);
+      }
+      return `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+    })
+    .join('');
+}
+
+/**
+ * Convert `diff` operations to an RFC 6902 JSON Patch document.
+ *
+ * Intended for JSON data (plain objects, arrays and primitives). Map and Set
+ * changes have no JSON Patch form; paths with non-string, non-number segments
+ * throw an `INVALID_ARGUMENT` UtilsError.
+ *
+ * @param operations - Operations produced by `diff`
+ * @returns JSON Patch operations with JSON Pointer paths
+ *
+ * @example
+ * ```ts
+ * toJsonPatch(diff({ 'a/b': 1 }, { 'a/b': 2 }))
+ * // [{ op: 'replace', path: '/a~1b', value: 2 }]
+ * ```
+ */
+export function toJsonPatch(operations: readonly DiffOperation[]): JsonPatchOperation[] {
+  return operations.map((operation) => {
+    const path = toJsonPointer(operation.path);
+    return operation.op === 'remove'
+      ? { op: 'remove', path }
+      : { op: operation.op, path, value: operation.value };
+  });
+}
@@ -0,0 +1,458 @@
+/**
+ * Configurable deep equality (isEqualWith, whyNotEqual)
+ */
+
+import { type PathSegment, toPathSegments } from '../internal/path.js';
+
+/**
+ * Options for isEqualWith and whyNotEqual
+ */
+export type IsEqualOptions = {
+  /**
+   * Compare arrays as multisets, ignoring element order; elements are paired so
+   * that every element finds a match whenever one exists (default: false)
+   */
+  unorderedArrays?: boolean;
+  /**
+   * Paths to leave out of the comparison, e.g. `'meta.updatedAt'` or
+   * `'items.*.id'`; `*` matches any single segment
+   */
+  ignorePaths?: ReadonlyArray<string | readonly PathSegment[]>;
+  /** Numbers whose absolute difference is at most this are equal (default: 0) */
+  tolerance?: number;
+  /**
+   * Called for every compared pair with a copy of its path; return a boolean
+   * to decide, or `undefined` to use the default comparison
+   */
+  comparator?: (a: unknown, b: unknown, path: readonly unknown[]) => boolean | undefined;
+};
+
+/**
+ * First difference found by whyNotEqual
+ */
+export type EqualityDifference = {
+  /** Location of the difference, e.g. `items[0].id` (empty for the root) */
+  path: string;
+  /** Why the values differ */
+  reason: string;
+  a: unknown;
+  b: unknown;
+};
+
+type CompareContext = {
+  unorderedArrays: boolean;
+  ignorePaths: string[][];
+  tolerance: number;
+  comparator: IsEqualOptions['comparator'];
+  path: unknown[];
+  /** Pairs currently being compared, for cycles */
+  visiting: WeakMap<object, Set<object>>;
+};
+
+type Difference = Omit<EqualityDifference, 'path'> & { path: unknown[] };
+
+function createContext(options: IsEqualOptions): CompareContext {
+  return {
+    unorderedArrays: options.unorderedArrays ?? false,
+    ignorePaths: (options.ignorePaths ?? []).map((path) => toPathSegments(path).map(String)),
+    tolerance: options.tolerance ?? 0,
+    comparator: options.comparator,
+    path: [],
+    visiting: new WeakMap(),
+  };
+}
+
+function formatPath(path: readonly unknown[]): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === 'string' ? (index === 0 ? segment : `.${segment}`) : `[${String(segment)}]`
+    )
+    .join('');
+}
+
+function kindOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value === 'object'
+    ? Object.prototype.toString.call(value).slice(8, -1)
+    : typeof value;
+}
+
+function isIgnored(context: CompareContext, path: readonly unknown[]): boolean {
+  return context.ignorePaths.some(
+    (pattern) =>
+      pattern.length === path.length &&
+      pattern.every((segment, index) => segment === '*' || segment === String(path[index]))
+  );
+}
+
+function differ(a: unknown, b: unknown, context: CompareContext, reason: string): Difference {
+  return { path: [...context.path], reason, a, b };
+}
+
+function compareChild(
+  a: unknown,
+  b: unknown,
+  key: unknown,
+  context: CompareContext
+): Difference | undefined {
+  context.path.push(key);
+  try {
+    return isIgnored(context, context.path) ? undefined : compare(a, b, context);
+  } finally {
+    context.path.pop();
+  }
+}
+
+function compareNumbers(a: number, b: number, context: CompareContext): boolean {
+  return Object.is(a, b) || (context.tolerance > 0 && Math.abs(a - b) <= context.tolerance);
+}
+
+function compare(a: unknown, b: unknown, context: CompareContext): Difference | undefined {
+  if (context.comparator) {
+    const decided = context.comparator(a, b, [...context.path]);
+    if (decided !== undefined) {
+      return decided ? undefined : differ(a, b, context, 'rejected by comparator');
+    }
+  }
+
+  if (Object.is(a, b)) {
+    return undefined;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return compareNumbers(a, b, context)
+      ? undefined
+      : differ(a, b, context, `${a} is not equal to ${b}`);
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return differ(a, b, context, `${kindOf(a)} value is not equal to ${kindOf(b)} value`);
+  }
+
+  const tag = kindOf(a);
+  if (tag !== kindOf(b)) {
+    return differ(a, b, context, `${tag} is not comparable to ${kindOf(b)}`);
+  }
+
+  const inProgress = context.visiting.get(a);
+  if (inProgress?.has(b)) {
+    return undefined;
+  }
+  if (inProgress) {
+    inProgress.add(b);
+  } else {
+    context.visiting.set(a, new Set([b]));
+  }
+  try {
+    return compareObjects(a, b, tag, context);
+  } finally {
+    context.visiting.get(a)?.delete(b);
+  }
+}
+
+function compareObjects(
+  a: object,
+  b: object,
+  tag: string,
+  context: CompareContext
+): Difference | undefined {
+  if (a instanceof Date) {
+    return Object.is(a.getTime(), (b as Date).getTime())
+      ? undefined
+      : differ(a, b, context, 'dates differ');
+  }
+  if (a instanceof RegExp) {
+    const other = b as RegExp;
+    return a.source === other.source && a.flags === other.flags
+      ? undefined
+      : differ(a, b, context, `${String(a)} is not equal to ${String(other)}`);
+  }
+  if (a instanceof ArrayBuffer || a instanceof DataView) {
+    return compareBinary(toBytes(a), toBytes(b as ArrayBuffer | DataView), a, b, context);
+  }
+  if (ArrayBuffer.isView(a)) {
+    return compareBinary(
+      a as unknown as ArrayLike<number | bigint>,
+      b as unknown as ArrayLike<number | bigint>,
+      a,
+      b,
+      context
+    );
+  }
+  if (a instanceof Map) {
+    return compareMaps(a, b as Map<unknown, unknown>, context);
+  }
+  if (a instanceof Set) {
+    return compareSets(a, b as Set<unknown>, context);
+  }
+  if (Array.isArray(a)) {
+    return context.unorderedArrays
+      ? compareUnordered(a, b as unknown[], context)
+      : compareOrdered(a, b as unknown[], context);
+  }
+  if (a instanceof Error) {
+    const other = b as Error;
+    for (const key of ['name', 'message', 'cause'] as const) {
+      const difference = compareChild(a[key], other[key], key, context);
+      if (difference) {
+        return difference;
+      }
+    }
+  }
+  if (tag === 'Number' || tag === 'String' || tag === 'Boolean') {
+    const [valueA, valueB] = [(a as object).valueOf(), (b as object).valueOf()];
+    if (!Object.is(valueA, valueB)) {
+      return differ(a, b, context, 'boxed values differ');
+    }
+  }
+  return compareKeys(a as Record<string, unknown>, b as Record<string, unknown>, context);
+}
+
+function toBytes(value: ArrayBuffer | DataView): Uint8Array {
+  return value instanceof ArrayBuffer
+    ? new Uint8Array(value)
+    : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
+
+function compareBinary(
+  itemsA: ArrayLike<number | bigint>,
+  itemsB: ArrayLike<number | bigint>,
+  a: unknown,
+  b: unknown,
+  context: CompareContext
+): Difference | undefined {
+  if (itemsA.length !== itemsB.length) {
+    return differ(a, b, context, `length ${itemsA.length} is not equal to ${itemsB.length}`);
+  }
+  for (let index = 0; index < itemsA.length; index++) {
+    const [itemA, itemB] = [itemsA[index], itemsB[index]];
+    const equal =
+      typeof itemA === 'number' && typeof itemB === 'number'
+        ? compareNumbers(itemA, itemB, context)
+        : itemA === itemB;
+    if (!equal) {
+      context.path.push(index);
+      const difference = differ(itemA, itemB, context, `${itemA} is not equal to ${itemB}`);
+      context.path.pop();
+      return difference;
+    }
+  }
+  return undefined;
+}
+
+function compareOrdered(
+  a: readonly unknown[],
+  b: readonly unknown[],
+  context: CompareContext
+): Difference | undefined {
+  if (a.length !== b.length) {
+    return differ(a, b, context, `length ${a.length} is not equal to ${b.length}`);
+  }
+  for (let index = 0; index < a.length; index++) {
+    const difference = compareChild(a[index], b[index], index, context);
+    if (difference) {
+      return difference;
+    }
+  }
+  return undefined;
+}
+
+function compareUnordered(
+  a: readonly unknown[],
+  b: readonly unknown[],
+  context: CompareContext
+): Difference | undefined {
+  if (a.length !== b.length) {
+    return differ(a, b, context, `length ${a.length} is not equal to ${b.length}`);
+  }
+
+  // Tolerance, ignored paths and comparators make equality non-transitive, so a
+  // first-come match can strand a later element; find a perfect bipartite
+  // matching with augmenting paths instead, comparing each pair at most once
+  const equalPairs = new Map<number, boolean>();
+  const isPair = (indexA: number, indexB: number): boolean => {
+    const key = indexA * b.length + indexB;
+    let equal = equalPairs.get(key);
+    if (equal === undefined) {
+      equal = !compareChild(a[indexA], b[indexB], indexA, context);
+      equalPairs.set(key, equal);
+    }
+    return equal;
+  };
+  const owners: Array<number | undefined> = Array.from({ length: b.length });
+  const augment = (indexA: number, visited: Set<number>): boolean => {
+    for (let indexB = 0; indexB < b.length; indexB++) {
+      if (visited.has(indexB) || !isPair(indexA, indexB)) {
+        continue;
+      }
+      visited.add(indexB);
+      const owner = owners[indexB];
+      if (owner === undefined || augment(owner, visited)) {
+        owners[indexB] = indexA;
+        return true;
+      }
+    }
+    return false;
+  };
+
+  for (let index = 0; index < a.length; index++) {
+    const free = owners.findIndex((owner, indexB) => owner === undefined && isPair(index, indexB));
+    if (free !== -1) {
+      owners[free] = index;
+      continue;
+    }
+    if (!augment(index, new Set())) {
+      context.path.push(index);
+      const difference = differ(a[index], undefined, context, 'no matching element in b');
+      context.path.pop();
+      return difference;
+    }
+  }
+  return undefined;
+}
+
+function compareMaps(
+  a: ReadonlyMap<unknown, unknown>,
+  b: ReadonlyMap<unknown, unknown>,
+  context: CompareContext
+): Difference | undefined {
+  for (const [key, value] of a) {
+    if (!b.has(key)) {
+      context.path.push(key);
+      const ignored = isIgnored(context, context.path);
+      const difference = ignored ? undefined : differ(value, undefined, context, 'missing in b');
+      context.path.pop();
+      if (difference) {
+        return difference;
+      }
+      continue;
+    }
+    const difference = compareChild(value, b.get(key), key, context);
+    if (difference) {
+      return difference;
+    }
+  }
+  for (const [key, value] of b) {
+    if (!a.has(key)) {
+      context.path.push(key);
+      const ignored = isIgnored(context, context.path);
+      const difference = ignored ? undefined : differ(undefined, value, context, 'missing in a');
+      context.path.pop();
+      if (difference) {
+        return difference;
+      }
+    }
+  }
+  return undefined;
+}
+
+function compareSets(
+  a: ReadonlySet<unknown>,
+  b: ReadonlySet<unknown>,
+  context: CompareContext
+): Difference | undefined {
+  if (a.size !== b.size) {
+    return differ(a, b, context, `size ${a.size} is not equal to ${b.size}`);
+  }
+  const unmatched = [...b].filter((member) => !a.has(member));
+  for (const member of a) {
+    if (b.has(member)) {
+      continue;
+    }
+    const index = unmatched.findIndex((candidate) => !compare(member, candidate, context));
+    if (index === -1) {
+      return differ(member, undefined, context, 'member missing in b');
+    }
+    unmatched.splice(index, 1);
+  }
+  return undefined;
+}
+
+function compareKeys(
+  a: Record<string, unknown>,
+  b: Record<string, unknown>,
+  context: CompareContext
+): Difference | undefined {
+  for (const key of Object.keys(a)) {
+    if (!Object.prototype.hasOwnProperty.call(b, key)) {
+      context.path.push(key);
+      const difference = isIgnored(context, context.path)
+        ? undefined
+        : differ(a[key], undefined, context, 'missing in b');
+      context.path.pop();
+      if (difference) {
+        return difference;
+      }
+      continue;
+    }
+    const difference = compareChild(a[key], b[key], key, context);
+    if (difference) {
+      return difference;
+    }
+  }
+  for (const key of Object.keys(b)) {
+    if (!Object.prototype.hasOwnProperty.call(a, key)) {
+      context.path.push(key);
+      const difference = isIgnored(context, context.path)
+        ? undefined
+        : differ(undefined, b[key], context, 'missing in a');
+      context.path.pop();
+      if (difference) {
+        return difference;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Deep equality with options
+ *
+ * Cycle-safe. Compares Dates by time, RegExps by source and flags, Errors by
+ * name, message, cause and own properties, ArrayBuffers, DataViews and typed
+ * arrays by content, Maps by key and Sets by (deep) membership.
+ *
+ * @param a - The first value to compare
+ * @param b - The second value to compare
+ * @param options - Unordered arrays, ignored paths, numeric tolerance and a custom comparator
+ * @returns True if values are deeply equal under the options
+ *
+ * @example
+ * ```ts
+ * isEqualWith({ total: 0.1 + 0.2, tags: ['b', 'a'] }, { total: 0.3, tags: ['a', 'b'] }, {
+ *   tolerance: 1e-9,
+ *   unorderedArrays: true,
+ * }) // true
+ *
+ * isEqualWith(saved, loaded, { ignorePaths: ['meta.updatedAt', 'items.*.id'] })
+ * ```
+ */
+export function isEqualWith(a: unknown, b: unknown, options: IsEqualOptions = {}): boolean {
+  return compare(a, b, createContext(options)) === undefined;
+}
+
+/**
+ * Find the first difference between two values, for readable test failures
+ *
+ * @param a - The first value to compare
+ * @param b - The second value to compare
+ * @param options - Same options as isEqualWith
+ * @returns The first difference, or `undefined` when the values are equal
+ *
+ * @example
+ * ```ts
+ * whyNotEqual({ items: [{ id: 1 }] }, { items: [{ id: 2 }] })
+ * // { path: 'items[0].id', reason: '1 is not equal to 2', a: 1, b: 2 }
+ * ```
+ */
+export function whyNotEqual(
+  a: unknown,
+  b: unknown,
+  options: IsEqualOptions = {}
+): EqualityDifference | undefined {
+  const difference = compare(a, b, createContext(options));
+  return difference && { ...difference, path: formatPath(difference.path) };
+}
@@ -0,0 +1,261 @@
+/**
+ * Nested object <-> flat key map conversion (flattenObject, unflattenObject)
+ */
+
+import type { FlattenedObject } from '../../types/utility.js';
+import { createUtilsError } from '../error.js';
+import { assertSafePath, type PathSegment } from '../internal/path.js';
+import { set } from './query.js';
+import { isPlainObject } from './utils.js';
+
+/**
+ * How array indexes appear in flattened keys: `items.0.id` (`index`),
+ * `items[0].id` (`bracket`), or arrays kept whole as values (`keep`)
+ */
+export type FlattenArrayFormat = 'index' | 'bracket' | 'keep';
+
+/**
+ * Options for flattenObject
+ */
+export type FlattenObjectOptions = {
+  /** Separator between keys (default: '.') */
+  delimiter?: string;
+  /** How array indexes are written (default: 'index') */
+  arrayFormat?: FlattenArrayFormat;
+  /** Nested levels to fold into keys; deeper containers are kept as values (default: Infinity) */
+  maxDepth?: number;
+};
+
+/**
+ * Options for unflattenObject; must match the options used to flatten
+ */
+export type UnflattenObjectOptions = Pick<FlattenObjectOptions, 'delimiter' | 'arrayFormat'>;
+
+type FlattenContext = {
+  delimiter: string;
+  arrayFormat: FlattenArrayFormat;
+  maxDepth: number;
+  result: Record<string, unknown>;
+  /** Containers on the current path, for cycles */
+  ancestors: Set<object>;
+};
+
+function formatKey(segments: readonly PathSegment[], context: FlattenContext): string {
+  let key = '';
+  for (const segment of segments) {
+    if (typeof segment === 'number' && context.arrayFormat === 'bracket') {
+      key += `[${segment}]`;
+    } else {
+      key += key === '' ? String(segment) : `${context.delimiter}${segment}`;
+    }
+  }
+  return key;
+}
+
+function assertFlattenableKey(
+  key: string,
+  segments: readonly PathSegment[],
+  context: FlattenContext
+): void {
+  assertSafePath([key], [...segments]);
+  if (
+    key === '' ||
+    key.includes(context.delimiter) ||
+    (context.arrayFormat === 'bracket' && (key.includes('[') || key.includes(']')))
+  ) {
+    throw createUtilsError({
+      code: 'INVALID_ARGUMENT',
+      message: `Key "${key}" cannot be flattened with delimiter "${context.delimiter}"`,
+      details: { path: [...segments] },
+    });
+  }
+}
+
+function flattenInto(value: unknown, segments: PathSegment[], context: FlattenContext): void {
+  const isArray = Array.isArray(value) && context.arrayFormat !== 'keep';
+  const isNested = isArray || isPlainObject(value);
+  if (segments.length > 0) {
+    const isEmpty = isNested && Object.keys(value as object).length === 0;
+    if (!isNested || isEmpty || segments.length > context.maxDepth) {
+      context.result[formatKey(segments, context)] = value;
+      return;
+    }
+  } else if (!isNested) {
+    return;
+  }
+
+  if (context.ancestors.has(value as object)) {
+    throw createUtilsError({
+      code: 'INVALID_ARGUMENT',
+      message: 'Cannot flatten a circular reference',
+      details: { path: [...segments] },
+    });
+  }
+  context.ancestors.add(value as object);
+
+  if (isArray) {
+    for (let index = 0; index < (value as unknown[]).length; index++) {
+      segments.push(index);
+      flattenInto((value as unknown[])[index], segments, context);
+      segments.pop();
+    }
+  } else {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      segments.push(key);
+      assertFlattenableKey(key, segments, context);
+      flattenInto(child, segments, context);
+      segments.pop();
+    }
+  }
+
+  context.ancestors.delete(value as object);
+}
+
+/**
+ * Flatten nested plain objects and arrays into a single-level key map
+ *
+ * Class instances, Dates, Maps and other non-plain objects are kept as values,
+ * as are empty objects and arrays so that unflattenObject restores them. A root
+ * that is not a plain object (including arrays), empty keys, keys containing
+ * the delimiter (or brackets with `arrayFormat: 'bracket'`) and `__proto__`,
+ * `prototype` or `constructor` throw an `INVALID_ARGUMENT` UtilsError, as do
+ * circular references.
+ *
+ * @param object - The nested object to flatten
+ * @param options - Delimiter, array format and maximum depth
+ * @returns A new object mapping flattened keys to leaf values
+ *
+ * @example
+ * ```ts
+ * flattenObject({ db: { host: 'localhost', ports: [5432] } })
+ * // { 'db.host': 'localhost', 'db.ports.0': 5432 }
+ *
+ * mapKeys(flattenObject(config, { delimiter: '__' }), (key) => key.toUpperCase())
+ * // { DB__HOST: 'localhost', DB__PORTS__0: 5432 }
+ * ```
+ */
+export function flattenObject<
+  T extends object,
+  Delimiter extends string = '.',
+  Format extends FlattenArrayFormat = 'index',
+>(
+  object: T,
+  options?: { delimiter?: Delimiter; arrayFormat?: Format; maxDepth?: never }
+): FlattenedObject<T, Delimiter, Format>;
+export function flattenObject(
+  object: object,
+  options: FlattenObjectOptions
+): Record<string, unknown>;
+export function flattenObject(
+  object: object,
+  options: FlattenObjectOptions = {}
+): Record<string, unknown> {
+  const { delimiter = '.', arrayFormat = 'index', maxDepth = Infinity } = options;
+  if (!isPlainObject(object)) {
+    throw createUtilsError({
+      code: 'INVALID_ARGUMENT',
+      message: 'flattenObject expects a plain object',
+      details: { object },
+    });
+  }
+  if (delimiter === '') {
+    throw createUtilsError({
+      code: 'INVALID_ARGUMENT',
+      message: 'delimiter must not be empty',
+      details: { delimiter },
+    });
+  }
+  if (!(maxDepth >= 0)) {
+    throw createUtilsError({
+      code: 'INVALID_ARGUMENT',
+      message: 'maxDepth must be a non-negative number',
+      details: { maxDepth },
+    });
+  }
+
+  const context: FlattenContext = {
+    delimiter,
+    arrayFormat,
+    maxDepth,
+    result: {},
+    ancestors: new Set(),
+  };
+  flattenInto(object, [], context);
+  return context.result;
+}
+
+const indexPattern = /^(?:0|[1-9]\d*)$/;
+const bracketPartPattern = /^([^[\]]*)((?:\[(?:0|[1-9]\d*)\])*)$/;
+
+/**
+ * Array index for a key segment. Only canonical indexes below `limit` (the
+ * number of flattened keys, which bounds any index flattenObject writes)
+ * qualify, so `01` or `99999999` stay object keys instead of sparse arrays.
+ */
+function toIndex(part: string, limit: number): PathSegment {
+  return indexPattern.test(part) && Number(part) < limit ? Number(part) : part;
+}
+
+function parseKey(
+  key: string,
+  delimiter: string,
+  arrayFormat: FlattenArrayFormat,
+  limit: number
+): PathSegment[] {
+  const segments: PathSegment[] = [];
+  for (const part of key.split(delimiter)) {
+    if (arrayFormat === 'index') {
+      segments.push(toIndex(part, limit));
+      continue;
+    }
+    const match = arrayFormat === 'bracket' ? bracketPartPattern.exec(part) : null;
+    if (!match) {
+      segments.push(part);
+      continue;
+    }
+    const [, name = '', brackets = ''] = match;
+    if (name !== '' || brackets === '') {
+      segments.push(name);
+    }
+    for (const [index] of brackets.matchAll(/\d+/g)) {
+      segments.push(toIndex(index, limit));
+    }
+  }
+  return segments;
+}
+
+/**
+ * Rebuild a nested object from a flat key map produced by flattenObject
+ *
+ * Index segments (`items.0` or `items[0]`, per `arrayFormat`) create arrays,
+ * so arrays round-trip. With the default `arrayFormat: 'index'`, objects with
+ * keys such as `'0'` or `'2'` come back as arrays; use `'bracket'` to keep
+ * them apart. Non-canonical numbers such as `01` stay object keys. Later keys
+ * win when keys overlap. Keys containing `__proto__`, `prototype` or
+ * `constructor` throw an `INVALID_ARGUMENT` UtilsError.
+ *
+ * @template T - The expected shape of the result
+ * @param record - The flat key map
+ * @param options - Delimiter and array format used when flattening
+ * @returns A new nested object
+ *
+ * @example
+ * ```ts
+ * unflattenObject({ 'db.host': 'localhost', 'db.ports.0': 5432 })
+ * // { db: { host: 'localhost', ports: [5432] } }
+ *
+ * unflattenObject<Config>(flattenObject(config)) // round-trip
+ * ```
+ */
+export function unflattenObject<T extends object = Record<string, unknown>>(
+  record: Readonly<Record<string, unknown>>,
+  options: UnflattenObjectOptions = {}
+): T {
+  const { delimiter = '.', arrayFormat = 'index' } = options;
+  const result: Record<string, unknown> = {};
+  const entries = Object.entries(record);
+  for (const [key, value] of entries) {
+    set(result, parseKey(key, delimiter, arrayFormat, entries.length), value);
+  }
+  return result as T;
+}
@@ -0,0 +1,217 @@
+/**
+ * Immutable updates with structural sharing (setIn, updateIn, deleteIn, mergeIn)
+ */
+
+import { createDualApi } from '../internal/curry-helper.js';
+import {
+  assertSafePath,
+  type PathInput,
+  type PathOf,
+  type PathResult,
+  type PathSegment,
+  toSafePathSegments,
+} from '../internal/path.js';
+
+type Container = Record<PropertyKey, unknown>;
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null;
+}
+
+function shallowCopy(container: Container): Container {
+  if (Array.isArray(container)) {
+    return [...container] as unknown as Container;
+  }
+  return Object.assign(Object.create(Object.getPrototypeOf(container)) as object, container);
+}
+
+function hasOwn(container: Container, key: PathSegment): boolean {
+  return Object.prototype.hasOwnProperty.call(container, key);
+}
+
+/**
+ * Replace the value at `segments[depth..]`, copying only the containers on the
+ * path and returning `current` itself when nothing changed
+ */
+function updateAt(
+  current: unknown,
+  segments: readonly PathSegment[],
+  depth: number,
+  updater: (value: unknown) => unknown
+): unknown {
+  if (depth === segments.length) {
+    return updater(current);
+  }
+
+  const key = segments[depth] as PathSegment;
+  const container: Container = isContainer(current)
+    ? current
+    : ((typeof key === 'number' ? [] : {}) as Container);
+  const child = container[key];
+  const next = updateAt(child, segments, depth + 1, updater);
+  if (container === current && Object.is(next, child) && hasOwn(container, key)) {
+    return current;
+  }
+
+  const copy = shallowCopy(container);
+  copy[key] = next;
+  return copy;
+}
+
+function deleteAt(current: unknown, segments: readonly PathSegment[], depth: number): unknown {
+  const key = segments[depth] as PathSegment;
+  if (!isContainer(current) || !hasOwn(current, key)) {
+    return current;
+  }
+
+  if (depth < segments.length - 1) {
+    const child = current[key];
+    const next = deleteAt(child, segments, depth + 1);
+    if (next === child) {
+      return current;
+    }
+    const copy = shallowCopy(current);
+    copy[key] = next;
+    return copy;
+  }
+
+  if (Array.isArray(current)) {
+    return current.filter((_, index) => index !== Number(key));
+  }
+  const copy = shallowCopy(current);
+  delete copy[key];
+  return copy;
+}
+
+/**
+ * Return a copy of `object` with `value` at `path`, sharing every unchanged
+ * branch. Missing containers are created: arrays for numeric segments, objects
+ * otherwise. Returns `object` itself when the value is already in place.
+ *
+ * String paths and values are checked against the object's type, including
+ * `DeepReadonly` state; use an array path for keys only known at runtime.
+ *
+ * @template T - The type of the object
+ * @template P - The property path
+ * @param object - The source object (not mutated)
+ * @param path - Property path (dot-separated string or array of keys and indexes)
+ * @param value - Value to store
+ * @returns The updated copy
+ *
+ * @example
+ * ```ts
+ * const next = setIn(state, ['todos', 0, 'done'], true);
+ * next.todos[1] === state.todos[1] // true
+ * setIn('user.name', 'Ada')(state) // data-last
+ * ```
+ */
+export const setIn: {
+  <T, P extends PathOf<T>>(object: T, path: P, value: PathResult<T, P>): T;
+  <T>(object: T, path: readonly PathSegment[], value: unknown): T;
+  (path: PathInput, value: unknown): <T>(object: T) => T;
+} = createDualApi(
+  3,
+  <T>(object: T, path: PathInput, value: unknown): T =>
+    updateAt(object, toSafePathSegments(path), 0, () => value) as T
+);
+
+/**
+ * Return a copy of `object` with the value at `path` replaced by
+ * `updater(current)`, sharing every unchanged branch. String paths type the
+ * updater from the object's type.
+ *
+ * @template T - The type of the object
+ * @template P - The property path
+ * @param object - The source object (not mutated)
+ * @param path - Property path (dot-separated string or array of keys and indexes)
+ * @param updater - Receives the current value (or `undefined`) and returns the new one
+ * @returns The updated copy, or `object` itself when the value did not change
+ *
+ * @example
+ * ```ts
+ * updateIn(state, ['counters', 'clicks'], (count: number = 0) => count + 1)
+ * updateIn(['todos', 0, 'done'], (done: boolean) => !done)(state) // data-last
+ * ```
+ */
+export const updateIn: {
+  <T, P extends PathOf<T>>(
+    object: T,
+    path: P,
+    updater: (value: PathResult<T, P>) => PathResult<T, P>
+  ): T;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  <T>(object: T, path: readonly PathSegment[], updater: (value: any) => unknown): T;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (path: PathInput, updater: (value: any) => unknown): <T>(object: T) => T;
+} = createDualApi(
+  3,
+  <T>(object: T, path: PathInput, updater: (value: unknown) => unknown): T =>
+    updateAt(object, toSafePathSegments(path), 0, updater) as T
+);
+
+/**
+ * Return a copy of `object` without the property at `path`, sharing every
+ * unchanged branch. Array elements are removed and later elements shift down.
+ *
+ * @param object - The source object (not mutated)
+ * @param path - Property path (dot-separated string or array of keys and indexes)
+ * @returns The updated copy, or `object` itself when the path does not exist
+ *
+ * @example
+ * ```ts
+ * deleteIn({ a: { b: 1, c: 2 } }, 'a.b') // { a: { c: 2 } }
+ * deleteIn(['todos', 0])(state) // data-last
+ * ```
+ */
+export const deleteIn: {
+  <T>(object: T, path: PathInput): T;
+  (path: PathInput): <T>(object: T) => T;
+} = createDualApi(2, <T>(object: T, path: PathInput): T => {
+  const segments = toSafePathSegments(path);
+  return segments.length === 0 ? object : (deleteAt(object, segments, 0) as T);
+});
+
+/**
+ * Return a copy of `object` with `source` shallow-merged into the object at
+ * `path`, sharing every unchanged branch. String paths check `source` against
+ * the object's type.
+ *
+ * @template T - The type of the object
+ * @template P - The property path
+ * @param object - The source object (not mutated)
+ * @param path - Property path (dot-separated string or array of keys and indexes)
+ * @param source - Properties to assign
+ * @returns The updated copy, or `object` itself when every property already matches
+ *
+ * @example
+ * ```ts
+ * mergeIn(state, 'settings.theme', { mode: 'dark' })
+ * mergeIn(['users', id], { active: false })(state) // data-last
+ * ```
+ */
+export const mergeIn: {
+  <T, P extends PathOf<T>>(
+    object: T,
+    path: P,
+    source: Partial<NonNullable<PathResult<T, P>>> & object
+  ): T;
+  <T>(object: T, path: readonly PathSegment[], source: object): T;
+  (path: PathInput, source: object): <T>(object: T) => T;
+} = createDualApi(
+  3,
+  <T>(object: T, path: PathInput, source: object): T =>
+    updateAt(object, toSafePathSegments(path), 0, (current) => {
+      const entries = Object.entries(source);
+      assertSafePath(
+        entries.map(([key]) => key),
+        path
+      );
+      if (
+        isContainer(current) &&
+        entries.every(([key, value]) => hasOwn(current, key) && Object.is(current[key], value))
+      ) {
+        return current;
+      }
+      return Object.assign(isContainer(current) ? shallowCopy(current) : {}, source);
+    }) as T
+);
@@ -3,8 +3,36 @@
  * Organized into focused submodules while maintaining public API compatibility
  */
 
-export { deepClone, deepMerge, defaultsDeep, isEqual } from './deep.js';
-export { get, has, omit, pick, set } from './query.js';
+export {
+  deepClone,
+  type DeepCloneOptions,
+  deepMerge,
+  type DeepMergeArrayStrategy,
+  type DeepMergeOptions,
+  deepMergeWith,
+  defaultsDeep,
+  defaultsDeepWith,
+  isEqual,
+} from './deep.js';
+export {
+  applyPatch,
+  diff,
+  type DiffOperation,
+  type DiffPath,
+  type JsonPatchOperation,
+  toJsonPatch,
+} from './diff.js';
+export { type EqualityDifference, isEqualWith, type IsEqualOptions, whyNotEqual } from './equal.js';
+export {
+  type FlattenArrayFormat,
+  flattenObject,
+  type FlattenObjectOptions,
+  unflattenObject,
+  type UnflattenObjectOptions,
+} from './flatten.js';
+export { deleteIn, mergeIn, setIn, updateIn } from './immutable.js';
+export { type Draft, produce } from './produce.js';
+export { get, getOption, has, omit, pick, set } from './query.js';
 export { invert, mapKeys, mapValues } from './transform.js';
 export {
   defaults,
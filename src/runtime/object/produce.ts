@@ -0,0 +1,222 @@
+/**
+ * Copy-on-write recipes over Proxy drafts (produce)
+ */
+
+import type { WritableDeep } from '../../types/utility.js';
+import { isPlainObject } from './utils.js';
+
+/**
+ * Mutable view of a (possibly `DeepReadonly`) state passed to a `produce` recipe
+ */
+export type Draft<T> = WritableDeep<T>;
+
+type Source = Record<PropertyKey, unknown>;
+
+type DraftState = {
+  base: Source;
+  /** Shallow copy created on the first write; reads go to it once it exists */
+  copy: Source | undefined;
+  /** Lazily created drafts for properties still holding their base value */
+  children: Map<PropertyKey, DraftState>;
+  parent: DraftState | undefined;
+  proxy: Source;
+  revoke: () => void;
+};
+
+const DRAFT_STATE = Symbol('draftState');
+
+function isDraftable(value: unknown): value is Source {
+  return Array.isArray(value) || isPlainObject(value);
+}
+
+function source(state: DraftState): Source {
+  return state.copy ?? state.base;
+}
+
+function hasOwn(object: object, key: PropertyKey): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function markModified(state: DraftState): Source {
+  if (!state.copy) {
+    state.copy = (Array.isArray(state.base) ? [...state.base] : { ...state.base }) as Source;
+    if (state.parent) {
+      markModified(state.parent);
+    }
+  }
+  return state.copy;
+}
+
+function createDraft(
+  base: Source,
+  parent: DraftState | undefined,
+  drafts: DraftState[]
+): DraftState {
+  const state = { base, copy: undefined, children: new Map(), parent } as unknown as DraftState;
+  const { proxy, revoke } = Proxy.revocable((Array.isArray(base) ? [] : {}) as Source, {
+    get(_, key) {
+      if (key === DRAFT_STATE) {
+        return state;
+      }
+      const current = source(state);
+      const value = Reflect.get(current, key);
+      if (!hasOwn(current, key) || !isDraftable(value) || value !== state.base[key]) {
+        return value;
+      }
+      let child = state.children.get(key);
+      if (!child) {
+        child = createDraft(value, state, drafts);
+        state.children.set(key, child);
+      }
+      return child.proxy;
+    },
+    set(_, key, value: unknown) {
+      const current = source(state);
+      const child = state.children.get(key);
+      if (
+        (child && value === child.proxy) ||
+        (hasOwn(current, key) && Object.is(current[key], value))
+      ) {
+        return true;
+      }
+      markModified(state)[key] = value;
+      state.children.delete(key);
+      return true;
+    },
+    deleteProperty(_, key) {
+      if (hasOwn(source(state), key)) {
+        delete markModified(state)[key];
+        state.children.delete(key);
+      }
+      return true;
+    },
+    has: (_, key) => key in source(state),
+    ownKeys: () => Reflect.ownKeys(source(state)),
+    getOwnPropertyDescriptor(_, key) {
+      const current = source(state);
+      if (!hasOwn(current, key)) {
+        return undefined;
+      }
+      return {
+        value: current[key],
+        writable: true,
+        enumerable: Object.prototype.propertyIsEnumerable.call(current, key),
+        configurable: !(Array.isArray(current) && key === 'length'),
+      };
+    },
+    getPrototypeOf: () => Object.getPrototypeOf(state.base) as object | null,
+    defineProperty() {
+      return false;
+    },
+    setPrototypeOf() {
+      return false;
+    },
+  });
+  state.proxy = proxy;
+  state.revoke = revoke;
+  drafts.push(state);
+  return state;
+}
+
+function getDraftState(value: unknown): DraftState | undefined {
+  return typeof value === 'object' && value !== null
+    ? ((value as Source)[DRAFT_STATE] as DraftState | undefined)
+    : undefined;
+}
+
+function finalize(state: DraftState, seen: WeakMap<object, unknown>): Source {
+  if (!state.copy) {
+    return state.base;
+  }
+  const result = state.copy;
+  for (const [key, child] of state.children) {
+    result[key] = finalize(child, seen);
+  }
+  for (const key of Reflect.ownKeys(result)) {
+    if (!state.children.has(key) && result[key] !== state.base[key]) {
+      result[key] = finalizeValue(result[key], seen);
+    }
+  }
+  return result;
+}
+
+/**
+ * Replace drafts inside values the recipe assigned, e.g. `draft.a = [draft.b]`.
+ * Assigned objects are never written to: only containers holding a draft are
+ * copied, and everything else is returned as-is.
+ */
+function finalizeValue(value: unknown, seen: WeakMap<object, unknown>): unknown {
+  const state = getDraftState(value);
+  if (state) {
+    return finalize(state, seen);
+  }
+  if (!isDraftable(value)) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return seen.get(value);
+  }
+  seen.set(value, value);
+
+  let copy: Source | undefined;
+  for (const key of Reflect.ownKeys(value)) {
+    const child = value[key];
+    const next = finalizeValue(child, seen);
+    if (next !== child) {
+      copy ??= (Array.isArray(value) ? [...value] : { ...value }) as Source;
+      copy[key] = next;
+    }
+  }
+  if (copy) {
+    seen.set(value, copy);
+  }
+  return copy ?? value;
+}
+
+/**
+ * Produce the next state by mutating a draft of `base`.
+ *
+ * Plain objects and arrays are drafted lazily with Proxies: only the objects
+ * the recipe writes to are copied and every untouched branch is shared with
+ * `base`, so reference equality checks keep working. When the recipe changes
+ * nothing, `base` itself is returned. A recipe may instead return a
+ * replacement state. Maps, Sets, Dates and class instances are not drafted;
+ * assign new instances rather than mutating them. Drafts are revoked once the
+ * recipe returns and must not be kept.
+ *
+ * @param base - The current state; typically a `DeepReadonly` value
+ * @param recipe - Mutates the draft, or returns a replacement state
+ * @returns The next state
+ *
+ * @example
+ * ```ts
+ * type State = DeepReadonly<{ todos: Array<{ title: string; done: boolean }> }>;
+ *
+ * const next = produce(state, (draft) => {
+ *   draft.todos[0].done = true;
+ *   draft.todos.push({ title: 'Ship it', done: false });
+ * });
+ * next.todos[1] === state.todos[1] // true
+ * ```
+ */
+export function produce<T>(base: T, recipe: (draft: Draft<T>) => Draft<T> | void): T {
+  if (!isDraftable(base)) {
+    const replaced = recipe(base as Draft<T>);
+    return (replaced === undefined ? base : replaced) as T;
+  }
+
+  const drafts: DraftState[] = [];
+  const root = createDraft(base, undefined, drafts);
+  try {
+    const replaced = recipe(root.proxy as Draft<T>);
+    const seen = new WeakMap<object, unknown>();
+    if (replaced !== undefined && replaced !== root.proxy) {
+      return finalizeValue(replaced, seen) as T;
+    }
+    return finalize(root, seen) as T;
+  } finally {
+    for (const state of drafts) {
+      state.revoke();
+    }
+  }
+}
@@ -1,7 +1,24 @@
 /**
- * Object query utilities (pick, omit, get, set, has)
+ * Object query utilities (pick, omit, get, getOption, set, has)
  */
 
+import { createDualApi } from '../internal/curry-helper.js';
+import {
+  type PathInput,
+  type PathOf,
+  type PathResult,
+  type PathSegment,
+  toSafePathSegments,
+} from '../internal/path.js';
+import { none, type Option, some } from '../option.js';
+
+/**
+ * Accepts the wide `string` type only, so paths built at runtime and explicit
+ * result types (`get<number>(object, path)`) compile while string literals
+ * must still match `Path<T>`
+ */
+type RuntimePath<S extends string> = string extends S ? S : never;
+
 /**
  * Pick specific properties from object
  *
@@ -15,20 +32,24 @@
  * ```ts
  * pick({ a: 1, b: 2, c: 3 }, ['a', 'b'])
  * // { a: 1, b: 2 }
+ * pick<User, 'id'>(['id'])(user) // data-last
  * ```
  */
-export function pick<T extends object, K extends keyof T>(
-  object: T,
-  propertyKeys: K[]
-): Pick<T, K> {
-  const result = {} as Pick<T, K>;
-  for (const key of propertyKeys) {
-    if (key in object) {
-      result[key] = object[key];
+export const pick: {
+  <T extends object, K extends keyof T>(object: T, propertyKeys: K[]): Pick<T, K>;
+  <T extends object, K extends keyof T>(propertyKeys: K[]): (object: T) => Pick<T, K>;
+} = createDualApi(
+  2,
+  <T extends object, K extends keyof T>(object: T, propertyKeys: K[]): Pick<T, K> => {
+    const result = {} as Pick<T, K>;
+    for (const key of propertyKeys) {
+      if (key in object) {
+        result[key] = object[key];
+      }
     }
+    return result;
   }
-  return result;
-}
+);
 
 /**
  * Omit specific properties from object
@@ -43,108 +64,212 @@ export function pick<T extends object, K extends keyof T>(
  * ```ts
  * omit({ a: 1, b: 2, c: 3 }, ['a'])
  * // { b: 2, c: 3 }
+ * omit<User, 'password'>(['password'])(user) // data-last
  * ```
  */
-export function omit<T extends object, K extends keyof T>(
-  object: T,
-  propertyKeys: K[]
-): Omit<T, K> {
-  const result = { ...object };
-  for (const key of propertyKeys) {
-    delete result[key];
+export const omit: {
+  <T extends object, K extends keyof T>(object: T, propertyKeys: K[]): Omit<T, K>;
+  <T extends object, K extends keyof T>(propertyKeys: K[]): (object: T) => Omit<T, K>;
+} = createDualApi(
+  2,
+  <T extends object, K extends keyof T>(object: T, propertyKeys: K[]): Omit<T, K> => {
+    const result = { ...object };
+    for (const key of propertyKeys) {
+      delete result[key];
+    }
+    return result;
   }
-  return result;
-}
+);
 
 /**
  * Safe deep property access with default value
  *
- * @template T - The type of the value
+ * String paths are checked against the object's type and the result type is
+ * inferred from the path. Paths held in `string` variables, or given with an
+ * explicit result type, return `unknown` or that type. Paths containing
+ * `__proto__`, `prototype` or `constructor` throw an `INVALID_ARGUMENT`
+ * UtilsError.
+ *
+ * A two-argument call whose second argument is a string or an array is always
+ * data-first, so `get(path, defaultValue)` only curries when the default is
+ * neither.
+ *
+ * @template T - The type of the object
+ * @template P - The property path
  * @param object - The object to access
- * @param path - Property path (dot-separated string or array of keys)
+ * @param path - Property path (`a.b`, `items[0].id` or an array of keys and indexes)
  * @param defaultValue - Value to return if path not found
  * @returns The value at path or defaultValue
  *
  * @example
  * ```ts
  * get({ a: { b: { c: 1 } } }, 'a.b.c') // 1
- * get({ a: 1 }, 'x.y', 42) // 42
+ * get({ items: [{ id: 7 }] }, 'items[0].id') // 7 (typed number | undefined)
+ * get(config, ['env', key], 'default') // runtime keys
+ * get<number>(config, path) // runtime string path with an explicit type
+ * get('a.b', 0)({ a: { b: 2 } }) // data-last: 2
  * ```
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function get<T = any>(object: any, path: string | string[], defaultValue?: T): T {
-  const pathKeys = Array.isArray(path) ? path : path.split('.');
+export const get: {
+  <T, P extends PathOf<T>>(object: T, path: P): PathResult<T, P>;
+  <T, P extends PathOf<T>, D>(
+    object: T,
+    path: P,
+    defaultValue: D
+  ): Exclude<PathResult<T, P>, undefined> | D;
+  <R = unknown, S extends string = string>(
+    object: unknown,
+    path: RuntimePath<S>,
+    defaultValue?: R
+  ): R;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  <R = any>(object: any, path: readonly PathSegment[], defaultValue?: R): R;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  let result: any = object;
+  <R = any>(path: PathInput): (object: any) => R;
+  <R = any>(
+    path: string,
+    defaultValue: R extends string | readonly unknown[] ? never : R
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ): (object: any) => R;
+} = createDualApi(
+  (args) =>
+    args.length >= 3 ||
+    (args.length === 2 && (typeof args[1] === 'string' || Array.isArray(args[1]))),
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  <R = any>(object: any, path: PathInput, defaultValue?: R): R => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let result: any = object;
 
-  for (const key of pathKeys) {
-    if (result === null || result === undefined) {
-      return defaultValue as T;
+    for (const key of toSafePathSegments(path)) {
+      if (result === null || result === undefined) {
+        return defaultValue as R;
+      }
+      result = result[key];
     }
-    result = result[key];
+
+    return result === undefined ? (defaultValue as R) : result;
   }
+);
 
-  return result === undefined ? (defaultValue as T) : result;
-}
+/**
+ * Deep property access that distinguishes a missing path from a stored
+ * `undefined` value
+ *
+ * @template T - The type of the value
+ * @param object - The object to access
+ * @param path - Property path (`a.b`, `items[0].id` or an array of keys and indexes)
+ * @returns `some(value)` when every segment exists, otherwise `none()`
+ *
+ * @example
+ * ```ts
+ * getOption({ a: { b: undefined } }, 'a.b') // { some: true, value: undefined }
+ * getOption({ a: {} }, 'a.b') // { some: false }
+ * getOption('a.b')({ a: { b: 1 } }) // data-last: { some: true, value: 1 }
+ * ```
+ */
+export const getOption: {
+  <T = unknown>(object: unknown, path: PathInput): Option<T>;
+  <T = unknown>(path: PathInput): (object: unknown) => Option<T>;
+} = createDualApi(2, <T = unknown>(object: unknown, path: PathInput): Option<T> => {
+  let current: unknown = object;
+
+  for (const key of toSafePathSegments(path)) {
+    if (current === null || (typeof current !== 'object' && typeof current !== 'function')) {
+      return none();
+    }
+    if (!(key in current)) {
+      return none();
+    }
+    current = (current as Record<PropertyKey, unknown>)[key];
+  }
+
+  return some(current as T);
+});
 
 /**
  * Safe deep property set
  *
- * @template T - The type of the value
+ * Missing containers are created: arrays for bracketed indexes, objects
+ * otherwise. Paths containing `__proto__`, `prototype` or `constructor` throw
+ * an `INVALID_ARGUMENT` UtilsError.
+ *
+ * @template T - The type of the object
+ * @template P - The property path
  * @param object - The object to mutate
- * @param path - Property path (dot-separated string or array of keys)
+ * @param path - Property path (`a.b`, `items[0].id` or an array of keys and indexes)
  * @param value - Value to set
  *
  * @example
  * ```ts
  * set({}, 'a.b.c', 1) // { a: { b: { c: 1 } } }
+ * set({}, 'items[0].id', 1) // { items: [{ id: 1 }] }
+ * set<number>(target, path, 1) // runtime string path
+ * set('a.b', 1)(target) // data-last
  * ```
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function set<T>(object: any, path: string | string[], value: T): void {
-  const pathKeys = Array.isArray(path) ? path : path.split('.');
-  const lastKey = pathKeys.pop();
+export const set: {
+  <T, P extends PathOf<T>>(object: T, path: P, value: PathResult<T, P>): void;
+  <V = unknown, S extends string = string>(object: unknown, path: RuntimePath<S>, value: V): void;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (object: any, path: readonly PathSegment[], value: unknown): void;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  <T>(path: PathInput, value: T): (object: any) => void;
+} = createDualApi(
+  3,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (object: any, path: PathInput, value: unknown): void => {
+    const pathKeys = toSafePathSegments(path);
+    const lastKey = pathKeys.pop();
 
-  if (!lastKey) {
-    return;
-  }
+    if (lastKey === undefined || lastKey === '') {
+      return;
+    }
 
-  let current = object;
-  for (const key of pathKeys) {
-    if (!(key in current) || typeof current[key] !== 'object') {
-      current[key] = {};
+    let current = object;
+    for (const [index, key] of pathKeys.entries()) {
+      if (current[key] === null || typeof current[key] !== 'object') {
+        current[key] = typeof (pathKeys[index + 1] ?? lastKey) === 'number' ? [] : {};
+      }
+      current = current[key];
     }
-    current = current[key];
-  }
 
-  current[lastKey] = value;
-}
+    current[lastKey] = value;
+  }
+);
 
 /**
  * Check if object has property at path
  *
+ * String literal paths are checked against the object's type like `get`;
+ * paths held in `string` variables and array paths are accepted as-is.
+ *
+ * @template T - The type of the object
  * @param object - The object to check
- * @param key - Property path (single key or array of keys)
+ * @param key - Property path (`a.b`, `items[0].id` or an array of keys and indexes)
  * @returns True if property exists at path
  *
  * @example
  * ```ts
  * has({ a: { b: 1 } }, 'a.b') // true
- * has({ a: 1 }, 'a.b') // false
+ * has(JSON.parse('{"a": 1}'), 'a.b') // false
+ * has(['a', 'b'])({ a: { b: 1 } }) // data-last: true
  * ```
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function has(object: any, key: string | string[]): boolean {
-  const pathKeys = Array.isArray(key) ? key : [key];
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  let current: any = object;
+export const has: {
+  <T, S extends string = string>(
+    object: T,
+    key: PathOf<T> | RuntimePath<S> | readonly PathSegment[]
+  ): boolean;
+  (key: PathInput): (object: unknown) => boolean;
+} = createDualApi(2, (object: unknown, key: PathInput): boolean => {
+  let current: unknown = object;
 
-  for (const k of pathKeys) {
-    if (current === null || current === undefined || !(k in current)) {
+  for (const segment of toSafePathSegments(key)) {
+    if (current === null || current === undefined || !(segment in Object(current))) {
       return false;
     }
-    current = current[k];
+    current = (current as Record<PropertyKey, unknown>)[segment];
   }
 
   return true;
-}
+});
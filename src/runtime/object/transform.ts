@@ -2,6 +2,8 @@
  * Object transformation utilities (mapKeys, mapValues, invert)
  */
 
+import { createDualApi } from '../internal/curry-helper.js';
+
 /**
  * Transform object keys
  *
@@ -14,18 +16,27 @@
  * ```ts
  * mapKeys({ a: 1, b: 2 }, (key) => key.toUpperCase())
  * // { A: 1, B: 2 }
+ * mapKeys((key) => `x-${key}`)({ a: 1 }) // data-last: { 'x-a': 1 }
  * ```
  */
-export function mapKeys<T>(
-  object: Record<string, T>,
-  function_: (key: string, value: T) => string
-): Record<string, T> {
-  const result: Record<string, T> = {};
-  for (const [key, value] of Object.entries(object)) {
-    result[function_(key, value)] = value;
+export const mapKeys: {
+  <T>(object: Record<string, T>, function_: (key: string, value: T) => string): Record<string, T>;
+  <T>(
+    function_: (key: string, value: T) => string
+  ): (object: Record<string, T>) => Record<string, T>;
+} = createDualApi(
+  2,
+  <T>(
+    object: Record<string, T>,
+    function_: (key: string, value: T) => string
+  ): Record<string, T> => {
+    const result: Record<string, T> = {};
+    for (const [key, value] of Object.entries(object)) {
+      result[function_(key, value)] = value;
+    }
+    return result;
   }
-  return result;
-}
+);
 
 /**
  * Transform object values
@@ -40,18 +51,22 @@ export function mapKeys<T>(
  * ```ts
  * mapValues({ a: 1, b: 2 }, (val) => val * 2)
  * // { a: 2, b: 4 }
+ * mapValues((val: number) => val * 2)({ a: 1 }) // data-last: { a: 2 }
  * ```
  */
-export function mapValues<T, R>(
-  object: Record<string, T>,
-  function_: (value: T, key: string) => R
-): Record<string, R> {
-  const result: Record<string, R> = {};
-  for (const [key, value] of Object.entries(object)) {
-    result[key] = function_(value, key);
+export const mapValues: {
+  <T, R>(object: Record<string, T>, function_: (value: T, key: string) => R): Record<string, R>;
+  <T, R>(function_: (value: T, key: string) => R): (object: Record<string, T>) => Record<string, R>;
+} = createDualApi(
+  2,
+  <T, R>(object: Record<string, T>, function_: (value: T, key: string) => R): Record<string, R> => {
+    const result: Record<string, R> = {};
+    for (const [key, value] of Object.entries(object)) {
+      result[key] = function_(value, key);
+    }
+    return result;
   }
-  return result;
-}
+);
 
 /**
  * Invert object keys and values
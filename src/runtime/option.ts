@@ -0,0 +1,126 @@
+/**
+ * Option helpers for values that may be absent.
+ */
+import type { None, Option, Some } from '../types/option.js';
+import type { Result } from '../types/result.js';
+import { err, ok } from './result.js';
+
+export type { None, Option, OptionValue, Some } from '../types/option.js';
+
+/**
+ * Handlers used by `matchOption` to fold an Option into a single value
+ */
+export type OptionMatcher<T, U> = {
+  some: (value: T) => U;
+  none: () => U;
+};
+
+const NONE: None = Object.freeze({ some: false as const });
+
+export const some = <T>(value: T): Option<T> => ({ some: true, value });
+
+export const none = <T = never>(): Option<T> => NONE;
+
+export const isSome = <T>(option: Option<T>): option is Some<T> => option.some;
+
+export const isNone = <T>(option: Option<T>): option is None => !option.some;
+
+/**
+ * Create an Option from a nullable value (`null` and `undefined` become `none`)
+ *
+ * @example
+ * ```ts
+ * fromNullable('a') // { some: true, value: 'a' }
+ * fromNullable(null) // { some: false }
+ * ```
+ */
+export function fromNullable<T>(value: T | null | undefined): Option<T> {
+  return value === null || value === undefined ? NONE : some(value);
+}
+
+/**
+ * Transform the value of a present Option
+ *
+ * @example
+ * ```ts
+ * mapOption(some(2), (value) => value * 2) // { some: true, value: 4 }
+ * ```
+ */
+export function mapOption<T, U>(option: Option<T>, function_: (value: T) => U): Option<U> {
+  return option.some ? some(function_(option.value)) : NONE;
+}
+
+/**
+ * Chain an Option-returning operation onto a present Option
+ *
+ * @example
+ * ```ts
+ * flatMapOption(some(user), (value) => fromNullable(value.manager))
+ * ```
+ */
+export function flatMapOption<T, U>(
+  option: Option<T>,
+  function_: (value: T) => Option<U>
+): Option<U> {
+  return option.some ? function_(option.value) : NONE;
+}
+
+/**
+ * Keep a present Option only when its value satisfies the predicate
+ *
+ * @example
+ * ```ts
+ * filterOption(some(3), (value) => value > 5) // { some: false }
+ * ```
+ */
+export function filterOption<T, S extends T>(
+  option: Option<T>,
+  predicate: (value: T) => value is S
+): Option<S>;
+export function filterOption<T>(option: Option<T>, predicate: (value: T) => boolean): Option<T>;
+export function filterOption<T>(option: Option<T>, predicate: (value: T) => boolean): Option<T> {
+  return option.some && predicate(option.value) ? option : NONE;
+}
+
+/**
+ * Extract the value of an Option or compute a fallback when absent
+ *
+ * @example
+ * ```ts
+ * getOrElse(none<number>(), () => 0) // 0
+ * ```
+ */
+export function getOrElse<T, U = T>(option: Option<T>, fallback: () => U): T | U {
+  return option.some ? option.value : fallback();
+}
+
+/**
+ * Fold an Option into a single value by handling both branches
+ *
+ * @example
+ * ```ts
+ * matchOption(option, { some: (value) => `got ${value}`, none: () => 'missing' });
+ * ```
+ */
+export function matchOption<T, U>(option: Option<T>, matcher: OptionMatcher<T, U>): U {
+  return option.some ? matcher.some(option.value) : matcher.none();
+}
+
+/**
+ * Convert an Option into a Result, using `error` when the value is absent
+ *
+ * @example
+ * ```ts
+ * toResult(getOption(config, 'db.url'), createUtilsError({ code: 'VALIDATION_ERROR', message: 'db.url missing' }))
+ * ```
+ */
+export function toResult<T, E = Error>(option: Option<T>, error: E): Result<T, E> {
+  return option.some ? ok(option.value) : err(error);
+}
+
+/**
+ * Convert a Result into an Option, discarding the error
+ */
+export function fromResult<T, E>(result: Result<T, E>): Option<T> {
+  return result.ok ? some(result.value) : NONE;
+}
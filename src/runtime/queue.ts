@@ -0,0 +1,341 @@
+/**
+ * Long-lived priority task queue with concurrency control
+ */
+
+import { timeout, type AbortOptions } from './async.js';
+import { createUtilsError } from './error.js';
+import { createAbortError, raceWithSignal } from './internal/abort.js';
+
+/**
+ * Task run by the queue. Receives a signal that aborts on timeout or when the
+ * caller's signal aborts. A timed out or aborted task rejects right away but
+ * keeps its concurrency slot until it settles, so tasks should honour the signal.
+ */
+export type QueueTask<T> = (signal: AbortSignal) => T | Promise<T>;
+
+/**
+ * Options for createQueue
+ */
+export type QueueOptions = {
+  /** Maximum tasks running at once (default: Infinity) */
+  concurrency?: number;
+  /** Start processing as soon as tasks are added (default: true) */
+  autoStart?: boolean;
+  /** Default per-task timeout in ms; timed out tasks reject with `TIMEOUT` */
+  timeout?: number;
+};
+
+/**
+ * Per-task options for Queue.add
+ */
+export type QueueAddOptions = {
+  /** Higher priorities run first; equal priorities run in insertion order (default: 0) */
+  priority?: number;
+  /** Per-task timeout in ms (overrides the queue default) */
+  timeout?: number;
+} & AbortOptions;
+
+/**
+ * Events emitted by a queue and their payloads
+ */
+export type QueueEventMap = {
+  /** A task was added to the waiting list */
+  add: { priority: number };
+  /** A task started running */
+  active: { priority: number };
+  /** A task resolved */
+  completed: { result: unknown };
+  /** A task rejected, timed out or was aborted */
+  error: { error: unknown };
+  /** The waiting list became empty */
+  empty: undefined;
+  /** No tasks are waiting or running */
+  idle: undefined;
+};
+
+/**
+ * Name of a queue event
+ */
+export type QueueEvent = keyof QueueEventMap;
+
+/**
+ * Priority task queue handle
+ */
+export type Queue = {
+  /** Add a task and resolve with its result */
+  add: <T>(task: QueueTask<T>, options?: QueueAddOptions) => Promise<T>;
+  /** Add several tasks with the same options */
+  addAll: <T>(tasks: Array<QueueTask<T>>, options?: QueueAddOptions) => Promise<T[]>;
+  /** Stop starting new tasks; running tasks continue */
+  pause: () => void;
+  /** Resume starting tasks */
+  resume: () => void;
+  /** Remove every waiting task, rejecting it with an `ABORTED` UtilsError */
+  clear: () => void;
+  /** Resolve once no tasks are waiting */
+  onEmpty: () => Promise<void>;
+  /** Resolve once no tasks are waiting or running */
+  onIdle: () => Promise<void>;
+  /**
+   * Subscribe to queue events; returns an unsubscribe function. Errors thrown
+   * by listeners are rethrown asynchronously and do not affect tasks.
+   */
+  on: <E extends QueueEvent>(event: E, listener: (payload: QueueEventMap[E]) => void) => () => void;
+  /** Number of waiting tasks */
+  readonly size: number;
+  /** Number of running tasks */
+  readonly pending: number;
+  readonly isPaused: boolean;
+};
+
+type QueueRun = {
+  /** Outcome reported to the caller, which may reject early on timeout or abort */
+  result: Promise<unknown>;
+  /** Promise for the task itself while it is still running */
+  unfinished: () => Promise<unknown> | undefined;
+};
+
+type QueueEntry = {
+  priority: number;
+  execute: () => QueueRun;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  dispose: () => void;
+};
+
+/**
+ * Create a bounded worker pool that runs tasks by priority.
+ *
+ * @example
+ * ```ts
+ * const queue = createQueue({ concurrency: 4, timeout: 30_000 });
+ * queue.on('error', ({ error }) => logger.warn('job failed', { error }));
+ *
+ * queue.add((signal) => sendEmail(message, { signal }));
+ * queue.add(() => rebuildIndex(), { priority: 10 });
+ * await queue.onIdle();
+ * ```
+ */
+export function createQueue(options: QueueOptions = {}): Queue {
+  const {
+    concurrency = Number.POSITIVE_INFINITY,
+    autoStart = true,
+    timeout: defaultTimeout,
+  } = options;
+
+  if (!(concurrency >= 1)) {
+    throw createUtilsError({
+      code: 'INVALID_ARGUMENT',
+      message: 'Queue concurrency must be at least 1',
+      details: { concurrency },
+    });
+  }
+
+  const waiting: QueueEntry[] = [];
+  const listeners = new Map<QueueEvent, Set<(payload: never) => void>>();
+  let emptyWaiters: Array<() => void> = [];
+  let idleWaiters: Array<() => void> = [];
+  let running = 0;
+  let paused = !autoStart;
+
+  const emit = <E extends QueueEvent>(event: E, payload: QueueEventMap[E]): void => {
+    for (const listener of listeners.get(event) ?? []) {
+      try {
+        (listener as (payload: QueueEventMap[E]) => void)(payload);
+      } catch (error) {
+        queueMicrotask(() => {
+          throw error;
+        });
+      }
+    }
+  };
+
+  const settleWaiters = (): void => {
+    if (waiting.length === 0 && emptyWaiters.length > 0) {
+      const resolvers = emptyWaiters;
+      emptyWaiters = [];
+      for (const resolve of resolvers) {
+        resolve();
+      }
+    }
+    if (waiting.length === 0 && running === 0 && idleWaiters.length > 0) {
+      const resolvers = idleWaiters;
+      idleWaiters = [];
+      for (const resolve of resolvers) {
+        resolve();
+      }
+    }
+  };
+
+  const next = (): void => {
+    while (!paused && running < concurrency) {
+      const entry = waiting.shift();
+      if (!entry) {
+        break;
+      }
+
+      running++;
+      entry.dispose();
+      emit('active', { priority: entry.priority });
+      if (waiting.length === 0) {
+        emit('empty', undefined);
+      }
+
+      void runEntry(entry);
+    }
+    settleWaiters();
+  };
+
+  const runEntry = async (entry: QueueEntry): Promise<void> => {
+    const { result, unfinished } = entry.execute();
+    let outcome: { ok: true; value: unknown } | { ok: false; error: unknown };
+    try {
+      outcome = { ok: true, value: await result };
+    } catch (error) {
+      outcome = { ok: false, error };
+    }
+
+    // Listeners run outside the try so that a throwing listener cannot fail the task
+    let settle: () => void;
+    if (outcome.ok) {
+      const { value } = outcome;
+      emit('completed', { result: value });
+      settle = () => entry.resolve(value);
+    } else {
+      const { error } = outcome;
+      emit('error', { error });
+      settle = () => entry.reject(error);
+    }
+
+    // A timed out or aborted task may still be running: reject its caller now but
+    // hold its slot until it settles, so that `concurrency` bounds the real work
+    const work = unfinished();
+    if (work) {
+      settle();
+      settle = () => undefined;
+      await work;
+    }
+
+    // Update counters before settling so callers awaiting the task observe the new state
+    running--;
+    if (waiting.length === 0 && running === 0) {
+      emit('idle', undefined);
+    }
+    settle();
+    settleWaiters();
+    next();
+  };
+
+  const insert = (entry: QueueEntry): void => {
+    // Binary search for the first entry with a lower priority to keep FIFO order within a priority
+    let low = 0;
+    let high = waiting.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if ((waiting[middle]?.priority ?? 0) >= entry.priority) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    waiting.splice(low, 0, entry);
+  };
+
+  const add = <T>(task: QueueTask<T>, addOptions: QueueAddOptions = {}): Promise<T> => {
+    const { priority = 0, timeout: ms = defaultTimeout, signal } = addOptions;
+
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError(signal));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = (): void => {
+        const index = waiting.indexOf(entry);
+        if (index !== -1) {
+          waiting.splice(index, 1);
+          reject(createAbortError(signal));
+          settleWaiters();
+        }
+      };
+
+      const execute = (): QueueRun => {
+        let work: Promise<unknown> | undefined;
+        const invoke = (taskSignal: AbortSignal): Promise<T> => {
+          const promise = (async () => task(taskSignal))();
+          const finish = (): void => {
+            work = undefined;
+          };
+          // eslint-disable-next-line promise/prefer-await-to-then
+          work = promise.then(finish, finish);
+          return promise;
+        };
+        const result =
+          ms === undefined
+            ? raceWithSignal(invoke(signal ?? new AbortController().signal), signal)
+            : timeout(invoke, ms, { signal });
+        return { result, unfinished: () => work };
+      };
+
+      const entry: QueueEntry = {
+        priority,
+        execute,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        dispose: () => signal?.removeEventListener('abort', onAbort),
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      insert(entry);
+      emit('add', { priority });
+      next();
+    });
+  };
+
+  const queue = {
+    add,
+    addAll: <T>(tasks: Array<QueueTask<T>>, addOptions?: QueueAddOptions) =>
+      Promise.all(tasks.map((task) => add(task, addOptions))),
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      if (paused) {
+        paused = false;
+        next();
+      }
+    },
+    clear: () => {
+      for (const entry of waiting.splice(0)) {
+        entry.dispose();
+        entry.reject(createAbortError());
+      }
+      settleWaiters();
+    },
+    onEmpty: () =>
+      waiting.length === 0
+        ? Promise.resolve()
+        : new Promise<void>((resolve) => {
+            emptyWaiters.push(resolve);
+          }),
+    onIdle: () =>
+      waiting.length === 0 && running === 0
+        ? Promise.resolve()
+        : new Promise<void>((resolve) => {
+            idleWaiters.push(resolve);
+          }),
+    on: <E extends QueueEvent>(event: E, listener: (payload: QueueEventMap[E]) => void) => {
+      const set = listeners.get(event) ?? new Set();
+      set.add(listener as (payload: never) => void);
+      listeners.set(event, set);
+      return () => {
+        set.delete(listener as (payload: never) => void);
+      };
+    },
+  };
+
+  return Object.defineProperties(queue, {
+    size: { get: () => waiting.length, enumerable: true },
+    pending: { get: () => running, enumerable: true },
+    isPaused: { get: () => paused, enumerable: true },
+  }) as Queue;
+}
@@ -0,0 +1,300 @@
+/**
+ * Rate limiting for function and async calls
+ */
+
+import { createUtilsError } from './error.js';
+import { createAbortError } from './internal/abort.js';
+
+/**
+ * Rate limiting algorithms
+ *
+ * - `token-bucket`: tokens refill continuously at `tokensPerInterval / interval`
+ *   up to `burst`, allowing short bursts above the average rate
+ * - `sliding-window`: at most `tokensPerInterval` weight may start within any
+ *   rolling `interval`
+ */
+export type RateLimitStrategy = 'token-bucket' | 'sliding-window';
+
+/**
+ * Options for rateLimit
+ */
+export type RateLimitOptions<TArguments extends unknown[] = unknown[]> = {
+  /** Tokens made available per interval */
+  tokensPerInterval: number;
+  /** Interval length in ms */
+  interval: number;
+  /** Maximum tokens the bucket can hold (default: `tokensPerInterval`; token bucket only) */
+  burst?: number;
+  /** Limiting algorithm (default: 'token-bucket') */
+  strategy?: RateLimitStrategy;
+  /** Queue excess calls until capacity frees up, or reject them immediately (default: 'queue') */
+  overflow?: 'queue' | 'reject';
+  /** Maximum queued calls before further calls are rejected (default: Infinity) */
+  maxQueue?: number;
+  /** Tokens consumed by a call, derived from its arguments (default: 1) */
+  weight?: number | ((...args: TArguments) => number);
+  /**
+   * Clock used to measure capacity; inject a fake in tests. Queued calls still
+   * wait with `setTimeout`
+   */
+  clock?: { now: () => number };
+};
+
+/**
+ * Per-call options for scheduling through a rate limiter
+ */
+export type RateLimitCallOptions = {
+  /** Tokens consumed by this call (overrides the limiter's `weight`) */
+  weight?: number;
+  /** Aborting removes the call from the queue and rejects it with `ABORTED` */
+  signal?: AbortSignal | undefined;
+};
+
+/**
+ * Rate-limited function with capacity inspection and controls
+ */
+export type RateLimitedFunction<TArguments extends unknown[], R> = ((
+  ...args: TArguments
+) => Promise<Awaited<R>>) & {
+  /** Call with a per-call weight and/or AbortSignal */
+  schedule: (options: RateLimitCallOptions, ...args: TArguments) => Promise<Awaited<R>>;
+  /** Tokens currently available */
+  readonly remaining: number;
+  /** Number of calls waiting for capacity */
+  readonly pending: number;
+  /** Reject every queued call with an `ABORTED` UtilsError */
+  clear: () => void;
+};
+
+type Limiter = {
+  available: (now: number) => number;
+  consume: (weight: number, now: number) => void;
+  /** Time in ms until `weight` tokens are available */
+  waitTime: (weight: number, now: number) => number;
+};
+
+type QueuedCall = {
+  weight: number;
+  start: () => void;
+  reject: (error: unknown) => void;
+  dispose: () => void;
+};
+
+function createTokenBucket(rate: number, capacity: number, startedAt: number): Limiter {
+  let tokens = capacity;
+  let lastRefill = startedAt;
+
+  const refill = (now: number): void => {
+    tokens = Math.min(capacity, tokens + (now - lastRefill) * rate);
+    lastRefill = now;
+  };
+
+  return {
+    available: (now) => {
+      refill(now);
+      return tokens;
+    },
+    consume: (weight, now) => {
+      refill(now);
+      tokens -= weight;
+    },
+    waitTime: (weight, now) => {
+      refill(now);
+      return tokens >= weight ? 0 : Math.ceil((weight - tokens) / rate);
+    },
+  };
+}
+
+function createSlidingWindow(limit: number, interval: number): Limiter {
+  let log: Array<{ time: number; weight: number }> = [];
+
+  const prune = (now: number): void => {
+    log = log.filter((entry) => now - entry.time < interval);
+  };
+
+  const used = (): number => log.reduce((total, entry) => total + entry.weight, 0);
+
+  return {
+    available: (now) => {
+      prune(now);
+      return limit - used();
+    },
+    consume: (weight, now) => {
+      prune(now);
+      log.push({ time: now, weight });
+    },
+    waitTime: (weight, now) => {
+      prune(now);
+      let available = limit - used();
+      for (const entry of log) {
+        if (available >= weight) {
+          break;
+        }
+        available += entry.weight;
+        if (available >= weight) {
+          return entry.time + interval - now;
+        }
+      }
+      return 0;
+    },
+  };
+}
+
+/**
+ * Limit how often a function may start.
+ *
+ * Calls beyond the available capacity are queued in FIFO order until tokens
+ * free up, or rejected with a UtilsError coded `RATE_LIMITED` (details include
+ * `retryAfter` in ms) when `overflow` is 'reject' or the queue is full. Use
+ * `schedule` to pass a per-call weight or an AbortSignal that cancels queued
+ * work.
+ *
+ * @example
+ * ```ts
+ * const search = rateLimit(api.search, { tokensPerInterval: 10, interval: 1000, burst: 20 });
+ * await search('kitium');
+ *
+ * // Heavier call, cancellable while queued
+ * await search.schedule({ weight: 5, signal: controller.signal }, 'bulk');
+ * search.remaining; // tokens left right now
+ * ```
+ */
+export function rateLimit<TArguments extends unknown[], R>(
+  function_: (...args: TArguments) => R,
+  options: RateLimitOptions<TArguments>
+): RateLimitedFunction<TArguments, R> {
+  const {
+    tokensPerInterval,
+    interval,
+    burst = tokensPerInterval,
+    strategy = 'token-bucket',
+    overflow = 'queue',
+    maxQueue = Number.POSITIVE_INFINITY,
+    weight: defaultWeight = 1,
+    clock = { now: () => Date.now() },
+  } = options;
+
+  if (!(tokensPerInterval > 0) || !(interval > 0) || !(burst > 0)) {
+    throw createUtilsError({
+      code: 'INVALID_ARGUMENT',
+      message: 'tokensPerInterval, interval and burst must be positive numbers',
+      details: { tokensPerInterval, interval, burst },
+    });
+  }
+
+  const capacity = strategy === 'token-bucket' ? burst : tokensPerInterval;
+  const limiter =
+    strategy === 'token-bucket'
+      ? createTokenBucket(tokensPerInterval / interval, capacity, clock.now())
+      : createSlidingWindow(tokensPerInterval, interval);
+
+  const invoke = async (args: TArguments): Promise<Awaited<R>> => await function_(...args);
+
+  const queue: QueuedCall[] = [];
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+
+  const drain = (): void => {
+    clearTimeout(timerId);
+    timerId = undefined;
+
+    let head = queue[0];
+    while (head) {
+      const now = clock.now();
+      const wait = limiter.waitTime(head.weight, now);
+      if (wait > 0) {
+        timerId = setTimeout(drain, wait);
+        return;
+      }
+
+      queue.shift();
+      head.dispose();
+      limiter.consume(head.weight, now);
+      head.start();
+      head = queue[0];
+    }
+  };
+
+  const resolveWeight = (args: TArguments, callOptions: RateLimitCallOptions): number => {
+    if (callOptions.weight !== undefined) {
+      return callOptions.weight;
+    }
+    return typeof defaultWeight === 'function' ? defaultWeight(...args) : defaultWeight;
+  };
+
+  // Async so that a throwing `weight` function rejects instead of throwing synchronously
+  const schedule = async (
+    callOptions: RateLimitCallOptions,
+    ...args: TArguments
+  ): Promise<Awaited<R>> => {
+    const { signal } = callOptions;
+    const weight = resolveWeight(args, callOptions);
+
+    if (signal?.aborted) {
+      throw createAbortError(signal);
+    }
+
+    if (!(weight >= 0) || weight > capacity) {
+      throw createUtilsError({
+        code: 'INVALID_ARGUMENT',
+        message: `Call weight must be between 0 and ${capacity}`,
+        details: { weight, capacity },
+      });
+    }
+
+    const now = clock.now();
+    if (queue.length === 0 && limiter.waitTime(weight, now) === 0) {
+      limiter.consume(weight, now);
+      return await invoke(args);
+    }
+
+    if (overflow === 'reject' || queue.length >= maxQueue) {
+      throw createUtilsError({
+        code: 'RATE_LIMITED',
+        message: 'Rate limit exceeded',
+        details: { weight, retryAfter: limiter.waitTime(weight, now), pending: queue.length },
+      });
+    }
+
+    return await new Promise<Awaited<R>>((resolve, reject) => {
+      const onAbort = (): void => {
+        const index = queue.indexOf(entry);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          reject(createAbortError(signal));
+          drain();
+        }
+      };
+
+      const entry: QueuedCall = {
+        weight,
+        start: () => resolve(invoke(args)),
+        reject,
+        dispose: () => signal?.removeEventListener('abort', onAbort),
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(entry);
+      if (queue.length === 1) {
+        drain();
+      }
+    });
+  };
+
+  const limited = (...args: TArguments): Promise<Awaited<R>> => schedule({}, ...args);
+
+  return Object.defineProperties(limited, {
+    schedule: { value: schedule },
+    remaining: { get: () => Math.max(0, limiter.available(clock.now())), enumerable: true },
+    pending: { get: () => queue.length, enumerable: true },
+    clear: {
+      value: () => {
+        clearTimeout(timerId);
+        timerId = undefined;
+        for (const entry of queue.splice(0)) {
+          entry.dispose();
+          entry.reject(createAbortError());
+        }
+      },
+    },
+  }) as RateLimitedFunction<TArguments, R>;
+}
@@ -1,16 +1,409 @@
 /**
  * Simple Result helper to provide standardized return semantics.
  */
-export type Result<T> = { ok: true; value: T } | { ok: false; error: Error };
+import type {
+  AsyncResult,
+  Failure,
+  Result,
+  ResultError,
+  ResultValue,
+  Success,
+} from '../types/result.js';
+import { createUtilsError, getErrorMessage } from './error.js';
+
+export type {
+  AsyncResult,
+  Failure,
+  Result,
+  ResultError,
+  ResultValue,
+  Success,
+} from '../types/result.js';
 
 export type ErrorStrategy = 'throw' | 'return';
 
-export const ok = <T>(value: T): Result<T> => ({ ok: true, value });
+/**
+ * Handlers used by `matchResult` to fold a Result into a single value
+ */
+export type ResultMatcher<T, E, U> = {
+  ok: (value: T) => U;
+  // eslint-disable-next-line unicorn/prevent-abbreviations
+  err: (error: E) => U;
+};
+
+export const ok = <T>(value: T): Result<T, never> => ({ ok: true, value });
+
+// eslint-disable-next-line unicorn/prevent-abbreviations
+export const err = <E = Error>(error: E): Result<never, E> => ({ ok: false, error });
+
+export const isOk = <T, E>(result: Result<T, E>): result is Success<T> => result.ok;
 
 // eslint-disable-next-line unicorn/prevent-abbreviations
-export const err = (error: Error): Result<never> => ({ ok: false, error });
+export const isErr = <T, E>(result: Result<T, E>): result is Failure<E> => !result.ok;
+
+/**
+ * Normalize an unknown thrown value into an Error
+ */
+function toError(error: unknown): Error {
+  if (error instanceof Error) {
+    return error;
+  }
 
-export const isOk = <T>(result: Result<T>): result is { ok: true; value: T } => result.ok;
+  return createUtilsError({
+    code: 'OPERATION_FAILED',
+    message: getErrorMessage(error),
+    cause: error,
+  });
+}
 
+/**
+ * Transform the value of a successful Result
+ *
+ * @example
+ * ```ts
+ * mapResult(ok(2), (value) => value * 2) // { ok: true, value: 4 }
+ * mapResult(err(new Error('boom')), (value) => value * 2) // unchanged
+ * ```
+ */
+export function mapResult<T, U, E = Error>(
+  result: Result<T, E>,
+  function_: (value: T) => U
+): Result<U, E> {
+  return result.ok ? ok(function_(result.value)) : result;
+}
+
+/**
+ * Transform the error of a failed Result
+ *
+ * @example
+ * ```ts
+ * mapErr(err(new Error('boom')), (error) => toDomainError(error)) // Result<never, DomainError>
+ * ```
+ */
 // eslint-disable-next-line unicorn/prevent-abbreviations
-export const isErr = <T>(result: Result<T>): result is { ok: false; error: Error } => !result.ok;
+export function mapErr<T, E, F>(result: Result<T, E>, function_: (error: E) => F): Result<T, F> {
+  return result.ok ? result : err(function_(result.error));
+}
+
+/**
+ * Chain a Result-returning operation onto a successful Result
+ *
+ * @example
+ * ```ts
+ * const parse = (input: string): Result<number> =>
+ *   Number.isNaN(Number(input)) ? err(new Error('NaN')) : ok(Number(input));
+ *
+ * andThen(ok('42'), parse) // { ok: true, value: 42 }
+ * ```
+ */
+export function andThen<T, U, E = Error, F = E>(
+  result: Result<T, E>,
+  function_: (value: T) => Result<U, F>
+): Result<U, E | F> {
+  return result.ok ? function_(result.value) : result;
+}
+
+/**
+ * Alias of `andThen`
+ */
+export const flatMapResult = andThen;
+
+/**
+ * Recover from a failed Result with another Result
+ *
+ * @example
+ * ```ts
+ * orElse(err(new Error('miss')), () => ok(fallback))
+ * ```
+ */
+export function orElse<T, E, U = T, F = E>(
+  result: Result<T, E>,
+  function_: (error: E) => Result<U, F>
+): Result<T | U, F> {
+  return result.ok ? result : function_(result.error);
+}
+
+/**
+ * Extract the value of a Result, throwing its error on failure
+ *
+ * @example
+ * ```ts
+ * unwrap(ok(1)) // 1
+ * unwrap(err(new Error('boom'))) // throws Error('boom')
+ * ```
+ */
+export function unwrap<T, E>(result: Result<T, E>): T {
+  if (result.ok) {
+    return result.value;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/only-throw-error
+  throw result.error;
+}
+
+/**
+ * Extract the value of a Result or return a default on failure
+ *
+ * @example
+ * ```ts
+ * unwrapOr(err(new Error('boom')), 0) // 0
+ * ```
+ */
+export function unwrapOr<T, E, U = T>(result: Result<T, E>, defaultValue: U): T | U {
+  return result.ok ? result.value : defaultValue;
+}
+
+/**
+ * Extract the value of a Result or compute a fallback from the error
+ *
+ * @example
+ * ```ts
+ * unwrapOrElse(err(new Error('boom')), (error) => error.message.length) // 4
+ * ```
+ */
+export function unwrapOrElse<T, E, U = T>(result: Result<T, E>, function_: (error: E) => U): T | U {
+  return result.ok ? result.value : function_(result.error);
+}
+
+/**
+ * Fold a Result into a single value by handling both branches
+ *
+ * @example
+ * ```ts
+ * matchResult(result, {
+ *   ok: (value) => `got ${value}`,
+ *   err: (error) => `failed: ${error.message}`,
+ * });
+ * ```
+ */
+export function matchResult<T, E, U>(result: Result<T, E>, matcher: ResultMatcher<T, E, U>): U {
+  return result.ok ? matcher.ok(result.value) : matcher.err(result.error);
+}
+
+/**
+ * Run a side effect on the value of a successful Result and return it unchanged
+ *
+ * @example
+ * ```ts
+ * tapResult(ok(user), (value) => logger.info('loaded', { id: value.id }));
+ * ```
+ */
+export function tapResult<T, E>(result: Result<T, E>, function_: (value: T) => void): Result<T, E> {
+  if (result.ok) {
+    function_(result.value);
+  }
+  return result;
+}
+
+/**
+ * Run a side effect on the error of a failed Result and return it unchanged
+ */
+// eslint-disable-next-line unicorn/prevent-abbreviations
+export function tapErr<T, E>(result: Result<T, E>, function_: (error: E) => void): Result<T, E> {
+  if (!result.ok) {
+    function_(result.error);
+  }
+  return result;
+}
+
+/**
+ * Combine an array (or tuple) or record of Results into a single Result.
+ * Short-circuits on the first failure.
+ *
+ * @example
+ * ```ts
+ * combine([ok(1), ok('a')]) // { ok: true, value: [1, 'a'] }
+ * combine({ id: ok(1), name: ok('a') }) // { ok: true, value: { id: 1, name: 'a' } }
+ * combine([ok(1), err(new Error('boom'))]) // { ok: false, error: Error('boom') }
+ * ```
+ */
+export function combine<const R extends ReadonlyArray<Result<unknown, unknown>>>(
+  results: R
+): Result<{ -readonly [K in keyof R]: ResultValue<R[K]> }, ResultError<R[number]>>;
+export function combine<R extends Record<string, Result<unknown, unknown>>>(
+  results: R
+): Result<{ [K in keyof R]: ResultValue<R[K]> }, ResultError<R[keyof R]>>;
+export function combine(
+  results: ReadonlyArray<Result<unknown, unknown>> | Record<string, Result<unknown, unknown>>
+): Result<unknown, unknown> {
+  if (Array.isArray(results)) {
+    const values: unknown[] = [];
+    for (const result of results as ReadonlyArray<Result<unknown, unknown>>) {
+      if (!result.ok) {
+        return result;
+      }
+      values.push(result.value);
+    }
+    return ok(values);
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const [key, result] of Object.entries(results)) {
+    if (!result.ok) {
+      return result;
+    }
+    values[key] = result.value;
+  }
+  return ok(values);
+}
+
+/**
+ * Wrap a throwing function so that it returns a Result instead.
+ * Non-Error throws become a `UtilsError` with code `OPERATION_FAILED` unless
+ * `mapError` is provided. A custom error type requires `mapError`; without it
+ * the error channel is `Error`.
+ *
+ * @example
+ * ```ts
+ * const safeParse = fromThrowable(JSON.parse);
+ * safeParse('{"a":1}') // { ok: true, value: { a: 1 } }
+ * safeParse('{') // { ok: false, error: SyntaxError }
+ *
+ * const parseConfig = fromThrowable(loadConfig, (error) => new ConfigError(error));
+ * ```
+ */
+export function fromThrowable<TArguments extends unknown[], R>(
+  function_: (...args: TArguments) => R
+): (...args: TArguments) => Result<R, Error>;
+export function fromThrowable<TArguments extends unknown[], R, E>(
+  function_: (...args: TArguments) => R,
+  mapError: (error: unknown) => E
+): (...args: TArguments) => Result<R, E>;
+export function fromThrowable<TArguments extends unknown[], R, E>(
+  function_: (...args: TArguments) => R,
+  mapError: (error: unknown) => E | Error = toError
+): (...args: TArguments) => Result<R, E | Error> {
+  return (...args: TArguments) => {
+    try {
+      return ok(function_(...args));
+    } catch (error) {
+      return err(mapError(error));
+    }
+  };
+}
+
+/**
+ * Convert a promise into an AsyncResult that never rejects. Like
+ * `fromThrowable`, a custom error type requires `mapError`.
+ *
+ * @example
+ * ```ts
+ * const result = await fromPromise(fetch(url));
+ * if (!result.ok) console.warn(result.error);
+ * ```
+ */
+export function fromPromise<T>(promise: PromiseLike<T>): AsyncResult<T, Error>;
+export function fromPromise<T, E>(
+  promise: PromiseLike<T>,
+  mapError: (error: unknown) => E
+): AsyncResult<T, E>;
+export async function fromPromise<T, E>(
+  promise: PromiseLike<T>,
+  mapError: (error: unknown) => E | Error = toError
+): AsyncResult<T, E | Error> {
+  try {
+    return ok(await promise);
+  } catch (error) {
+    return err(mapError(error));
+  }
+}
+
+/**
+ * Async variant of `mapResult` accepting Result or AsyncResult inputs
+ */
+export async function mapResultAsync<T, U, E = Error>(
+  result: Result<T, E> | AsyncResult<T, E>,
+  function_: (value: T) => U | Promise<U>
+): AsyncResult<U, E> {
+  const resolved = await result;
+  return resolved.ok ? ok(await function_(resolved.value)) : resolved;
+}
+
+/**
+ * Async variant of `mapErr` accepting Result or AsyncResult inputs
+ */
+// eslint-disable-next-line unicorn/prevent-abbreviations
+export async function mapErrAsync<T, E, F>(
+  result: Result<T, E> | AsyncResult<T, E>,
+  function_: (error: E) => F | Promise<F>
+): AsyncResult<T, F> {
+  const resolved = await result;
+  return resolved.ok ? resolved : err(await function_(resolved.error));
+}
+
+/**
+ * Async variant of `andThen` accepting Result or AsyncResult inputs
+ *
+ * @example
+ * ```ts
+ * const user = await andThenAsync(fromPromise(fetchUserId()), (id) => fromPromise(loadUser(id)));
+ * ```
+ */
+export async function andThenAsync<T, U, E = Error, F = E>(
+  result: Result<T, E> | AsyncResult<T, E>,
+  function_: (value: T) => Result<U, F> | AsyncResult<U, F>
+): AsyncResult<U, E | F> {
+  const resolved = await result;
+  return resolved.ok ? function_(resolved.value) : resolved;
+}
+
+/**
+ * Async variant of `orElse` accepting Result or AsyncResult inputs
+ */
+export async function orElseAsync<T, E, U = T, F = E>(
+  result: Result<T, E> | AsyncResult<T, E>,
+  function_: (error: E) => Result<U, F> | AsyncResult<U, F>
+): AsyncResult<T | U, F> {
+  const resolved = await result;
+  return resolved.ok ? resolved : function_(resolved.error);
+}
+
+/**
+ * Async variant of `unwrapOrElse` accepting Result or AsyncResult inputs
+ */
+export async function unwrapOrElseAsync<T, E, U = T>(
+  result: Result<T, E> | AsyncResult<T, E>,
+  function_: (error: E) => U | Promise<U>
+): Promise<T | U> {
+  const resolved = await result;
+  return resolved.ok ? resolved.value : function_(resolved.error);
+}
+
+/**
+ * Async variant of `matchResult` accepting Result or AsyncResult inputs
+ */
+export async function matchResultAsync<T, E, U>(
+  result: Result<T, E> | AsyncResult<T, E>,
+  matcher: ResultMatcher<T, E, U | Promise<U>>
+): Promise<U> {
+  const resolved = await result;
+  return resolved.ok ? matcher.ok(resolved.value) : matcher.err(resolved.error);
+}
+
+/**
+ * Async variant of `tapResult`; awaits the side effect before resolving
+ */
+export async function tapResultAsync<T, E>(
+  result: Result<T, E> | AsyncResult<T, E>,
+  function_: (value: T) => void | Promise<void>
+): AsyncResult<T, E> {
+  const resolved = await result;
+  if (resolved.ok) {
+    await function_(resolved.value);
+  }
+  return resolved;
+}
+
+/**
+ * Async variant of `combine`; awaits all inputs concurrently, then combines
+ *
+ * @example
+ * ```ts
+ * const result = await combineAsync([fromPromise(loadUser()), fromPromise(loadOrders())]);
+ * ```
+ */
+export async function combineAsync<T, E = Error>(
+  results: Array<Result<T, E> | AsyncResult<T, E>>
+): AsyncResult<T[], E> {
+  return combine(await Promise.all(results)) as Result<T[], E>;
+}
@@ -0,0 +1,311 @@
+/**
+ * Composable schema validation built on the validation guards
+ */
+
+import type { Simplify } from '../types/utility.js';
+import { createUtilsError, type UtilsError } from './error.js';
+import { err, ok, type Result } from './result.js';
+import { isEmail, isUrl } from './string/query.js';
+import {
+  isArray,
+  isBoolean,
+  isDate,
+  isInteger,
+  isNumber,
+  isObject,
+  isString,
+} from './validation.js';
+
+/**
+ * Location of a value inside the validated input
+ */
+export type SchemaPath = Array<string | number>;
+
+/**
+ * A single validation failure
+ */
+export type SchemaIssue = {
+  path: SchemaPath;
+  message: string;
+};
+
+/**
+ * Validator for values of type `T`. `Input` is the type of the values it
+ * accepts, which differs from `T` once the schema has a `transform`.
+ */
+export type Schema<T, Input = T> = {
+  /** Validate and return the (transformed) value or a `VALIDATION_ERROR` listing every issue */
+  safeParse(value: unknown): Result<T, UtilsError>;
+  /** Validate and return the (transformed) value, throwing a `VALIDATION_ERROR` on failure */
+  parse(value: unknown): T;
+  /** Type guard form of `safeParse`; narrows to the accepted `Input` type, not the transformed `T` */
+  is(value: unknown): value is Input;
+  /** Low-level validation used to compose schemas; reports issues relative to `path` */
+  validate(value: unknown, path?: SchemaPath): Result<T, SchemaIssue[]>;
+  /** Also accept `undefined` */
+  optional(): Schema<T | undefined, Input | undefined>;
+  /** Also accept `null` */
+  nullable(): Schema<T | null, Input | null>;
+  /** Add a check on the validated value */
+  refine(predicate: (value: T) => boolean, message: string): Schema<T, Input>;
+  /** Map the validated value to a new value */
+  transform<U>(function_: (value: T) => U): Schema<U, Input>;
+};
+
+/**
+ * Static type produced by a schema
+ *
+ * @example
+ * ```ts
+ * const User = s.object({ id: s.number(), email: s.email() });
+ * type User = Infer<typeof User>; // { id: number; email: string }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type Infer<S> = S extends Schema<infer T, any> ? T : never;
+
+/**
+ * Type of the values a schema accepts, before any `transform`
+ *
+ * @example
+ * ```ts
+ * const CreatedAt = s.string().transform((value) => new Date(value));
+ * type Raw = InferInput<typeof CreatedAt>; // string
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type InferInput<S> = S extends Schema<any, infer I> ? I : never;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnySchema = Schema<any, any>;
+
+type ObjectShape = Record<string, AnySchema>;
+
+type OptionalKeys<S extends ObjectShape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type InferObject<S extends ObjectShape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+    [K in OptionalKeys<S>]?: Infer<S[K]>;
+  }
+>;
+
+type OptionalInputKeys<S extends ObjectShape> = {
+  [K in keyof S]: undefined extends InferInput<S[K]> ? K : never;
+}[keyof S];
+
+type InferObjectInput<S extends ObjectShape> = Simplify<
+  { [K in Exclude<keyof S, OptionalInputKeys<S>>]: InferInput<S[K]> } & {
+    [K in OptionalInputKeys<S>]?: InferInput<S[K]>;
+  }
+>;
+
+type Literal = string | number | boolean | bigint | null | undefined;
+
+function formatPath(path: SchemaPath): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`
+    )
+    .join('');
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function createSchema<T, Input = T>(
+  validate: (value: unknown, path: SchemaPath) => Result<T, SchemaIssue[]>
+): Schema<T, Input> {
+  const schema: Schema<T, Input> = {
+    validate: (value, path = []) => validate(value, path),
+    safeParse: (value) => {
+      const result = validate(value, []);
+      if (result.ok) {
+        return result;
+      }
+
+      const issues = result.error.map((issue) => ({ ...issue, path: formatPath(issue.path) }));
+      const [first] = issues;
+      return err(
+        createUtilsError({
+          code: 'VALIDATION_ERROR',
+          message:
+            first && first.path !== ''
+              ? `Validation failed at ${first.path}: ${first.message}`
+              : `Validation failed: ${first?.message ?? 'invalid value'}`,
+          details: { issues },
+        })
+      );
+    },
+    parse: (value) => {
+      const result = schema.safeParse(value);
+      if (!result.ok) {
+        throw result.error;
+      }
+      return result.value;
+    },
+    is: (value): value is Input => validate(value, []).ok,
+    optional: () =>
+      createSchema<T | undefined, Input | undefined>((value, path) =>
+        value === undefined ? ok(undefined) : validate(value, path)
+      ),
+    nullable: () =>
+      createSchema<T | null, Input | null>((value, path) =>
+        value === null ? ok(null) : validate(value, path)
+      ),
+    refine: (predicate, message) =>
+      createSchema<T, Input>((value, path) => {
+        const result = validate(value, path);
+        if (!result.ok || predicate(result.value)) {
+          return result;
+        }
+        return err([{ path, message }]);
+      }),
+    transform: <U>(function_: (value: T) => U) =>
+      createSchema<U, Input>((value, path) => {
+        const result = validate(value, path);
+        return result.ok ? ok(function_(result.value)) : result;
+      }),
+  };
+  return schema;
+}
+
+function fromGuard<T>(guard: (value: unknown) => value is T, expected: string): Schema<T> {
+  return createSchema((value, path) =>
+    guard(value)
+      ? ok(value)
+      : err([{ path, message: `Expected ${expected}, received ${describeValue(value)}` }])
+  );
+}
+
+function fromStringCheck(check: (value: string) => boolean, expected: string): Schema<string> {
+  return createSchema((value, path) => {
+    if (!isString(value)) {
+      return err([{ path, message: `Expected ${expected}, received ${describeValue(value)}` }]);
+    }
+    return check(value) ? ok(value) : err([{ path, message: `Expected ${expected}` }]);
+  });
+}
+
+function objectSchema<S extends ObjectShape>(
+  shape: S
+): Schema<InferObject<S>, InferObjectInput<S>> {
+  return createSchema((value, path) => {
+    if (!isObject(value)) {
+      return err([{ path, message: `Expected object, received ${describeValue(value)}` }]);
+    }
+
+    const input = value as Record<string, unknown>;
+    const output: Record<string, unknown> = {};
+    const issues: SchemaIssue[] = [];
+    for (const [key, field] of Object.entries(shape)) {
+      const result = field.validate(input[key], [...path, key]);
+      if (!result.ok) {
+        issues.push(...result.error);
+      } else if (result.value !== undefined || key in input) {
+        output[key] = result.value;
+      }
+    }
+
+    return issues.length > 0 ? err(issues) : ok(output as InferObject<S>);
+  });
+}
+
+function arraySchema<T, Input>(item: Schema<T, Input>): Schema<T[], Input[]> {
+  return createSchema((value, path) => {
+    if (!isArray<unknown>(value)) {
+      return err([{ path, message: `Expected array, received ${describeValue(value)}` }]);
+    }
+
+    const output: T[] = [];
+    const issues: SchemaIssue[] = [];
+    for (const [index, element] of value.entries()) {
+      const result = item.validate(element, [...path, index]);
+      if (result.ok) {
+        output.push(result.value);
+      } else {
+        issues.push(...result.error);
+      }
+    }
+
+    return issues.length > 0 ? err(issues) : ok(output);
+  });
+}
+
+function unionSchema<S extends [AnySchema, ...AnySchema[]]>(
+  ...options: S
+): Schema<Infer<S[number]>, InferInput<S[number]>> {
+  return createSchema((value, path) => {
+    for (const option of options) {
+      const result = option.validate(value, path);
+      if (result.ok) {
+        return result;
+      }
+    }
+    return err([{ path, message: `Value does not match any of ${options.length} union members` }]);
+  });
+}
+
+function literalSchema<const L extends Literal>(...values: [L, ...L[]]): Schema<L> {
+  return createSchema((value, path) =>
+    values.some((candidate) => Object.is(candidate, value))
+      ? ok(value as L)
+      : err([
+          {
+            path,
+            message: `Expected ${values.map((candidate) => (typeof candidate === 'string' ? JSON.stringify(candidate) : String(candidate))).join(' | ')}`,
+          },
+        ])
+  );
+}
+
+/**
+ * Schema builders.
+ *
+ * Schemas validate unknown input, infer their static type and collect every
+ * failing field. `safeParse` returns a `Result` whose `VALIDATION_ERROR` lists
+ * the issues as `{ path, message }` in `details.issues`, with paths such as
+ * `items[0].id`. Object schemas drop unknown keys.
+ *
+ * @example
+ * ```ts
+ * const User = s.object({
+ *   id: s.integer().refine((id) => id > 0, 'Expected a positive id'),
+ *   email: s.email().transform((email) => email.toLowerCase()),
+ *   role: s.literal('admin', 'member'),
+ *   tags: s.array(s.string()).optional(),
+ * });
+ *
+ * const result = User.safeParse(body);
+ * if (!result.ok) {
+ *   console.warn(result.error.details?.issues);
+ * }
+ * ```
+ */
+export const s = {
+  string: (): Schema<string> => fromGuard(isString, 'string'),
+  /** Numbers other than NaN */
+  number: (): Schema<number> => fromGuard(isNumber, 'number'),
+  integer: (): Schema<number> => fromGuard(isInteger, 'integer'),
+  boolean: (): Schema<boolean> => fromGuard(isBoolean, 'boolean'),
+  /** `Date` instances, matching `isDate` */
+  date: (): Schema<Date> => fromGuard(isDate, 'date'),
+  /** Strings accepted by `isEmail` */
+  email: (): Schema<string> => fromStringCheck(isEmail, 'email address'),
+  /** Strings accepted by `isUrl` */
+  url: (): Schema<string> => fromStringCheck(isUrl, 'URL'),
+  unknown: (): Schema<unknown> => createSchema((value) => ok(value)),
+  literal: literalSchema,
+  object: objectSchema,
+  array: arraySchema,
+  union: unionSchema,
+  optional: <T, Input>(schema: Schema<T, Input>): Schema<T | undefined, Input | undefined> =>
+    schema.optional(),
+  nullable: <T, Input>(schema: Schema<T, Input>): Schema<T | null, Input | null> =>
+    schema.nullable(),
+};
@@ -2,6 +2,8 @@
  * String query and validation utilities
  */
 
+import { createDualApi } from '../internal/curry-helper.js';
+
 /**
  * Check if string is empty or only whitespace
  *
@@ -30,9 +32,13 @@ export function isEmptyString(string_: string): boolean {
  * ```ts
  * countOccurrences('hello hello', 'hello') // 2
  * countOccurrences('aaa', 'aa') // 2
+ * countOccurrences('l')('hello') // data-last: 2
  * ```
  */
-export function countOccurrences(string_: string, search: string): number {
+export const countOccurrences: {
+  (string_: string, search: string): number;
+  (search: string): (string_: string) => number;
+} = createDualApi(2, (string_: string, search: string): number => {
   if (search.length === 0) {
     return 0;
   }
@@ -43,7 +49,7 @@ export function countOccurrences(string_: string, search: string): number {
     pos += search.length;
   }
   return count;
-}
+});
 
 /**
  * Check if string contains only alphanumeric characters
@@ -2,6 +2,8 @@
  * String transformation utilities
  */
 
+import { createDualApi } from '../internal/curry-helper.js';
+
 /**
  * Truncate string to length with suffix
  *
@@ -14,14 +16,21 @@
  * ```ts
  * truncate('hello world', 8) // 'hello...'
  * truncate('hello', 10) // 'hello'
+ * truncate(8)('hello world') // data-last: 'hello...'
  * ```
  */
-export function truncate(string_: string, length: number, suffix = '...'): string {
-  if (string_.length <= length) {
-    return string_;
+export const truncate: {
+  (string_: string, length: number, suffix?: string): string;
+  (length: number, suffix?: string): (string_: string) => string;
+} = createDualApi(
+  (args) => typeof args[0] === 'string',
+  (string_: string, length: number, suffix = '...'): string => {
+    if (string_.length <= length) {
+      return string_;
+    }
+    return string_.slice(0, length - suffix.length) + suffix;
   }
-  return string_.slice(0, length - suffix.length) + suffix;
-}
+);
 
 /**
  * Pad string to length with character (centered)
@@ -35,14 +44,21 @@ export function truncate(string_: string, length: number, suffix = '...'): strin
  * ```ts
  * pad('hello', 10) // '  hello   '
  * pad('hello', 10, '*') // '**hello***'
+ * pad(7, '*')('hello') // data-last: '*hello*'
  * ```
  */
-export function pad(string_: string, length: number, char = ' '): string {
-  const padLength = Math.max(0, length - string_.length);
-  const padLeft = Math.floor(padLength / 2);
-  const padRight = padLength - padLeft;
-  return char.repeat(padLeft) + string_ + char.repeat(padRight);
-}
+export const pad: {
+  (string_: string, length: number, char?: string): string;
+  (length: number, char?: string): (string_: string) => string;
+} = createDualApi(
+  (args) => typeof args[0] === 'string',
+  (string_: string, length: number, char = ' '): string => {
+    const padLength = Math.max(0, length - string_.length);
+    const padLeft = Math.floor(padLength / 2);
+    const padRight = padLength - padLeft;
+    return char.repeat(padLeft) + string_ + char.repeat(padRight);
+  }
+);
 
 /**
  * Pad start of string
@@ -56,11 +72,18 @@ export function pad(string_: string, length: number, char = ' '): string {
  * ```ts
  * padStart('hello', 10) // '     hello'
  * padStart('5', 3, '0') // '005'
+ * padStart(3, '0')('5') // data-last: '005'
  * ```
  */
-export function padStart(string_: string, length: number, char = ' '): string {
-  return string_.padStart(length, char);
-}
+export const padStart: {
+  (string_: string, length: number, char?: string): string;
+  (length: number, char?: string): (string_: string) => string;
+} = createDualApi(
+  (args) => typeof args[0] === 'string',
+  (string_: string, length: number, char = ' '): string => {
+    return string_.padStart(length, char);
+  }
+);
 
 /**
  * Pad end of string
@@ -74,11 +97,18 @@ export function padStart(string_: string, length: number, char = ' '): string {
  * ```ts
  * padEnd('hello', 10) // 'hello     '
  * padEnd('5', 3, '0') // '500'
+ * padEnd(3, '0')('5') // data-last: '500'
  * ```
  */
-export function padEnd(string_: string, length: number, char = ' '): string {
-  return string_.padEnd(length, char);
-}
+export const padEnd: {
+  (string_: string, length: number, char?: string): string;
+  (length: number, char?: string): (string_: string) => string;
+} = createDualApi(
+  (args) => typeof args[0] === 'string',
+  (string_: string, length: number, char = ' '): string => {
+    return string_.padEnd(length, char);
+  }
+);
 
 /**
  * Remove prefix from string
@@ -91,11 +121,15 @@ export function padEnd(string_: string, length: number, char = ' '): string {
  * ```ts
  * removePrefix('hello world', 'hello ') // 'world'
  * removePrefix('hello', 'xyz') // 'hello'
+ * removePrefix('hello ')('hello world') // data-last: 'world'
  * ```
  */
-export function removePrefix(string_: string, prefix: string): string {
+export const removePrefix: {
+  (string_: string, prefix: string): string;
+  (prefix: string): (string_: string) => string;
+} = createDualApi(2, (string_: string, prefix: string): string => {
   return string_.startsWith(prefix) ? string_.slice(prefix.length) : string_;
-}
+});
 
 /**
  * Remove suffix from string
@@ -108,11 +142,15 @@ export function removePrefix(string_: string, prefix: string): string {
  * ```ts
  * removeSuffix('hello.txt', '.txt') // 'hello'
  * removeSuffix('hello', '.txt') // 'hello'
+ * removeSuffix('.txt')('hello.txt') // data-last: 'hello'
  * ```
  */
-export function removeSuffix(string_: string, suffix: string): string {
+export const removeSuffix: {
+  (string_: string, suffix: string): string;
+  (suffix: string): (string_: string) => string;
+} = createDualApi(2, (string_: string, suffix: string): string => {
   return string_.endsWith(suffix) ? string_.slice(0, -suffix.length) : string_;
-}
+});
 
 /**
  * Reverse string
@@ -5,5 +5,7 @@
 export * from './array.js';
 export * from './branded.js';
 export * from './conditionals.js';
+export * from './option.js';
+export * from './result.js';
 export * from './template.js';
 export * from './utility.js';
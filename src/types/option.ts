@@ -0,0 +1,30 @@
+/**
+ * Option types shared by the type utilities and runtime helpers.
+ * `src/runtime/option.ts` re-exports these alongside the constructors.
+ */
+
+/**
+ * Present branch of an Option
+ */
+export type Some<T> = { some: true; value: T };
+
+/**
+ * Absent branch of an Option
+ */
+export type None = { some: false };
+
+/**
+ * Optional value container that distinguishes "absent" from a stored
+ * `undefined` or `null`
+ *
+ * @example
+ * ```ts
+ * type MaybeUser = Option<User>;
+ * ```
+ */
+export type Option<T> = Some<T> | None;
+
+/**
+ * Value type carried by a present Option
+ */
+export type OptionValue<O> = O extends Some<infer T> ? T : never;
@@ -1,6 +1,37 @@
 /**
- * Result type to mirror runtime helpers.
+ * Result types shared by the type utilities and runtime helpers.
+ * `src/runtime/result.ts` re-exports these so there is a single definition.
  */
-export type Result<T> = { ok: true; value: T } | { ok: false; error: Error };
 
-export type AsyncResult<T> = Promise<Result<T>>;
+/**
+ * Successful branch of a Result
+ */
+export type Success<T> = { ok: true; value: T };
+
+/**
+ * Failed branch of a Result
+ */
+export type Failure<E = Error> = { ok: false; error: E };
+
+/**
+ * Result with a typed error channel (defaults to `Error`)
+ *
+ * @example
+ * ```ts
+ * type LoadUser = Result<User, UtilsError>;
+ * type Parsed = Result<number, 'EMPTY' | 'NAN'>;
+ * ```
+ */
+export type Result<T, E = Error> = Success<T> | Failure<E>;
+
+export type AsyncResult<T, E = Error> = Promise<Result<T, E>>;
+
+/**
+ * Value type carried by a successful Result
+ */
+export type ResultValue<R> = R extends Success<infer T> ? T : never;
+
+/**
+ * Error type carried by a failed Result
+ */
+export type ResultError<R> = R extends Failure<infer E> ? E : never;
@@ -43,14 +43,43 @@ export type Mutable<T> = {
 export type Merge<A, B> = Omit<A, keyof B> & B;
 
 /**
- * Deep merge two types
+ * Objects that MergeDeep replaces instead of merging
  */
-export type MergeDeep<A, B> = {
+type MergeLeaf =
+  | readonly unknown[]
+  | ((...args: never[]) => unknown)
+  | Date
+  | RegExp
+  | ReadonlyMap<unknown, unknown>
+  | ReadonlySet<unknown>;
+
+/**
+ * Array merged from A and B: B's array with `replace`, otherwise an array of
+ * either side's items
+ */
+type MergeArray<A, B, Arrays> = Arrays extends 'combine'
+  ? A extends readonly unknown[]
+    ? B extends readonly unknown[]
+      ? Array<A[number] | B[number]>
+      : B
+    : B
+  : B;
+
+/**
+ * Deep merge two types; arrays, functions, Dates, RegExps, Maps and Sets from
+ * B replace those in A. With `Arrays` set to `'combine'` (concat, union and
+ * merge strategies) arrays hold the items of both instead.
+ */
+export type MergeDeep<A, B, Arrays extends 'replace' | 'combine' = 'replace'> = {
   [K in keyof A | keyof B]: K extends keyof B
     ? K extends keyof A
       ? A[K] extends object
         ? B[K] extends object
-          ? MergeDeep<A[K], B[K]>
+          ? A[K] extends MergeLeaf
+            ? MergeArray<A[K], B[K], Arrays>
+            : B[K] extends MergeLeaf
+              ? B[K]
+              : MergeDeep<A[K], B[K], Arrays>
           : B[K]
         : B[K]
       : B[K]
@@ -154,3 +183,177 @@ export type DiffKeys<A, B> = Exclude<keyof A, keyof B> | Exclude<keyof B, keyof
  * Extract properties that exist in both types
  */
 export type Intersection<A, B> = Pick<A, Extract<keyof A, keyof B>>;
+
+/**
+ * Values that property paths do not descend into
+ */
+type PathLeaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | ReadonlyMap<unknown, unknown>
+  | ReadonlySet<unknown>
+  | Promise<unknown>
+  | ((...args: never[]) => unknown);
+
+type PathDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+type JoinPath<K extends string, P extends string> = P extends `[${string}`
+  ? `${K}${P}`
+  : `${K}.${P}`;
+
+/**
+ * Every property path into T, in dot (`items.0.id`) and bracket (`items[0].id`)
+ * notation. Stops at 8 levels to keep recursive types finite.
+ *
+ * @example
+ * ```ts
+ * type UserPath = Path<{ profile: { city: string }; tags: string[] }>;
+ * // 'profile' | 'profile.city' | 'tags' | `tags.${number}` | `tags[${number}]`
+ * ```
+ */
+export type Path<T, D extends number = 8> = [D] extends [never]
+  ? never
+  : T extends PathLeaf
+    ? never
+    : T extends readonly (infer E)[]
+      ? | `${number}`
+        | `[${number}]`
+        | JoinPath<`${number}` | `[${number}]`, Path<NonNullable<E>, PathDepth[D]>>
+      : {
+          [K in keyof T & (string | number)]-?:
+            `${K}` | JoinPath<`${K}`, Path<NonNullable<T[K]>, PathDepth[D]>>;
+        }[keyof T & (string | number)];
+
+type NormalizePath<P extends string> = P extends `${infer Head}[${infer Index}]${infer Rest}`
+  ? NormalizePath<`${Head}.${Index}${Rest}`>
+  : P extends `.${infer Rest}`
+    ? Rest
+    : P;
+
+type PathStep<T, K extends string> = unknown extends T
+  ? unknown
+  : T extends null | undefined
+    ? undefined
+    : K extends keyof T
+      ? T[K]
+      : T extends readonly (infer E)[]
+        ? K extends `${number}`
+          ? E | undefined
+          : undefined
+        : K extends `${infer N extends number}`
+          ? N extends keyof T
+            ? T[N]
+            : undefined
+          : undefined;
+
+type PathValueOf<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? PathValueOf<PathStep<T, K>, Rest>
+  : PathStep<T, P>;
+
+/**
+ * Type of the value at path P in T; array elements and missing branches add `undefined`
+ *
+ * @example
+ * ```ts
+ * type City = PathValue<User, 'profile.address.city'>; // string
+ * type FirstId = PathValue<Order, 'items[0].id'>; // number | undefined
+ * ```
+ */
+export type PathValue<T, P extends string> = PathValueOf<T, NormalizePath<P>>;
+
+type FlattenKey<
+  Prefix extends string,
+  Key extends string,
+  Delimiter extends string,
+> = Prefix extends '' ? Key : `${Prefix}${Delimiter}${Key}`;
+
+/** Empty containers are kept as values, so their key may be present (never at the root) */
+type FlattenEmpty<Prefix extends string, T> = Prefix extends '' ? never : [Prefix, T, true];
+
+/** `[key, value, optional]` for every key flattenObject can emit for T */
+type FlattenEntries<
+  T,
+  Prefix extends string,
+  Delimiter extends string,
+  Format extends string,
+  Optional extends boolean,
+  D extends number,
+> = [D] extends [never]
+  ? [Prefix, T, Optional]
+  : T extends PathLeaf
+    ? [Prefix, T, Optional]
+    : T extends readonly (infer E)[]
+      ? Format extends 'keep'
+        ? [Prefix, T, Optional]
+        : | FlattenEmpty<Prefix, T>
+          | FlattenEntries<
+              E,
+              Format extends 'bracket'
+                ? `${Prefix}[${number}]`
+                : FlattenKey<Prefix, `${number}`, Delimiter>,
+              Delimiter,
+              Format,
+              Optional,
+              PathDepth[D]
+            >
+      : | ({} extends T ? FlattenEmpty<Prefix, T> : never)
+        | {
+            [K in keyof T & (string | number)]-?: FlattenEntries<
+              T[K],
+              FlattenKey<Prefix, `${K}`, Delimiter>,
+              Delimiter,
+              Format,
+              Optional extends true ? true : {} extends Pick<T, K> ? true : false,
+              PathDepth[D]
+            >;
+          }[keyof T & (string | number)];
+
+type FlattenedEntries<T, Delimiter extends string, Format extends string> = FlattenEntries<
+  T,
+  '',
+  Delimiter,
+  Format,
+  false,
+  8
+>;
+
+/**
+ * Result of `flattenObject`: leaf values of T keyed by their joined paths.
+ * Keys below optional properties, and keys of containers that may be empty
+ * (arrays, objects without required keys), are optional. Stops at 8 levels to
+ * keep recursive types finite.
+ *
+ * @example
+ * ```ts
+ * type Env = FlattenedObject<{ db: { host: string; ports: number[] } }, '__'>;
+ * // { db__host: string; db__ports?: number[]; [key: `db__ports__${number}`]: number }
+ * ```
+ */
+export type FlattenedObject<
+  T,
+  Delimiter extends string = '.',
+  Format extends 'index' | 'bracket' | 'keep' = 'index',
+> = unknown extends T
+  ? Record<string, unknown>
+  : Simplify<
+      {
+        [
+          Entry in FlattenedEntries<T, Delimiter, Format> as Entry[2] extends true
+            ? never
+            : Entry[0]
+        ]: Entry[1];
+      } & {
+        [
+          Entry in FlattenedEntries<T, Delimiter, Format> as Entry[2] extends true
+            ? Entry[0]
+            : never
+        ]?: Entry[1];
+      }
+    >;
@@ -0,0 +1,27 @@
+import { expectAssignable, expectError, expectNotAssignable, expectType } from 'tsd';
+import { brands, defineBrand, type BrandOf } from '../src/runtime/index.js';
+import type { Brand } from '../src/types/index.js';
+
+type UserId = BrandOf<typeof brands.UserId>;
+type PositiveInt = BrandOf<typeof brands.PositiveInt>;
+
+expectType<Brand<string, 'UserId'>>({} as UserId);
+
+declare function loadUser(id: UserId): void;
+expectError(loadUser('user_1'));
+loadUser(brands.UserId.parse('user_1'));
+
+const result = brands.PositiveInt.safeParse(1);
+if (result.ok) {
+  expectType<PositiveInt>(result.value);
+  expectAssignable<number>(result.value);
+}
+
+declare const input: unknown;
+if (brands.Email.is(input)) {
+  expectAssignable<string>(input);
+}
+
+const Port = defineBrand<number, 'Port'>('Port', (value) => Number(value) < 65_536);
+expectNotAssignable<BrandOf<typeof Port>>(8080);
+expectType<BrandOf<typeof Port>>(Port.unsafe(8080));
@@ -0,0 +1,78 @@
+import { expectError, expectType } from 'tsd';
+import {
+  countBy,
+  countOccurrences,
+  difference,
+  drop,
+  get,
+  has,
+  isEqual,
+  keyBy,
+  mapKeys,
+  mapValues,
+  omit,
+  padStart,
+  partition,
+  pick,
+  pipe,
+  removePrefix,
+  take,
+  truncate,
+  uniqueBy,
+  without,
+  zip,
+} from '../src/runtime/index.js';
+
+type Item = { id: number; name: string; tag: 'a' | 'b'; secret: string };
+
+declare const items: Item[];
+declare const item: Item;
+
+// Data-first calls keep their original signatures
+expectType<Item[]>(uniqueBy(items, 'id'));
+expectType<[Item[], Item[]]>(partition(items, (entry) => entry.tag === 'a'));
+expectType<Pick<Item, 'id' | 'name'>>(pick(item, ['id', 'name']));
+expectType<string>(truncate('hello world', 8));
+
+// Data-last calls infer their element types from the pipeline input
+expectType<(argument: Item[]) => Item[]>(pipe((input: Item[]) => input, uniqueBy('id'), take(2)));
+expectType<(argument: Item[]) => [Item[], Item[]]>(
+  pipe(
+    (input: Item[]) => input,
+    drop(1),
+    partition((entry) => entry.tag === 'a')
+  )
+);
+expectType<(argument: Item[]) => Record<string, Item>>(pipe((input: Item[]) => input, keyBy('id')));
+expectType<(argument: Item[]) => Record<string, number>>(
+  pipe((input: Item[]) => input, countBy('tag'))
+);
+expectType<(argument: number[]) => Array<[number, string]>>(
+  pipe(difference([1, 2]), without(3), zip(['x']))
+);
+
+expectType<(argument: Item) => Pick<Item, 'id' | 'name'>>(
+  pipe((input: Item) => input, pick(['id', 'name']))
+);
+expectType<(argument: Item) => Omit<Item, 'secret'>>(
+  pipe((input: Item) => input, omit(['secret']))
+);
+expectType<(argument: Record<string, number>) => Record<string, string>>(
+  pipe(
+    mapValues((value: number) => value.toFixed(2)),
+    mapKeys((key) => key.toUpperCase())
+  )
+);
+expectType<number>(get('a.b', 0)({ a: { b: 1 } }));
+expectType<boolean>(has('a')({ a: 1 }));
+expectType<boolean>(isEqual([1])([1]));
+
+expectType<(argument: string) => number>(
+  pipe(removePrefix('v'), truncate(10), padStart(12, '0'), countOccurrences('0'))
+);
+
+// Mistyped stages and keys are rejected
+expectError(pipe((input: Item) => input, pick(['missing'])));
+expectError(pipe((input: Item[]) => input, uniqueBy('missing')));
+expectError(pipe((input: number[]) => input, truncate(3)));
+expectError(get('a.b', 'fallback')({ a: { b: 'x' } }));
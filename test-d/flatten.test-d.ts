@@ -0,0 +1,37 @@
+import { expectError, expectType } from 'tsd';
+import { flattenObject, unflattenObject } from '../src/runtime/index.js';
+
+type Config = { db: { host: string; ports: number[] }; debug: boolean };
+
+declare const config: Config;
+
+const flat = flattenObject(config);
+expectType<string>(flat['db.host']);
+expectType<number>(flat['db.ports.0']);
+expectType<boolean>(flat.debug);
+
+const env = flattenObject(config, { delimiter: '__' });
+expectType<string>(env.db__host);
+expectType<number>(env.db__ports__1);
+
+const bracket = flattenObject(config, { arrayFormat: 'bracket' });
+expectType<number>(bracket['db.ports[0]']);
+
+const kept = flattenObject(config, { arrayFormat: 'keep' });
+expectType<number[]>(kept['db.ports']);
+
+expectType<Record<string, unknown>>(flattenObject(config, { maxDepth: 1 }));
+
+expectType<Config>(unflattenObject<Config>(flat));
+expectType<Record<string, unknown>>(unflattenObject({ 'a.b': 1 }));
+
+type Settings = { tags: string[]; extras: { theme?: string }; meta?: { id: number } };
+declare const settings: Settings;
+
+const flatSettings = flattenObject(settings);
+expectType<string[] | undefined>(flatSettings.tags);
+expectType<{ theme?: string } | undefined>(flatSettings.extras);
+expectType<string | undefined>(flatSettings['extras.theme']);
+expectType<number | undefined>(flatSettings['meta.id']);
+expectType<number[] | undefined>(flat['db.ports']);
+expectError(flat.db);
@@ -0,0 +1,18 @@
+import { expectError, expectType } from 'tsd';
+import { compose, composeAsync, flow, pipe, pipeAsync } from '../src/runtime/index.js';
+
+const length = (value: string) => value.length;
+const isEven = (value: number) => value % 2 === 0;
+const fetchName = async (id: number) => `user-${id}`;
+
+expectType<(argument: string) => boolean>(pipe(length, isEven));
+expectType<(argument: string) => boolean>(compose(isEven, length));
+expectType<(argument: number) => Promise<boolean>>(pipeAsync(fetchName, length, isEven));
+expectType<(argument: number) => Promise<number>>(composeAsync(length, fetchName));
+expectType<(a: number, b: number) => boolean>(flow((a: number, b: number) => a + b, isEven));
+
+// Each stage must accept the previous stage's output
+expectError(pipe(isEven, length));
+expectError(compose(length, isEven));
+expectError(pipeAsync(fetchName, isEven));
+expectError(flow((a: number) => a, length));
@@ -0,0 +1,49 @@
+import { expectError, expectType } from 'tsd';
+import { mergeIn, pipe, produce, setIn, updateIn } from '../src/runtime/index.js';
+import type { DeepReadonly } from '../src/types/index.js';
+
+type State = DeepReadonly<{
+  user: { name: string; tags: string[] };
+  todos: Array<{ title: string; done: boolean }>;
+}>;
+
+declare const state: State;
+
+expectError((state.user.name = 'Ada'));
+
+const next = produce(state, (draft) => {
+  expectType<string[]>(draft.user.tags);
+  draft.user.name = 'Ada';
+  draft.todos.push({ title: 'Ship it', done: false });
+});
+expectType<State>(next);
+
+expectError(
+  produce(state, (draft) => {
+    draft.user.name = 1;
+  })
+);
+
+expectType<State>(setIn(state, ['todos', 0, 'done'], true));
+expectType<(argument: State) => State>(
+  pipe(
+    (input: State) => input,
+    updateIn('user.name', (name: string) => name.trim())
+  )
+);
+
+expectType<State>(setIn(state, 'user.name', 'Ada'));
+expectType<State>(setIn(state, 'todos[0].done', true));
+expectError(setIn(state, 'user.name', 1));
+expectError(setIn(state, 'user.missing', 'Ada'));
+
+expectType<State>(
+  updateIn(state, 'user.name', (name) => {
+    expectType<string>(name);
+    return name.trim();
+  })
+);
+expectError(updateIn(state, 'user.name', (name) => name.length));
+
+expectType<State>(mergeIn(state, 'user', { name: 'Ada' }));
+expectError(mergeIn(state, 'user', { name: 1 }));
@@ -0,0 +1,50 @@
+import { expectType } from 'tsd';
+import {
+  deepMerge,
+  deepMergeWith,
+  defaultsDeep,
+  defaultsDeepWith,
+  type DeepMergeOptions,
+} from '../src/runtime/index.js';
+import type { DeepPartial, MergeDeep } from '../src/types/index.js';
+
+type Config = { server: { host: string; port: number }; tags: string[] };
+
+declare const base: Config;
+declare const override: { server: { port: string }; debug: boolean };
+
+const merged = deepMerge(base, override);
+expectType<MergeDeep<Config, typeof override>>(merged);
+expectType<string>(merged.server.host);
+expectType<string>(merged.server.port);
+expectType<boolean>(merged.debug);
+expectType<string[]>(merged.tags);
+
+const layered = deepMerge(base, { tags: [1] }, { debug: true });
+expectType<number[]>(layered.tags);
+expectType<boolean>(layered.debug);
+
+declare const partial: DeepPartial<Config>;
+expectType<Config>(deepMerge<Config>(base, partial));
+
+const withDefaults = defaultsDeep({ server: { port: 1 } }, { server: { host: 'a', port: 2 } });
+expectType<number>(withDefaults.server.port);
+expectType<string>(withDefaults.server.host);
+
+const concat = deepMergeWith({ arrays: 'concat' });
+expectType<string>(concat(base, override).server.port);
+
+const tagged = { tags: ['a'] };
+expectType<Array<string | number>>(concat(tagged, { tags: [1] }).tags);
+expectType<Array<string | number>>(deepMergeWith({ arrays: 'union' })(tagged, { tags: [1] }).tags);
+expectType<Array<string | number>>(
+  deepMergeWith({ arrays: { unionBy: 'id' } })(tagged, { tags: [1] }).tags
+);
+expectType<number[]>(deepMergeWith({ arrays: 'replace' })(tagged, { tags: [1] }).tags);
+expectType<number[]>(deepMergeWith({ skipUndefined: true })(tagged, { tags: [1] }).tags);
+expectType<Array<number | string>>(
+  defaultsDeepWith({ arrays: 'concat' })(tagged, { tags: [1] }).tags
+);
+
+declare const options: DeepMergeOptions;
+expectType<Array<string | number>>(deepMergeWith(options)(tagged, { tags: [1] }).tags);
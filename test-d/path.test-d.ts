@@ -0,0 +1,52 @@
+import { expectError, expectType } from 'tsd';
+import { get, has, set } from '../src/runtime/index.js';
+import type { Path, PathValue } from '../src/types/index.js';
+
+type User = {
+  id: number;
+  profile: { address: { city: string }; nickname?: string };
+  orders: Array<{ id: number; total: number }>;
+};
+
+declare const user: User;
+
+expectType<
+  | 'id'
+  | 'profile'
+  | 'profile.address'
+  | 'profile.address.city'
+  | 'profile.nickname'
+  | 'orders'
+  | `orders.${number}`
+  | `orders[${number}]`
+  | `orders.${number}.id`
+  | `orders.${number}.total`
+  | `orders[${number}].id`
+  | `orders[${number}].total`
+>({} as Path<User>);
+
+expectType<string>({} as PathValue<User, 'profile.address.city'>);
+expectType<number | undefined>({} as PathValue<User, 'orders[0].total'>);
+expectType<number | undefined>({} as PathValue<User, 'orders.0.total'>);
+
+expectType<string>(get(user, 'profile.address.city'));
+expectType<string | undefined>(get(user, 'profile.nickname'));
+expectType<string>(get(user, 'profile.nickname', 'anonymous'));
+expectType<number | undefined>(get(user, 'orders[0].id'));
+expectError(get(user, 'profile.adress.city'));
+
+declare const key: string;
+expectType<unknown>(get(user, key));
+expectType<number>(get(user, key, 0 as number));
+expectType<number>(get<number>(user, 'orders[0].id'));
+get(user, ['profile', key]);
+
+set(user, 'profile.address.city', 'Paris');
+expectError(set(user, 'profile.address.city', 1));
+expectError(set(user, 'profile.zip', '75001'));
+set(user, key, 'Paris');
+set<string>(user, 'profile.address.city', 'Paris');
+
+expectType<boolean>(has(user, 'orders[0]'));
+expectError(has(user, 'order'));
+expectType<boolean>(has(user, key));
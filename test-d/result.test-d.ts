@@ -0,0 +1,20 @@
+import { expectError, expectType } from 'tsd';
+import { fromPromise, fromThrowable, type AsyncResult, type Result } from '../src/runtime/index.js';
+
+class ParseError extends Error {
+  readonly kind = 'parse';
+}
+
+const parse = (input: string): number => Number.parseInt(input, 10);
+
+expectType<(input: string) => Result<number, Error>>(fromThrowable(parse));
+expectType<(input: string) => Result<number, ParseError>>(
+  fromThrowable(parse, (error) => new ParseError(String(error)))
+);
+expectError(fromThrowable<[string], number, ParseError>(parse));
+
+expectType<AsyncResult<number, Error>>(fromPromise(Promise.resolve(1)));
+expectType<AsyncResult<number, ParseError>>(
+  fromPromise(Promise.resolve(1), () => new ParseError('failed'))
+);
+expectError(fromPromise<number, ParseError>(Promise.resolve(1)));
@@ -0,0 +1,49 @@
+import { expectAssignable, expectError, expectType } from 'tsd';
+import { s, type Infer, type InferInput } from '../src/runtime/index.js';
+
+const User = s.object({
+  id: s.number(),
+  email: s.email(),
+  role: s.literal('admin', 'member'),
+  nickname: s.string().optional(),
+  tags: s.array(s.union(s.string(), s.number())),
+  createdAt: s.string().transform((value) => new Date(value)),
+});
+
+type User = Infer<typeof User>;
+
+expectType<{
+  id: number;
+  email: string;
+  role: 'admin' | 'member';
+  tags: Array<string | number>;
+  createdAt: Date;
+  nickname?: string | undefined;
+}>({} as User);
+
+const result = User.safeParse({});
+if (result.ok) {
+  expectType<User>(result.value);
+} else {
+  expectAssignable<Error>(result.error);
+}
+
+declare const input: unknown;
+if (User.is(input)) {
+  expectType<InferInput<typeof User>>(input);
+  expectType<string>(input.createdAt);
+}
+
+const Length = s.string().transform((value) => value.length);
+expectType<number>(Length.parse(input));
+expectType<string>({} as InferInput<typeof Length>);
+if (Length.is(input)) {
+  expectType<string>(input);
+}
+
+const Id = s.number().optional();
+if (Id.is(input)) {
+  expectType<number | undefined>(input);
+}
+
+expectError(s.string().refine((value: number) => value > 0, 'positive'));
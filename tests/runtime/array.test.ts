@@ -29,7 +29,9 @@ import {
   flatMap,
   countBy,
   keyBy,
+  seq,
 } from '../../src/runtime/array/index.js';
+import { pipe } from '../../src/runtime/function.js';
 
 describe('array', () => {
   describe('chunk', () => {
@@ -53,6 +55,11 @@ describe('array', () => {
         error: expect.any(Error),
       });
     });
+
+    it('should expose UtilsError on the returned error channel', () => {
+      const result = chunk([1, 2], { size: 0, onError: 'return' });
+      expect(result.ok ? undefined : result.error.code).toBe('INVALID_CHUNK_SIZE');
+    });
   });
 
   describe('groupBy', () => {
@@ -225,4 +232,110 @@ describe('array', () => {
       });
     });
   });
+
+  describe('data-last', () => {
+    const items = [
+      { id: 1, type: 'a' },
+      { id: 2, type: 'b' },
+      { id: 1, type: 'c' },
+    ];
+
+    it('should return functions that match the data-first results', () => {
+      expect(uniqueBy<(typeof items)[number]>('id')(items)).toEqual(uniqueBy(items, 'id'));
+      expect(partition((n: number) => n > 1)([1, 2, 3])).toEqual([[2, 3], [1]]);
+      expect(countBy<(typeof items)[number]>('type')(items)).toEqual({ a: 1, b: 1, c: 1 });
+      expect(take(2)([1, 2, 3])).toEqual([1, 2]);
+      expect(dropRight(1)([1, 2, 3])).toEqual([1, 2]);
+      expect(difference([2])([1, 2, 3])).toEqual([1, 3]);
+      expect(zip(['a', 'b'])([1, 2])).toEqual([
+        [1, 'a'],
+        [2, 'b'],
+      ]);
+      expect(arraysEqual([1, 2])([1, 2])).toBe(true);
+      expect(flatMap((n: number) => [n, n])([1, 2])).toEqual([1, 1, 2, 2]);
+    });
+
+    it('should treat a leading array as data for variadic without', () => {
+      expect(without([1, 2, 3], 2)).toEqual([1, 3]);
+      expect(without(2, 3)([1, 2, 3, 4])).toEqual([1, 4]);
+    });
+
+    it('should compose with pipe', () => {
+      const firstUnique = pipe(
+        (input: typeof items) => input,
+        uniqueBy('id'),
+        take(1),
+        keyBy('type')
+      );
+      expect(firstUnique(items)).toEqual({ a: { id: 1, type: 'a' } });
+    });
+  });
+
+  describe('seq', () => {
+    it('should fuse operations lazily in a single pass', () => {
+      const visited: number[] = [];
+      const result = seq([1, 2, 3, 4, 5, 6])
+        .map((value) => {
+          visited.push(value);
+          return value * 10;
+        })
+        .filter((value) => value % 20 === 0)
+        .take(2)
+        .toArray();
+
+      expect(result).toEqual([20, 40]);
+      expect(visited).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should match the eager array functions', () => {
+      const items = [
+        { id: 1, tags: ['a', 'b'] },
+        { id: 1, tags: ['c'] },
+        { id: 2, tags: [] },
+        { id: 3, tags: ['d'] },
+      ];
+      expect(seq(items).uniqueBy('id').toArray()).toEqual(uniqueBy(items, 'id'));
+      expect(
+        seq(items)
+          .flatMap((item) => item.tags)
+          .toArray()
+      ).toEqual(flatMap(items, (item) => item.tags));
+      expect(seq([0, 1, '', 2, null]).compact().toArray()).toEqual(compact([0, 1, '', 2, null]));
+      expect(seq([1, 2, 3, 4, 5]).drop(2).chunk(2).toArray()).toEqual(
+        chunk(drop([1, 2, 3, 4, 5], 2), 2)
+      );
+      expect(
+        seq(new Set([1, 2, 3]))
+          .zip(['a', 'b'])
+          .toArray()
+      ).toEqual(zip([1, 2, 3], ['a', 'b']));
+    });
+
+    it('should support terminal reduce and groupBy', () => {
+      expect(seq(range(1, 5)).reduce((total, value) => total + value, 0)).toBe(10);
+      expect(seq([{ type: 'a' }, { type: 'b' }, { type: 'a' }]).groupBy('type')).toEqual({
+        a: [{ type: 'a' }, { type: 'a' }],
+        b: [{ type: 'b' }],
+      });
+    });
+
+    it('should reuse chunk and groupBy error strategies', () => {
+      expect(() => seq([1]).chunk(0)).toThrow();
+      const chunked = seq([1]).chunk({ size: 0, onError: 'return' });
+      expect(!chunked.ok && chunked.error.code).toBe('INVALID_CHUNK_SIZE');
+
+      const grouped = seq([{ type: undefined }]).groupBy({ selector: 'type', onError: 'return' });
+      expect(!grouped.ok && grouped.error.code).toBe('GROUP_BY_KEY_MISSING');
+    });
+
+    it('should work with one-shot iterables without materializing them', () => {
+      function* naturals() {
+        let value = 0;
+        while (true) {
+          yield value++;
+        }
+      }
+      expect(seq(naturals()).drop(3).take(3).toArray()).toEqual([3, 4, 5]);
+    });
+  });
 });
@@ -0,0 +1,99 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import {
+  assert,
+  assertDefined,
+  assertNever,
+  assertNumber,
+  assertString,
+  assertType,
+  invariant,
+} from '../../src/runtime/assert.js';
+import { UtilsError } from '../../src/runtime/error.js';
+import {
+  resetErrorFactory,
+  setErrorFactory,
+  UtilsErrorFactory,
+} from '../../src/runtime/internal/error-factory.js';
+import { isArray } from '../../src/runtime/validation.js';
+
+const thrown = (function_: () => void): unknown => {
+  try {
+    function_();
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+};
+
+describe('assert', () => {
+  afterEach(() => {
+    resetErrorFactory();
+  });
+
+  it('should narrow values that pass', () => {
+    const value: unknown = 'text';
+    assertString(value);
+    expect(value.toUpperCase()).toBe('TEXT');
+
+    const maybe: number | undefined = 1;
+    assertDefined(maybe);
+    expect(maybe + 1).toBe(2);
+  });
+
+  it('should throw VALIDATION_ERROR for failed conditions', () => {
+    const error = thrown(() => assert(0, 'Expected items'));
+    expect(error).toBeInstanceOf(UtilsError);
+    expect(error).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      message: 'Expected items',
+      details: { value: 0 },
+    });
+  });
+
+  it('should build invariant messages lazily', () => {
+    let built = 0;
+    const message = () => {
+      built++;
+      return 'broken';
+    };
+
+    invariant(true, message);
+    expect(built).toBe(0);
+    expect(thrown(() => invariant(false, message))).toMatchObject({ message: 'broken' });
+    expect(built).toBe(1);
+  });
+
+  it('should throw TYPE_ERROR with the offending value in details', () => {
+    expect(thrown(() => assertNumber(Number.NaN))).toMatchObject({
+      code: 'TYPE_ERROR',
+      message: 'Expected number, received NaN',
+      details: { value: Number.NaN, expected: 'number' },
+    });
+    expect(thrown(() => assertString(null))).toMatchObject({
+      message: 'Expected string, received null',
+    });
+    expect(thrown(() => assertDefined(undefined, 'missing'))).toMatchObject({
+      code: 'TYPE_ERROR',
+      message: 'missing',
+    });
+    expect(thrown(() => assertType({}, isArray))).toMatchObject({
+      code: 'TYPE_ERROR',
+      message: 'Value of type object failed isArray',
+    });
+    expect(thrown(() => assertNever('circle' as never))).toMatchObject({
+      message: 'Unexpected value circle',
+    });
+  });
+
+  it('should route errors through the configured ErrorFactory', () => {
+    class TaggedError extends Error {}
+    setErrorFactory({
+      create: (context) => Object.assign(new TaggedError(context.message), { code: context.code }),
+      isFactoryError: (error) => error instanceof TaggedError,
+    });
+
+    expect(thrown(() => assert(false))).toBeInstanceOf(TaggedError);
+    setErrorFactory(new UtilsErrorFactory());
+    expect(thrown(() => assert(false))).toBeInstanceOf(UtilsError);
+  });
+});
@@ -0,0 +1,184 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  batchAsync,
+  bufferTime,
+  filterAsync,
+  mapAsync,
+  mapConcurrent,
+  mergeAsync,
+  takeAsync,
+  toArrayAsync,
+} from '../../src/runtime/async-iterable.js';
+import { sleep } from '../../src/runtime/async.js';
+import { isUtilsError } from '../../src/runtime/error.js';
+
+async function* from<T>(items: T[], delayMs = 0): AsyncGenerator<T> {
+  for (const item of items) {
+    if (delayMs > 0) {
+      await sleep(delayMs);
+    }
+    yield item;
+  }
+}
+
+describe('async iterable', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('mapAsync / filterAsync / takeAsync', () => {
+    it('should transform lazily', async () => {
+      const doubled = mapAsync(from([1, 2, 3]), async (value) => value * 2);
+      const even = filterAsync(doubled, (value) => value > 2);
+      await expect(toArrayAsync(even)).resolves.toEqual([4, 6]);
+    });
+
+    it('should accept sync iterables', async () => {
+      await expect(
+        toArrayAsync(mapAsync(new Set([1, 2]), (value, index) => value + index))
+      ).resolves.toEqual([1, 3]);
+    });
+
+    it('should stop and close the source after taking enough items', async () => {
+      let closed = false;
+      let pulled = 0;
+      async function* source() {
+        try {
+          while (true) {
+            pulled++;
+            yield pulled;
+          }
+        } finally {
+          closed = true;
+        }
+      }
+
+      await expect(toArrayAsync(takeAsync(source(), 2))).resolves.toEqual([1, 2]);
+      expect(pulled).toBe(2);
+      expect(closed).toBe(true);
+    });
+  });
+
+  describe('batchAsync', () => {
+    it('should batch items with chunk semantics', async () => {
+      await expect(toArrayAsync(batchAsync(from([1, 2, 3, 4, 5]), 2))).resolves.toEqual([
+        [1, 2],
+        [3, 4],
+        [5],
+      ]);
+    });
+
+    it('should reject invalid sizes with INVALID_CHUNK_SIZE', async () => {
+      const error = await toArrayAsync(batchAsync(from([1]), { size: 0, label: 'rows' })).catch(
+        (caught: unknown) => caught
+      );
+      expect(isUtilsError(error) && error.code).toBe('INVALID_CHUNK_SIZE');
+    });
+  });
+
+  describe('mergeAsync', () => {
+    it('should interleave sources as they produce', async () => {
+      const merged = await toArrayAsync(mergeAsync(from(['a1', 'a2'], 5), from(['b1'], 1)));
+      expect(merged).toEqual(['b1', 'a1', 'a2']);
+    });
+
+    it('should close open sources when the consumer stops early', async () => {
+      let closed = false;
+      async function* endless() {
+        try {
+          while (true) {
+            yield 'x';
+            await sleep(1);
+          }
+        } finally {
+          closed = true;
+        }
+      }
+
+      await expect(toArrayAsync(takeAsync(mergeAsync(endless()), 1))).resolves.toEqual(['x']);
+      await sleep(5);
+      expect(closed).toBe(true);
+    });
+  });
+
+  describe('bufferTime', () => {
+    it('should flush buffers when the window elapses, reaches maxSize or the source ends', async () => {
+      vi.useFakeTimers();
+      async function* source() {
+        yield 1;
+        yield 2;
+        await sleep(150);
+        yield 3;
+        yield 4;
+        yield 5;
+        yield 6;
+      }
+
+      const pending = toArrayAsync(bufferTime(source(), 100, { maxSize: 3 }));
+      await vi.runAllTimersAsync();
+      await expect(pending).resolves.toEqual([[1, 2], [3, 4, 5], [6]]);
+    });
+  });
+
+  describe('mapConcurrent', () => {
+    it('should limit concurrency and preserve order', async () => {
+      let active = 0;
+      let peak = 0;
+      const results = await toArrayAsync(
+        mapConcurrent(
+          from([30, 10, 20, 5]),
+          async (ms) => {
+            active++;
+            peak = Math.max(peak, active);
+            await sleep(ms);
+            active--;
+            return ms;
+          },
+          { concurrency: 2 }
+        )
+      );
+
+      expect(results).toEqual([30, 10, 20, 5]);
+      expect(peak).toBe(2);
+    });
+
+    it('should yield in completion order when unordered', async () => {
+      const results = await toArrayAsync(
+        mapConcurrent(
+          from([30, 1]),
+          async (ms) => {
+            await sleep(ms);
+            return ms;
+          },
+          { concurrency: 2, ordered: false }
+        )
+      );
+      expect(results).toEqual([1, 30]);
+    });
+
+    it('should propagate mapper failures', async () => {
+      const mapped = mapConcurrent(from([1, 2]), async (value) => {
+        if (value === 2) {
+          throw new Error('bad item');
+        }
+        return value;
+      });
+      await expect(toArrayAsync(mapped)).rejects.toThrow('bad item');
+    });
+
+    it('should stop with ABORTED when the signal aborts', async () => {
+      const controller = new AbortController();
+      const mapped = mapConcurrent(
+        from([1, 2, 3]),
+        async (value) => {
+          controller.abort();
+          return value;
+        },
+        { concurrency: 1, signal: controller.signal }
+      );
+
+      const error = await toArrayAsync(mapped).catch((caught: unknown) => caught);
+      expect(isUtilsError(error) && error.code).toBe('ABORTED');
+    });
+  });
+});
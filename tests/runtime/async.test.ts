@@ -0,0 +1,244 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  concurrency,
+  parallel,
+  retry,
+  series,
+  sleep,
+  timeout,
+  type RetryClock,
+} from '../../src/runtime/async.js';
+import { isUtilsError } from '../../src/runtime/error.js';
+
+const abortedWith = (code: string) => (error: unknown) =>
+  isUtilsError(error) && error.code === code;
+
+const createFakeClock = (): RetryClock & { delays: number[] } => {
+  let now = 0;
+  const delays: number[] = [];
+  return {
+    delays,
+    now: () => now,
+    sleep: async (ms) => {
+      delays.push(ms);
+      now += ms;
+    },
+  };
+};
+
+const failing =
+  (error: Error = new Error('always')) =>
+  async (): Promise<never> => {
+    throw error;
+  };
+
+describe('async', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('sleep', () => {
+    it('should reject with ABORTED when the signal aborts', async () => {
+      const controller = new AbortController();
+      const pending = sleep(10_000, { signal: controller.signal });
+      controller.abort();
+      await expect(pending).rejects.toSatisfy(abortedWith('ABORTED'));
+    });
+
+    it('should reject immediately for an already aborted signal', async () => {
+      await expect(sleep(10, { signal: AbortSignal.abort() })).rejects.toSatisfy(
+        abortedWith('ABORTED')
+      );
+    });
+  });
+
+  describe('retry', () => {
+    it('should retry until success', async () => {
+      let calls = 0;
+      const result = await retry(
+        async () => {
+          calls++;
+          if (calls < 3) {
+            throw new Error('flaky');
+          }
+          return 'done';
+        },
+        { delay: 1 }
+      );
+      expect(result).toBe('done');
+      expect(calls).toBe(3);
+    });
+
+    it('should stop retrying and pass the signal to attempts', async () => {
+      const controller = new AbortController();
+      const seen: Array<AbortSignal | undefined> = [];
+      const pending = retry(
+        async (signal) => {
+          seen.push(signal);
+          throw new Error('always');
+        },
+        { delay: 10_000, signal: controller.signal }
+      );
+
+      await sleep(0);
+      controller.abort();
+      await expect(pending).rejects.toSatisfy(abortedWith('ABORTED'));
+      expect(seen).toEqual([controller.signal]);
+    });
+  });
+
+  describe('retry policies', () => {
+    it.each([
+      ['fixed', [100, 100, 100]],
+      ['linear', [100, 200, 300]],
+      ['exponential', [100, 200, 400]],
+    ] as const)('should compute %s delays', async (strategy, expected) => {
+      const clock = createFakeClock();
+      await expect(retry(failing(), { delay: 100, strategy, clock })).rejects.toThrow('always');
+      expect(clock.delays).toEqual(expected);
+    });
+
+    it('should cap delays and apply jitter with the injected random source', async () => {
+      const clock = createFakeClock();
+      await expect(
+        retry(failing(), {
+          retries: 4,
+          delay: 100,
+          strategy: 'full-jitter',
+          maxDelay: 300,
+          random: () => 0.5,
+          clock,
+        })
+      ).rejects.toThrow();
+      expect(clock.delays).toEqual([50, 100, 150, 150]);
+    });
+
+    it('should keep decorrelated jitter between the base delay and three times the previous delay', async () => {
+      const clock = createFakeClock();
+      await expect(
+        retry(failing(), { delay: 100, strategy: 'decorrelated-jitter', random: () => 1, clock })
+      ).rejects.toThrow();
+      expect(clock.delays).toEqual([100, 300, 900]);
+    });
+
+    it('should stop when shouldRetry returns false', async () => {
+      const clock = createFakeClock();
+      const shouldRetry = vi.fn((_error: Error, attempt: number) => attempt < 2);
+      await expect(retry(failing(), { delay: 1, shouldRetry, clock })).rejects.toThrow();
+      expect(clock.delays).toHaveLength(1);
+      expect(shouldRetry).toHaveBeenCalledTimes(2);
+    });
+
+    it('should honor retryable and retryDelay hints on errors', async () => {
+      const clock = createFakeClock();
+      const fatal = Object.assign(new Error('fatal'), { retryable: false });
+      await expect(retry(failing(fatal), { clock })).rejects.toBe(fatal);
+      expect(clock.delays).toEqual([]);
+
+      const throttled = Object.assign(new Error('slow down'), { retryable: true, retryDelay: 42 });
+      await expect(retry(failing(throttled), { retries: 2, clock })).rejects.toBe(throttled);
+      expect(clock.delays).toEqual([42, 42]);
+    });
+
+    it('should respect the total time budget', async () => {
+      const clock = createFakeClock();
+      await expect(
+        retry(failing(), { retries: 10, delay: 100, strategy: 'fixed', maxElapsed: 250, clock })
+      ).rejects.toThrow('always');
+      expect(clock.delays).toEqual([100, 100]);
+    });
+  });
+
+  describe('timeout', () => {
+    it('should reject with TIMEOUT and abort the task signal', async () => {
+      let taskSignal: AbortSignal | undefined;
+      const pending = timeout(
+        (signal) => {
+          taskSignal = signal;
+          return new Promise<never>(() => undefined);
+        },
+        5,
+        'too slow'
+      );
+
+      await expect(pending).rejects.toSatisfy(abortedWith('TIMEOUT'));
+      await expect(pending).rejects.toThrow('too slow');
+      expect(taskSignal?.aborted).toBe(true);
+    });
+
+    it('should clear its timer once the promise settles', async () => {
+      vi.useFakeTimers();
+      await expect(timeout(Promise.resolve(1), 1000)).resolves.toBe(1);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('should reject with ABORTED when the caller aborts', async () => {
+      const controller = new AbortController();
+      const pending = timeout(new Promise<never>(() => undefined), 10_000, {
+        signal: controller.signal,
+      });
+      controller.abort();
+      await expect(pending).rejects.toSatisfy(abortedWith('ABORTED'));
+    });
+  });
+
+  describe('parallel / series', () => {
+    it('should run tasks and propagate the signal', async () => {
+      const controller = new AbortController();
+      const task = async (signal?: AbortSignal) => signal === controller.signal;
+      await expect(parallel([task, task], { signal: controller.signal })).resolves.toEqual([
+        true,
+        true,
+      ]);
+      await expect(series([task], { signal: controller.signal })).resolves.toEqual([true]);
+    });
+
+    it('should stop series after abort', async () => {
+      const controller = new AbortController();
+      const second = vi.fn(async () => 2);
+      const pending = series(
+        [
+          async () => {
+            controller.abort();
+            return 1;
+          },
+          second,
+        ],
+        { signal: controller.signal }
+      );
+
+      await expect(pending).rejects.toSatisfy(abortedWith('ABORTED'));
+      expect(second).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('concurrency', () => {
+    it('should respect the limit and preserve order', async () => {
+      let active = 0;
+      let peak = 0;
+      const results = await concurrency(
+        [1, 2, 3, 4, 5],
+        async (item) => {
+          active++;
+          peak = Math.max(peak, active);
+          await sleep(item % 2);
+          active--;
+          return item * 10;
+        },
+        2
+      );
+
+      expect(results).toEqual([10, 20, 30, 40, 50]);
+      expect(peak).toBeLessThanOrEqual(2);
+    });
+
+    it('should reject with ABORTED when aborted mid-run', async () => {
+      const controller = new AbortController();
+      const pending = concurrency([1, 2, 3], (_item, signal) => sleep(10_000, { signal }), 1, {
+        signal: controller.signal,
+      });
+      controller.abort();
+      await expect(pending).rejects.toSatisfy(abortedWith('ABORTED'));
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { brands, defineBrand } from '../../src/runtime/brand.js';
+import { isString } from '../../src/runtime/validation.js';
+
+describe('brand', () => {
+  const Sku = defineBrand(
+    'Sku',
+    (value): value is string => isString(value) && /^SKU-\d+$/.test(value)
+  );
+
+  it('should brand values that pass the validator', () => {
+    expect(Sku.is('SKU-1')).toBe(true);
+    expect(Sku.parse('SKU-1')).toBe('SKU-1');
+    expect(Sku.safeParse('SKU-2')).toEqual({ ok: true, value: 'SKU-2' });
+    expect(Sku.unsafe('anything')).toBe('anything');
+  });
+
+  it('should return a VALIDATION_ERROR naming the brand on failure', () => {
+    const result = Sku.safeParse('sku-1');
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid Sku',
+      details: { brand: 'Sku', value: 'sku-1' },
+    });
+    expect(() => Sku.parse(1)).toThrow('Invalid Sku');
+  });
+
+  it('should validate the built-in brands', () => {
+    expect(brands.Email.is('ada@example.com')).toBe(true);
+    expect(brands.Email.is('ada')).toBe(false);
+    expect(brands.UserId.is('user_1')).toBe(true);
+    expect(brands.UserId.is(' user_1')).toBe(false);
+    expect(brands.UserId.is('')).toBe(false);
+    expect(brands.PositiveInt.is(3)).toBe(true);
+    expect(brands.PositiveInt.is(0)).toBe(false);
+    expect(brands.PositiveInt.is(1.5)).toBe(false);
+    expect(brands.IsoDateTimeString.is('2024-01-31T12:00:00.000Z')).toBe(true);
+    expect(brands.IsoDateTimeString.is('2024-01-31T12:00+02:00')).toBe(true);
+    expect(brands.IsoDateTimeString.is('2024-01-31')).toBe(false);
+    expect(brands.IsoDateTimeString.is('2024-13-45T99:00:00Z')).toBe(false);
+    expect(brands.IsoDateTimeString.is('2024-02-29T23:59:59Z')).toBe(true);
+    expect(brands.IsoDateTimeString.is('2024-02-30T00:00Z')).toBe(false);
+    expect(brands.IsoDateTimeString.is('2023-02-29T00:00Z')).toBe(false);
+    expect(brands.IsoDateTimeString.is('2024-04-31T00:00Z')).toBe(false);
+    expect(brands.IsoDateTimeString.is('2024-01-31T24:00Z')).toBe(false);
+    expect(brands.IsoDateTimeString.is('2024-01-31T12:60Z')).toBe(false);
+    expect(brands.IsoDateTimeString.is('2024-01-31T12:00:60Z')).toBe(false);
+    expect(brands.IsoDateTimeString.is('2024-01-31T12:00+24:00')).toBe(false);
+  });
+});
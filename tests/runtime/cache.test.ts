@@ -0,0 +1,167 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { createCache, type CacheEvictReason } from '../../src/runtime/cache.js';
+import { deferred } from '../../src/runtime/async.js';
+
+describe('createCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should evict the least recently used entry beyond max', () => {
+    const evicted: Array<[string, CacheEvictReason]> = [];
+    const cache = createCache<string, number>({
+      max: 2,
+      onEvict: (key, _value, reason) => evicted.push([key, reason]),
+    });
+
+    cache.set('a', 1).set('b', 2);
+    expect(cache.get('a')).toBe(1);
+    cache.set('c', 3);
+
+    expect(cache.has('b')).toBe(false);
+    expect([...cache.entries()]).toEqual([
+      ['a', 1],
+      ['c', 3],
+    ]);
+    expect(evicted).toEqual([['b', 'capacity']]);
+  });
+
+  it('should weigh entries with sizeOf', () => {
+    const cache = createCache<string, string>({ max: 10, sizeOf: (value) => value.length });
+    cache.set('a', 'xxxx').set('b', 'yyyy').set('c', 'zzzz');
+
+    expect(cache.size).toBe(2);
+    expect(cache.peek('a')).toBeUndefined();
+    expect(cache.set('big', 'x'.repeat(11)).has('big')).toBe(false);
+    expect(cache.stats().totalSize).toBe(8);
+  });
+
+  it('should expire entries after ttl and honour per-entry ttl', () => {
+    vi.useFakeTimers();
+    const cache = createCache<string, number>({ ttl: 100 });
+    cache.set('short', 1, { ttl: 10 }).set('default', 2);
+
+    vi.advanceTimersByTime(50);
+    expect(cache.get('short')).toBeUndefined();
+    expect(cache.get('default')).toBe(2);
+    vi.advanceTimersByTime(60);
+    expect(cache.get('default')).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 2, evictions: 2, size: 0 });
+  });
+
+  it('should not update recency or metrics on peek and has', () => {
+    const cache = createCache<string, number>({ max: 2 });
+    cache.set('a', 1).set('b', 2);
+    expect(cache.peek('a')).toBe(1);
+    expect(cache.has('a')).toBe(true);
+    cache.set('c', 3);
+
+    expect(cache.has('a')).toBe(false);
+    expect(cache.stats()).toMatchObject({ hits: 0, misses: 0 });
+  });
+
+  it('should report delete, replace and clear to onEvict', () => {
+    const reasons: CacheEvictReason[] = [];
+    const cache = createCache<string, number>({
+      onEvict: (_key, _value, reason) => reasons.push(reason),
+    });
+    cache.set('a', 1).set('a', 2).set('b', 3);
+
+    expect(cache.delete('a')).toBe(true);
+    expect(cache.delete('a')).toBe(false);
+    cache.clear();
+    expect(reasons).toEqual(['replaced', 'deleted', 'cleared']);
+  });
+
+  describe('getOrLoad', () => {
+    it('should deduplicate concurrent loads', async () => {
+      const cache = createCache<string, number>();
+      const gate = deferred<number>();
+      const loader = vi.fn(() => gate.promise);
+
+      const first = cache.getOrLoad('a', loader);
+      const second = cache.getOrLoad('a', loader);
+      gate.resolve(42);
+
+      await expect(Promise.all([first, second])).resolves.toEqual([42, 42]);
+      await expect(cache.getOrLoad('a', loader)).resolves.toBe(42);
+      expect(loader).toHaveBeenCalledOnce();
+      expect(cache.stats()).toMatchObject({ hits: 1, misses: 2, loads: 1 });
+    });
+
+    it('should not cache failed loads', async () => {
+      const cache = createCache<string, number>();
+      const loader = vi
+        .fn<(key: string) => number>()
+        .mockImplementationOnce(() => {
+          throw new Error('down');
+        })
+        .mockReturnValueOnce(7);
+
+      await expect(cache.getOrLoad('a', loader)).rejects.toThrow('down');
+      await expect(cache.getOrLoad('a', loader)).resolves.toBe(7);
+    });
+
+    it('should not store loads invalidated while in flight', async () => {
+      const cache = createCache<string, number>();
+      const deletedGate = deferred<number>();
+      const clearedGate = deferred<number>();
+      const replacedGate = deferred<number>();
+
+      const deleted = cache.getOrLoad('a', () => deletedGate.promise);
+      cache.delete('a');
+      const cleared = cache.getOrLoad('b', () => clearedGate.promise);
+      cache.clear();
+      const replaced = cache.getOrLoad('c', () => replacedGate.promise);
+      cache.set('c', 3);
+      deletedGate.resolve(1);
+      clearedGate.resolve(2);
+      replacedGate.resolve(30);
+
+      await expect(Promise.all([deleted, cleared, replaced])).resolves.toEqual([1, 2, 30]);
+      expect(cache.has('a')).toBe(false);
+      expect(cache.has('b')).toBe(false);
+      expect(cache.get('c')).toBe(3);
+    });
+
+    it('should start a fresh load after the key is deleted', async () => {
+      const cache = createCache<string, number>();
+      const gate = deferred<number>();
+
+      const stale = cache.getOrLoad('a', () => gate.promise);
+      cache.delete('a');
+      await expect(cache.getOrLoad('a', () => 2)).resolves.toBe(2);
+      gate.resolve(1);
+
+      await expect(stale).resolves.toBe(1);
+      expect(cache.get('a')).toBe(2);
+    });
+
+    it('should serve stale values while revalidating in the background', async () => {
+      vi.useFakeTimers();
+      const cache = createCache<string, number>({ ttl: 100, staleWhileRevalidate: 50 });
+      let version = 0;
+      const loader = async () => ++version;
+
+      await expect(cache.getOrLoad('a', loader)).resolves.toBe(1);
+      vi.advanceTimersByTime(120);
+
+      expect(cache.get('a')).toBeUndefined();
+      await expect(cache.getOrLoad('a', loader)).resolves.toBe(1);
+      await vi.waitFor(() => expect(cache.get('a')).toBe(2));
+
+      vi.advanceTimersByTime(200);
+      await expect(cache.getOrLoad('a', loader)).resolves.toBe(3);
+      expect(cache.stats()).toMatchObject({ stale: 1, loads: 3 });
+    });
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => createCache({ max: 0 })).toThrow(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+    expect(() => createCache<string, string>({ sizeOf: () => 0 }).set('a', 'b')).toThrow(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi } from 'vitest';
+import { circuitBreaker, type CircuitStateChange } from '../../src/runtime/circuit-breaker.js';
+import { retry } from '../../src/runtime/async.js';
+import { isUtilsError } from '../../src/runtime/error.js';
+
+const createClock = () => {
+  let now = 0;
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+};
+
+const isCircuitOpen = (error: unknown) => isUtilsError(error) && error.code === 'CIRCUIT_OPEN';
+
+describe('circuitBreaker', () => {
+  it('should pass calls through while closed', async () => {
+    const breaker = circuitBreaker(async (value: number) => value * 2);
+    await expect(breaker(2)).resolves.toBe(4);
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should open after consecutive failures and fail fast', async () => {
+    const clock = createClock();
+    const operation = vi.fn(async () => {
+      throw new Error('down');
+    });
+    const breaker = circuitBreaker(operation, { failureThreshold: 2, resetTimeout: 1000, clock });
+
+    await expect(breaker()).rejects.toThrow('down');
+    await expect(breaker()).rejects.toThrow('down');
+    expect(breaker.state).toBe('open');
+
+    clock.advance(400);
+    const error = await breaker().catch((caught: unknown) => caught);
+    expect(isCircuitOpen(error)).toBe(true);
+    expect(isUtilsError(error) && error.details?.['retryAfter']).toBe(600);
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should open when the failure rate crosses the threshold', async () => {
+    let call = 0;
+    const breaker = circuitBreaker(
+      async () => {
+        call++;
+        if (call % 2 === 0) {
+          throw new Error('flaky');
+        }
+        return call;
+      },
+      { failureRateThreshold: 0.5, minimumCalls: 4, failureThreshold: 100 }
+    );
+
+    for (let index = 0; index < 4; index++) {
+      await breaker().catch(() => undefined);
+    }
+    expect(breaker.stats()).toMatchObject({ state: 'open', failureRate: 0.5, windowCalls: 4 });
+  });
+
+  it('should half-open after the reset timeout and close on a successful trial', async () => {
+    const clock = createClock();
+    let healthy = false;
+    const events: CircuitStateChange[] = [];
+    const breaker = circuitBreaker(
+      async () => {
+        if (!healthy) {
+          throw new Error('down');
+        }
+        return 'ok';
+      },
+      {
+        failureThreshold: 1,
+        resetTimeout: 100,
+        clock,
+        onStateChange: (event) => events.push(event),
+      }
+    );
+
+    await expect(breaker()).rejects.toThrow('down');
+    clock.advance(100);
+    expect(breaker.state).toBe('half-open');
+
+    await expect(breaker()).rejects.toThrow('down');
+    expect(breaker.state).toBe('open');
+
+    clock.advance(100);
+    healthy = true;
+    await expect(breaker()).resolves.toBe('ok');
+    expect(events.map(({ from, to }) => `${from}->${to}`)).toEqual([
+      'closed->open',
+      'open->half-open',
+      'half-open->open',
+      'open->half-open',
+      'half-open->closed',
+    ]);
+  });
+
+  it('should not fail a successful trial when a listener throws', async () => {
+    const clock = createClock();
+    let healthy = false;
+    const reported: Array<() => void> = [];
+    const spy = vi.spyOn(globalThis, 'queueMicrotask').mockImplementation((callback) => {
+      reported.push(callback);
+    });
+    const breaker = circuitBreaker(
+      async () => {
+        if (!healthy) {
+          throw new Error('down');
+        }
+        return 'ok';
+      },
+      {
+        failureThreshold: 1,
+        resetTimeout: 100,
+        clock,
+        onStateChange: ({ to }) => {
+          if (to === 'closed') {
+            throw new Error('listener broke');
+          }
+        },
+      }
+    );
+
+    try {
+      await expect(breaker()).rejects.toThrow('down');
+      clock.advance(100);
+      healthy = true;
+      await expect(breaker()).resolves.toBe('ok');
+    } finally {
+      spy.mockRestore();
+    }
+    expect(breaker.state).toBe('closed');
+    expect(reported).toHaveLength(1);
+    expect(() => reported[0]?.()).toThrow('listener broke');
+  });
+
+  it('should ignore trial outcomes from an earlier half-open round', async () => {
+    const clock = createClock();
+    const pending: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+    const breaker = circuitBreaker(
+      () =>
+        new Promise<void>((resolve, reject) => {
+          pending.push({ resolve, reject });
+        }),
+      { failureThreshold: 1, resetTimeout: 100, halfOpenMaxCalls: 2, clock }
+    );
+
+    const first = breaker();
+    pending[0]?.reject(new Error('down'));
+    await expect(first).rejects.toThrow('down');
+    clock.advance(100);
+
+    const failing = breaker();
+    const succeeding = breaker();
+    pending[1]?.reject(new Error('still down'));
+    await expect(failing).rejects.toThrow('still down');
+    expect(breaker.state).toBe('open');
+
+    pending[2]?.resolve();
+    await expect(succeeding).resolves.toBeUndefined();
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should ignore errors rejected by isFailure', async () => {
+    const breaker = circuitBreaker(
+      async () => {
+        throw new Error('not found');
+      },
+      { failureThreshold: 1, isFailure: (error) => (error as Error).message !== 'not found' }
+    );
+
+    await expect(breaker()).rejects.toThrow('not found');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should compose with retry without retrying open-circuit failures', async () => {
+    const operation = vi.fn(async () => {
+      throw new Error('down');
+    });
+    const breaker = circuitBreaker(operation, { failureThreshold: 2 });
+
+    const error = await retry(() => breaker(), {
+      retries: 5,
+      delay: 0,
+      shouldRetry: (caught) => !isCircuitOpen(caught),
+    }).catch((caught: unknown) => caught);
+
+    expect(isCircuitOpen(error)).toBe(true);
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should support manual open, reset and unsubscribe', () => {
+    const listener = vi.fn();
+    const breaker = circuitBreaker(async () => 1);
+    const unsubscribe = breaker.onStateChange(listener);
+
+    breaker.open();
+    expect(breaker.state).toBe('open');
+    unsubscribe();
+    breaker.reset();
+    expect(breaker.state).toBe('closed');
+    expect(listener).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,306 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { sleep } from '../../src/runtime/async.js';
+import { isUtilsError } from '../../src/runtime/error.js';
+import {
+  compose,
+  composeAsync,
+  debounce,
+  debounceAsync,
+  flow,
+  memoize,
+  pipe,
+  pipeAsync,
+  throttle,
+  throttleAsync,
+} from '../../src/runtime/function.js';
+
+const double = (value: number) => value * 2;
+const increment = (value: number) => value + 1;
+const toLabel = (value: number) => `#${value}`;
+
+describe('function', () => {
+  describe('pipe / compose', () => {
+    it('should apply stages left to right and right to left', () => {
+      expect(pipe(double, increment, toLabel)(3)).toBe('#7');
+      expect(compose(toLabel, increment, double)(3)).toBe('#7');
+    });
+  });
+
+  describe('pipeAsync / composeAsync', () => {
+    const delayedDouble = async (value: number) => {
+      await sleep(1);
+      return double(value);
+    };
+
+    it('should await promise-returning stages in order', async () => {
+      await expect(pipeAsync(delayedDouble, increment, toLabel)(3)).resolves.toBe('#7');
+      await expect(composeAsync(toLabel, increment, delayedDouble)(3)).resolves.toBe('#7');
+    });
+
+    it('should reject with the first failing stage and skip the rest', async () => {
+      const calls: string[] = [];
+      const run = pipeAsync(
+        async (value: number) => {
+          calls.push('first');
+          throw new Error(`bad ${value}`);
+        },
+        () => calls.push('second')
+      );
+
+      await expect(run(1)).rejects.toThrow('bad 1');
+      expect(calls).toEqual(['first']);
+    });
+  });
+
+  describe('flow', () => {
+    it('should pass every argument to the first function', () => {
+      const total = flow((a: number, b: number) => a + b, double, toLabel);
+      expect(total(2, 3)).toBe('#10');
+    });
+  });
+
+  describe('memoize', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should keep a custom resolver as the second argument', () => {
+      const square = vi.fn((value: number) => value * value);
+      const memoized = memoize(square, (value) => String(value % 10));
+      expect(memoized(2)).toBe(4);
+      expect(memoized(12)).toBe(4);
+      expect(square).toHaveBeenCalledOnce();
+    });
+
+    it('should evict the least recently used entry beyond maxSize', () => {
+      const identity = vi.fn((value: number) => value);
+      const memoized = memoize(identity, { maxSize: 2 });
+      memoized(1);
+      memoized(2);
+      memoized(1);
+      memoized(3);
+
+      memoized(1);
+      expect(identity).toHaveBeenCalledTimes(3);
+      memoized(2);
+      expect(identity).toHaveBeenCalledTimes(4);
+      expect(memoized.cache.stats()).toEqual({ hits: 2, misses: 4, evictions: 2, size: 2 });
+    });
+
+    it('should expire entries after ttl', () => {
+      vi.useFakeTimers();
+      const now = vi.fn(() => Date.now());
+      const memoized = memoize(now, { ttl: 100 });
+      const first = memoized();
+
+      vi.advanceTimersByTime(50);
+      expect(memoized()).toBe(first);
+      vi.advanceTimersByTime(60);
+      expect(memoized()).not.toBe(first);
+      expect(now).toHaveBeenCalledTimes(2);
+    });
+
+    it('should key object arguments by identity with weakKeys', () => {
+      const cyclic: { self?: unknown } = {};
+      cyclic.self = cyclic;
+      const describe = vi.fn((value: object) => Object.keys(value).length);
+      const memoized = memoize(describe, { weakKeys: true });
+
+      expect(memoized(cyclic)).toBe(1);
+      expect(memoized(cyclic)).toBe(1);
+      expect(memoized({ self: 1 })).toBe(1);
+      expect(describe).toHaveBeenCalledTimes(2);
+    });
+
+    it('should key mixed arguments and argument counts with weakKeys', () => {
+      const target = {};
+      const count = vi.fn((...args: unknown[]) => args.length);
+      const memoized = memoize(count, { weakKeys: true });
+
+      memoized(target, 1);
+      memoized(target, 1);
+      memoized(target, '1');
+      memoized(target);
+      memoized(target, undefined);
+      expect(count).toHaveBeenCalledTimes(4);
+      expect(memoized.cache.stats().size).toBe(4);
+
+      expect(memoized.cache.delete(target, 1)).toBe(true);
+      expect(memoized.cache.delete(target, 1)).toBe(false);
+      memoized(target, 1);
+      expect(count).toHaveBeenCalledTimes(5);
+    });
+
+    it('should evict least recently used weakKeys entries beyond maxSize', () => {
+      const [a, b, c] = [{}, {}, {}];
+      const identity = vi.fn((value: object) => value);
+      const memoized = memoize(identity, { weakKeys: true, maxSize: 2 });
+
+      memoized(a);
+      memoized(b);
+      memoized(a);
+      memoized(c);
+      expect(memoized.cache.stats()).toEqual({ hits: 1, misses: 3, evictions: 1, size: 2 });
+      memoized(a);
+      memoized(b);
+      expect(identity).toHaveBeenCalledTimes(4);
+    });
+
+    it('should share in-flight promises and evict rejected ones', async () => {
+      let calls = 0;
+      const load = memoize(async (id: number) => {
+        calls++;
+        await sleep(1);
+        if (calls === 1) {
+          throw new Error(`failed ${id}`);
+        }
+        return id;
+      });
+
+      const results = await Promise.allSettled([load(1), load(1)]);
+      expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+      expect(calls).toBe(1);
+
+      await expect(load(1)).resolves.toBe(1);
+      expect(calls).toBe(2);
+    });
+
+    it('should expose clear and delete on the cache handle', () => {
+      const double = vi.fn((value: number) => value * 2);
+      const memoized = memoize(double);
+      memoized(1);
+      memoized(2);
+
+      expect(memoized.cache.delete(1)).toBe(true);
+      expect(memoized.cache.delete(1)).toBe(false);
+      memoized.cache.clear();
+      expect(memoized.cache.stats().size).toBe(0);
+      memoized(2);
+      expect(double).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('debounce / throttle', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should debounce to the trailing call with the latest arguments', () => {
+      vi.useFakeTimers();
+      const spy = vi.fn((value: number) => value);
+      const debounced = debounce(spy, 100);
+
+      debounced(1);
+      vi.advanceTimersByTime(50);
+      debounced(2);
+      vi.advanceTimersByTime(99);
+      expect(spy).not.toHaveBeenCalled();
+      expect(debounced.pending()).toBe(true);
+
+      vi.advanceTimersByTime(1);
+      expect(spy).toHaveBeenCalledOnce();
+      expect(spy).toHaveBeenCalledWith(2);
+      expect(debounced.pending()).toBe(false);
+    });
+
+    it('should invoke on the leading edge and at most every maxWait', () => {
+      vi.useFakeTimers();
+      const spy = vi.fn();
+      const debounced = debounce(spy, 100, { leading: true, maxWait: 250 });
+
+      for (let tick = 0; tick < 10; tick++) {
+        debounced(tick);
+        vi.advanceTimersByTime(50);
+      }
+      expect(spy.mock.calls).toEqual([[0], [4], [9]]);
+    });
+
+    it('should cancel and flush pending calls', () => {
+      vi.useFakeTimers();
+      const spy = vi.fn((value: string) => value.toUpperCase());
+      const debounced = debounce(spy, 100);
+
+      debounced('a');
+      debounced.cancel();
+      vi.advanceTimersByTime(200);
+      expect(spy).not.toHaveBeenCalled();
+
+      debounced('b');
+      expect(debounced.flush()).toBe('B');
+      expect(debounced.pending()).toBe(false);
+      expect(debounced.flush()).toBe('B');
+      expect(spy).toHaveBeenCalledOnce();
+    });
+
+    it('should throttle with leading and trailing calls by default', () => {
+      vi.useFakeTimers();
+      const spy = vi.fn();
+      const throttled = throttle(spy, 100);
+
+      throttled(1);
+      throttled(2);
+      throttled(3);
+      expect(spy.mock.calls).toEqual([[1]]);
+      vi.advanceTimersByTime(100);
+      expect(spy.mock.calls).toEqual([[1], [3]]);
+
+      const leadingOnly = throttle(spy, 100, { trailing: false });
+      leadingOnly(4);
+      leadingOnly(5);
+      vi.advanceTimersByTime(100);
+      expect(spy.mock.calls).toEqual([[1], [3], [4]]);
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => debounce(() => undefined, 10, { leading: false, trailing: false })).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+    });
+
+    it('should resolve every coalesced caller with the single async result', async () => {
+      vi.useFakeTimers();
+      const spy = vi.fn(async (value: number) => value * 10);
+      const debounced = debounceAsync(spy, 100);
+
+      const calls = [debounced(1), debounced(2), debounced(3)];
+      await vi.advanceTimersByTimeAsync(100);
+      await expect(Promise.all(calls)).resolves.toEqual([30, 30, 30]);
+      expect(spy).toHaveBeenCalledOnce();
+    });
+
+    it('should reject coalesced callers when the async invocation fails', async () => {
+      vi.useFakeTimers();
+      const debounced = debounceAsync(async () => {
+        throw new Error('nope');
+      }, 10);
+
+      const calls = Promise.allSettled([debounced(), debounced()]);
+      await vi.advanceTimersByTimeAsync(10);
+      expect((await calls).map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    });
+
+    it('should share the leading result when throttleAsync skips the trailing call', async () => {
+      vi.useFakeTimers();
+      let calls = 0;
+      const throttled = throttleAsync(async () => ++calls, 100, { trailing: false });
+
+      const pending = [throttled(), throttled()];
+      await vi.advanceTimersByTimeAsync(100);
+      await expect(Promise.all(pending)).resolves.toEqual([1, 1]);
+    });
+
+    it('should reject waiting async callers with ABORTED on cancel and run them on flush', async () => {
+      vi.useFakeTimers();
+      const debounced = debounceAsync(async (value: string) => value, 100);
+
+      const cancelled = debounced('a').catch((error: unknown) => error);
+      debounced.cancel();
+      const error = await cancelled;
+      expect(isUtilsError(error) && error.code).toBe('ABORTED');
+
+      const flushed = debounced('b');
+      await expect(debounced.flush()).resolves.toBe('b');
+      await expect(flushed).resolves.toBe('b');
+    });
+  });
+});
@@ -1,13 +1,36 @@
 import { describe, it, expect } from 'vitest';
 import {
+  deepClone,
+  deepMerge,
+  deepMergeWith,
   defaults,
   defaultsDeep,
+  defaultsDeepWith,
   keys,
   values,
   entries,
   fromPairs,
   toPairs,
   size,
+  pick,
+  omit,
+  get,
+  set,
+  has,
+  mapValues,
+  isEqual,
+  flattenObject,
+  unflattenObject,
+  isEqualWith,
+  whyNotEqual,
+  diff,
+  applyPatch,
+  toJsonPatch,
+  setIn,
+  updateIn,
+  deleteIn,
+  mergeIn,
+  produce,
 } from '../../src/runtime/object/index.js';
 
 describe('object', () => {
@@ -88,4 +111,879 @@ describe('object', () => {
       expect(size(undefined)).toBe(0);
     });
   });
+
+  describe('data-last', () => {
+    const user = { id: 1, name: 'Ada', password: 'secret' };
+
+    it('should return functions that match the data-first results', () => {
+      expect(pick<typeof user, 'id'>(['id'])(user)).toEqual({ id: 1 });
+      expect(omit<typeof user, 'password'>(['password'])(user)).toEqual({ id: 1, name: 'Ada' });
+      expect(has('id')(user)).toBe(true);
+      expect(mapValues((value: number) => value * 2)({ a: 1 })).toEqual({ a: 2 });
+      expect(isEqual({ a: [1] })({ a: [1] })).toBe(true);
+    });
+
+    it('should distinguish get(path, default) from get(object, path)', () => {
+      expect(get('a.b', 0)({ a: { b: 2 } })).toBe(2);
+      expect(get('a.c', 0)({ a: {} })).toBe(0);
+      expect(get({ a: { b: 2 } }, 'a.b')).toBe(2);
+      expect(get(['a', 'b'])({ a: { b: 3 } })).toBe(3);
+    });
+
+    it('should treat two-argument calls with a path second as data-first', () => {
+      expect(get<number>('abc', 'length')).toBe(3);
+      expect(get('abc', ['length'])).toBe(3);
+      const maybeString: unknown = 'xy';
+      expect(get(maybeString, 'length')).toBe(2);
+      expect(get([10, 20], '1')).toBe(20);
+    });
+
+    it('should set values when given the target last', () => {
+      const target: Record<string, unknown> = {};
+      set('a.b', 1)(target);
+      expect(target).toEqual({ a: { b: 1 } });
+    });
+  });
+
+  describe('diff', () => {
+    it('should report added, removed and replaced keys', () => {
+      expect(diff({ a: 1, b: 2, nested: { c: 3 } }, { a: 1, nested: { c: 4 }, d: 5 })).toEqual([
+        { op: 'remove', path: ['b'], oldValue: 2 },
+        { op: 'replace', path: ['nested', 'c'], value: 4, oldValue: 3 },
+        { op: 'add', path: ['d'], value: 5 },
+      ]);
+      expect(diff({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([]);
+    });
+
+    it('should diff arrays by index, removing from the end first', () => {
+      expect(diff([1, 2, 3, 4], [1, 5])).toEqual([
+        { op: 'replace', path: [1], value: 5, oldValue: 2 },
+        { op: 'remove', path: [3], oldValue: 4 },
+        { op: 'remove', path: [2], oldValue: 3 },
+      ]);
+      expect(diff([1], [1, 2])).toEqual([{ op: 'add', path: [1], value: 2 }]);
+    });
+
+    it('should compare Dates by time and diff Maps and Sets by key and member', () => {
+      expect(diff({ at: new Date(0) }, { at: new Date(0) })).toEqual([]);
+      expect(diff(new Date(0), new Date(1))).toEqual([
+        { op: 'replace', path: [], value: new Date(1), oldValue: new Date(0) },
+      ]);
+      expect(
+        diff(
+          new Map<string, unknown>([
+            ['a', { n: 1 }],
+            ['b', 2],
+          ]),
+          new Map<string, unknown>([
+            ['a', { n: 2 }],
+            ['c', 3],
+          ])
+        )
+      ).toEqual([
+        { op: 'replace', path: ['a', 'n'], value: 2, oldValue: 1 },
+        { op: 'remove', path: ['b'], oldValue: 2 },
+        { op: 'add', path: ['c'], value: 3 },
+      ]);
+      expect(diff({ tags: new Set(['x', 'y']) }, { tags: new Set(['y', 'z']) })).toEqual([
+        { op: 'remove', path: ['tags', 'x'], oldValue: 'x' },
+        { op: 'add', path: ['tags', 'z'], value: 'z' },
+      ]);
+    });
+
+    it('should replace values of different kinds and handle cycles', () => {
+      expect(diff({ a: [1] }, { a: { 0: 1 } })).toEqual([
+        { op: 'replace', path: ['a'], value: { 0: 1 }, oldValue: [1] },
+      ]);
+
+      const a: Record<string, unknown> = { n: 1 };
+      a.self = a;
+      const b: Record<string, unknown> = { n: 2 };
+      b.self = b;
+      expect(diff(a, b)).toEqual([{ op: 'replace', path: ['n'], value: 2, oldValue: 1 }]);
+    });
+  });
+
+  describe('applyPatch', () => {
+    it('should apply diff operations without mutating the target', () => {
+      const before = {
+        name: 'app',
+        ports: [80, 443, 8080],
+        meta: { owner: 'ops' },
+        env: new Map([['LOG', 'info']]),
+        flags: new Set(['a']),
+      };
+      const after = {
+        name: 'app',
+        ports: [443],
+        meta: { owner: 'platform' },
+        env: new Map([
+          ['LOG', 'debug'],
+          ['TZ', 'UTC'],
+        ]),
+        flags: new Set(['b']),
+        region: 'eu',
+      };
+
+      const patched = applyPatch(before, diff(before, after));
+      expect(patched).toEqual(after);
+      expect(before.ports).toEqual([80, 443, 8080]);
+      expect(before.env.get('LOG')).toBe('info');
+      expect(before.flags.has('a')).toBe(true);
+      expect(patched.name).toBe('app');
+    });
+
+    it('should share unchanged branches', () => {
+      const before = { a: { x: 1 }, b: { y: 1 } };
+      const patched = applyPatch(before, [
+        { op: 'replace', path: ['a', 'x'], value: 2, oldValue: 1 },
+      ]);
+      expect(patched.b).toBe(before.b);
+      expect(patched.a).not.toBe(before.a);
+    });
+
+    it('should accept JSON Patch operations', () => {
+      expect(
+        applyPatch({ tags: ['a'], 'a/b': 1, count: 1 }, [
+          { op: 'add', path: '/tags/-', value: 'b' },
+          { op: 'add', path: '/tags/0', value: 'first' },
+          { op: 'replace', path: '/a~1b', value: 2 },
+          { op: 'remove', path: '/count' },
+        ])
+      ).toEqual({ tags: ['first', 'a', 'b'], 'a/b': 2 });
+      expect(applyPatch({ a: 1 }, [{ op: 'replace', path: '', value: { b: 2 } }])).toEqual({
+        b: 2,
+      });
+    });
+
+    it('should reject missing paths and unsafe segments', () => {
+      expect(() => applyPatch({ a: {} }, [{ op: 'replace', path: '/a/b', value: 1 }])).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+      expect(() => applyPatch([1], [{ op: 'remove', path: [1], oldValue: 1 }])).toThrow(
+        /Invalid array index/
+      );
+      expect(() =>
+        applyPatch({}, [{ op: 'add', path: '/__proto__/polluted', value: true }])
+      ).toThrow(/Unsafe path segment/);
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+  });
+
+  describe('toJsonPatch', () => {
+    it('should convert diff operations to escaped JSON Pointer paths', () => {
+      const before = { 'a/b': 1, 'c~d': [1, 2], e: 1 };
+      const after = { 'a/b': 2, 'c~d': [1], f: true };
+      const patch = toJsonPatch(diff(before, after));
+
+      expect(patch).toEqual([
+        { op: 'replace', path: '/a~1b', value: 2 },
+        { op: 'remove', path: '/c~0d/1' },
+        { op: 'remove', path: '/e' },
+        { op: 'add', path: '/f', value: true },
+      ]);
+      expect(applyPatch(before, patch)).toEqual(after);
+    });
+
+    it('should reject paths that have no JSON Pointer form', () => {
+      expect(() => toJsonPatch(diff(new Map([[{}, 1]]), new Map()))).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+    });
+  });
+
+  describe('immutable updates', () => {
+    const state = {
+      user: { name: 'Ada', settings: { theme: 'light' } },
+      todos: [
+        { title: 'a', done: false },
+        { title: 'b', done: false },
+      ],
+    };
+
+    it('should set values while sharing unchanged branches', () => {
+      const next = setIn(state, ['todos', 0, 'done'], true);
+      expect(next.todos[0]).toEqual({ title: 'a', done: true });
+      expect(state.todos[0]?.done).toBe(false);
+      expect(next.todos[1]).toBe(state.todos[1]);
+      expect(next.user).toBe(state.user);
+      expect(setIn(state, 'user.name', 'Ada')).toBe(state);
+    });
+
+    it('should create missing containers', () => {
+      expect(setIn({}, ['list', 0, 'id'], 1)).toEqual({ list: [{ id: 1 }] });
+      expect(setIn({ a: null } as { a: { b?: number } | null }, 'a.b', 1)).toEqual({ a: { b: 1 } });
+    });
+
+    it('should update, delete and merge at a path', () => {
+      expect(updateIn({ count: 1 }, 'count', (count: number) => count + 1)).toEqual({ count: 2 });
+      expect(updateIn(state, 'user.name', (name: string) => name)).toBe(state);
+
+      expect(deleteIn(state, 'user.settings')).toEqual({
+        user: { name: 'Ada' },
+        todos: state.todos,
+      });
+      expect(deleteIn(state, ['todos', 0]).todos).toEqual([{ title: 'b', done: false }]);
+      expect(deleteIn(state, 'user.missing.key')).toBe(state);
+
+      const merged = mergeIn(state, ['user', 'settings'], { theme: 'dark', compact: true });
+      expect(merged.user.settings).toEqual({ theme: 'dark', compact: true });
+      expect(merged.todos).toBe(state.todos);
+      expect(mergeIn(state, 'user.settings', { theme: 'light' })).toBe(state);
+    });
+
+    it('should support data-last calls', () => {
+      expect(setIn('a.b', 1)({ a: { b: 0 } })).toEqual({ a: { b: 1 } });
+      expect(updateIn(['n'], (n: number) => n * 2)({ n: 2 })).toEqual({ n: 4 });
+      expect(deleteIn('a')({ a: 1, b: 2 })).toEqual({ b: 2 });
+      expect(mergeIn('a', { c: 3 })({ a: { b: 2 } })).toEqual({ a: { b: 2, c: 3 } });
+    });
+
+    it('should reject prototype paths', () => {
+      expect(() => setIn({} as unknown, '__proto__.polluted', true)).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+      expect(() => mergeIn({}, [], JSON.parse('{"__proto__": {"polluted": true}}'))).toThrow(
+        /Unsafe path segment/
+      );
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+  });
+
+  describe('produce', () => {
+    const base = {
+      user: { name: 'Ada', tags: ['admin'] },
+      todos: [
+        { title: 'a', done: false },
+        { title: 'b', done: false },
+      ],
+    };
+
+    it('should apply mutations to a copy, sharing untouched branches', () => {
+      const next = produce(base, (draft) => {
+        draft.todos[0]!.done = true;
+        draft.todos.push({ title: 'c', done: false });
+      });
+
+      expect(next.todos).toEqual([
+        { title: 'a', done: true },
+        { title: 'b', done: false },
+        { title: 'c', done: false },
+      ]);
+      expect(base.todos).toHaveLength(2);
+      expect(base.todos[0]?.done).toBe(false);
+      expect(next.todos[1]).toBe(base.todos[1]);
+      expect(next.user).toBe(base.user);
+    });
+
+    it('should return the base when nothing changes', () => {
+      expect(produce(base, () => undefined)).toBe(base);
+      expect(
+        produce(base, (draft) => {
+          draft.user.name = 'Ada';
+        })
+      ).toBe(base);
+    });
+
+    it('should support deletes, array methods and moving drafts', () => {
+      const next = produce(base, (draft) => {
+        delete (draft.user as { tags?: string[] }).tags;
+        draft.todos = draft.todos.filter((todo) => todo.title !== 'a');
+        draft.todos[0]!.done = true;
+      });
+
+      expect(next).toEqual({ user: { name: 'Ada' }, todos: [{ title: 'b', done: true }] });
+      expect(base.todos[1]).toEqual({ title: 'b', done: false });
+      expect(base.user.tags).toEqual(['admin']);
+    });
+
+    it('should use a returned value as the next state', () => {
+      expect(produce(base, (draft) => ({ ...draft, user: { name: 'Bob', tags: [] } }))).toEqual({
+        user: { name: 'Bob', tags: [] },
+        todos: base.todos,
+      });
+      expect(produce(1, (value) => value + 1)).toBe(2);
+    });
+
+    it('should revoke drafts after the recipe returns', () => {
+      let leaked: { user: { name: string } } | undefined;
+      produce(base, (draft) => {
+        leaked = draft;
+      });
+      expect(() => leaked?.user).toThrow(TypeError);
+    });
+
+    it('should keep assigned frozen and shared values untouched', () => {
+      const frozen = Object.freeze({ x: Object.freeze({ y: 1 }) });
+      const shared = { z: 1 };
+      const next = produce(base as Record<string, unknown>, (draft) => {
+        draft.frozen = frozen;
+        draft.a = shared;
+        draft.b = [shared];
+      });
+      expect(next.frozen).toBe(frozen);
+      expect(next.a).toBe(shared);
+      expect((next.b as unknown[])[0]).toBe(shared);
+    });
+
+    it('should copy assigned containers that hold drafts instead of writing to them', () => {
+      const holder: Record<string, unknown> = {};
+      const next = produce(base, (draft) => {
+        holder.user = draft.user;
+        (draft as Record<string, unknown>).wrapped = holder;
+      }) as typeof base & { wrapped: Record<string, unknown> };
+      expect(next.wrapped === holder).toBe(false);
+      expect(next.wrapped.user).toBe(base.user);
+      expect(holder.user === base.user).toBe(false);
+    });
+  });
+
+  describe('paths', () => {
+    const order = { id: 1, items: [{ id: 7, tags: ['new'] }], meta: { 'x-key': 1 } };
+
+    it('should accept runtime string paths and explicit result types', () => {
+      const path: string = 'items[0].id';
+      expect(get(order, path)).toBe(7);
+      expect(get<number>(order, 'items[0].id') + 1).toBe(8);
+      const target = { a: { b: 0 } };
+      set(target, 'a.b' as string, 2);
+      set<number>(target, 'a.c', 3);
+      expect(target).toEqual({ a: { b: 2, c: 3 } });
+    });
+
+    it("should treat '' as a key rather than the root", () => {
+      expect(get(order, '' as string)).toBeUndefined();
+      expect(get({ '': 1 }, '')).toBe(1);
+      expect(get(order, '' as string, 'none')).toBe('none');
+      expect(has(order, '' as string)).toBe(false);
+    });
+
+    it('should read bracket and dot index paths', () => {
+      expect(get(order, 'items[0].id')).toBe(7);
+      expect(get(order, 'items.0.tags[0]')).toBe('new');
+      expect(get(order, 'items[1].id', -1)).toBe(-1);
+      expect(get(order, ['meta', 'x-key'])).toBe(1);
+      expect(has(order, 'items[0].tags')).toBe(true);
+      expect(has(order, 'items[2]')).toBe(false);
+    });
+
+    it('should follow dotted paths in has', () => {
+      expect(has({ a: { b: 1 } }, 'a.b')).toBe(true);
+      expect(has(JSON.parse('{"a": 1}'), 'a.b')).toBe(false);
+    });
+
+    it('should create arrays for bracketed indexes in set', () => {
+      const target: Record<string, unknown> = {};
+      set(target, 'items[0].id', 1);
+      set(target, 'meta.0', 'zero');
+      expect(target).toEqual({ items: [{ id: 1 }], meta: { 0: 'zero' } });
+
+      set(target, 'items[0].id', 2);
+      expect(target).toEqual({ items: [{ id: 2 }], meta: { 0: 'zero' } });
+    });
+
+    it('should reject malformed paths', () => {
+      expect(() => get(order, 'items[0' as never)).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+    });
+  });
+
+  describe('deepClone', () => {
+    it('should clone nested data into new instances', () => {
+      const source = {
+        list: [1, { a: 1 }],
+        when: new Date(0),
+        map: new Map([['k', { v: 1 }]]),
+        set: new Set([[1]]),
+      };
+      const clone = deepClone(source);
+
+      expect(clone).toEqual(source);
+      expect(clone.list[1]).not.toBe(source.list[1]);
+      expect(clone.when).not.toBe(source.when);
+      expect(clone.map.get('k')).not.toBe(source.map.get('k'));
+      expect([...clone.set][0]).not.toBe([...source.set][0]);
+    });
+
+    it('should preserve cycles, shared references and prototypes', () => {
+      class Point {
+        constructor(
+          public x: number,
+          public y: number
+        ) {}
+        length(): number {
+          return Math.hypot(this.x, this.y);
+        }
+      }
+      const shared = new Point(3, 4);
+      const source: Record<string, unknown> = { a: shared, b: shared };
+      source.self = source;
+
+      const clone = deepClone(source);
+      expect(clone.self).toBe(clone);
+      expect(clone.a).toBe(clone.b);
+      expect(clone.a).not.toBe(shared);
+      expect(clone.a).toBeInstanceOf(Point);
+      expect((clone.a as Point).length()).toBe(5);
+    });
+
+    it('should clone RegExp, binary data, Errors and symbol keys', () => {
+      const tag = Symbol('tag');
+      const bytes = new Uint16Array([1, 2, 3]);
+      const error = new TypeError('boom', { cause: { code: 1 } });
+      const source = {
+        pattern: /a+/gi,
+        bytes,
+        view: new Uint8Array(bytes.buffer, 2, 2),
+        buffer: new ArrayBuffer(4),
+        error,
+        [tag]: { hidden: true },
+      };
+      Object.defineProperty(source, 'secret', { value: { s: 1 }, enumerable: false });
+
+      const clone = deepClone(source);
+      expect(clone.pattern).not.toBe(source.pattern);
+      expect(clone.pattern.source).toBe('a+');
+      expect(clone.pattern.flags).toBe('gi');
+
+      expect(clone.bytes).toBeInstanceOf(Uint16Array);
+      expect([...clone.bytes]).toEqual([1, 2, 3]);
+      expect(clone.bytes.buffer).not.toBe(bytes.buffer);
+      expect(clone.view.buffer).toBe(clone.bytes.buffer);
+      clone.bytes[0] = 9;
+      expect(bytes[0]).toBe(1);
+      expect(clone.buffer).not.toBe(source.buffer);
+      expect(clone.buffer.byteLength).toBe(4);
+
+      expect(clone.error).toBeInstanceOf(TypeError);
+      expect(clone.error).not.toBe(error);
+      expect(clone.error.message).toBe('boom');
+      expect(clone.error.cause).toEqual({ code: 1 });
+      expect(clone.error.cause).not.toBe(error.cause);
+
+      expect(clone[tag]).toEqual({ hidden: true });
+      expect(clone[tag]).not.toBe(source[tag]);
+      expect(Object.getOwnPropertyDescriptor(clone, 'secret')?.enumerable).toBe(false);
+    });
+
+    it('should use customizer results and fall back for undefined', () => {
+      const seen: unknown[] = [];
+      const clone = deepClone(
+        { keep: { id: 1 }, copy: { id: 2 } },
+        {
+          customizer: (value, key) => {
+            seen.push(key);
+            return key === 'keep' ? value : undefined;
+          },
+        }
+      );
+
+      expect(seen).toEqual([undefined, 'keep', 'copy', 'id']);
+      expect(clone.copy).toEqual({ id: 2 });
+    });
+
+    it('should fail with a UtilsError beyond maxDepth', () => {
+      const nested = { a: { b: { c: { d: 1 } } } };
+      expect(deepClone(nested, { maxDepth: 3 })).toEqual(nested);
+      expect(() => deepClone(nested, { maxDepth: 2 })).toThrow(
+        expect.objectContaining({
+          code: 'INVALID_RANGE',
+          details: { maxDepth: 2, path: ['a', 'b', 'c'] },
+        })
+      );
+      expect(() => deepClone(nested, { maxDepth: -1 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+    });
+
+    it('should delegate to structuredClone when requested', () => {
+      const source = { when: new Date(0), list: [1, 2] };
+      const clone = deepClone(source, { structuredClone: true });
+      expect(clone).toEqual(source);
+      expect(clone.list).not.toBe(source.list);
+
+      expect(() => deepClone({ fn: () => 1 }, { structuredClone: true })).toThrow(
+        expect.objectContaining({ code: 'OPERATION_FAILED' })
+      );
+    });
+  });
+
+  describe('deepMerge', () => {
+    const base = {
+      server: { host: 'localhost', port: 80, tags: ['a'] },
+      plugins: [
+        { name: 'auth', enabled: true },
+        { name: 'cache', enabled: false },
+      ],
+    };
+
+    it('should merge objects and replace arrays without mutating inputs', () => {
+      const override = { server: { port: 8080, tags: ['b'] } };
+      const merged = deepMerge(base, override, { extra: true });
+
+      expect(merged).toEqual({
+        server: { host: 'localhost', port: 8080, tags: ['b'] },
+        plugins: base.plugins,
+        extra: true,
+      });
+      expect(base.server).toEqual({ host: 'localhost', port: 80, tags: ['a'] });
+      expect(merged.server).not.toBe(base.server);
+      expect(deepMerge(base, undefined as unknown as object)).toEqual(base);
+    });
+
+    it('should apply array strategies', () => {
+      expect(deepMergeWith({ arrays: 'concat' })({ a: [1, 2] }, { a: [2, 3] })).toEqual({
+        a: [1, 2, 2, 3],
+      });
+      expect(deepMergeWith({ arrays: 'union' })({ a: [1, 2] }, { a: [2, 3] })).toEqual({
+        a: [1, 2, 3],
+      });
+      expect(
+        deepMergeWith({ arrays: 'merge' })({ a: [{ x: 1 }, { x: 2 }] }, { a: [{ y: 1 }] })
+      ).toEqual({ a: [{ x: 1, y: 1 }, { x: 2 }] });
+      expect(
+        deepMergeWith({ arrays: { unionBy: 'name' } })(base, {
+          plugins: [
+            { name: 'cache', enabled: true },
+            { name: 'metrics', enabled: true },
+          ],
+        }).plugins
+      ).toEqual([
+        { name: 'auth', enabled: true },
+        { name: 'cache', enabled: true },
+        { name: 'metrics', enabled: true },
+      ]);
+    });
+
+    it('should merge Maps and union Sets when requested', () => {
+      const target = { env: new Map([['A', { v: 1 }]]), flags: new Set(['x']) };
+      const source = {
+        env: new Map([
+          ['A', { w: 2 }],
+          ['B', { v: 3 }],
+        ]),
+        flags: new Set(['y']),
+      };
+
+      expect(deepMerge(target, source)).toEqual(source);
+      const merged = deepMergeWith({ maps: 'merge', sets: 'union' })(target, source);
+      expect([...merged.env]).toEqual([
+        ['A', { v: 1, w: 2 }],
+        ['B', { v: 3 }],
+      ]);
+      expect([...merged.flags]).toEqual(['x', 'y']);
+      expect(target.env.get('A')).toEqual({ v: 1 });
+    });
+
+    it('should optionally skip undefined values', () => {
+      const override = { server: { host: undefined, port: 81 } };
+      expect(deepMerge(base, override).server.host).toBeUndefined();
+      expect(deepMergeWith({ skipUndefined: true })(base, override).server).toEqual({
+        host: 'localhost',
+        port: 81,
+        tags: ['a'],
+      });
+    });
+
+    it('should call the customizer with the key path', () => {
+      const paths: string[] = [];
+      const merged = deepMergeWith({
+        customizer: (current, next, path) => {
+          paths.push(path.join('.'));
+          return path.join('.') === 'server.tags'
+            ? [...(current as string[]), ...(next as string[])]
+            : undefined;
+        },
+      })(base, { server: { tags: ['b'], tls: true } });
+
+      expect(merged.server.tags).toEqual(['a', 'b']);
+      expect(paths).toEqual(['server', 'server.tags', 'server.tls']);
+    });
+
+    it('should reject targets that are not plain objects', () => {
+      class Settings {
+        a = 1;
+      }
+
+      expect(() => deepMerge(new Settings(), { a: 2 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+      expect(() => defaultsDeep([1], [2])).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+    });
+
+    it('should ignore __proto__ keys from parsed input', () => {
+      const merged = deepMerge({}, JSON.parse('{"__proto__": {"polluted": true}, "a": 1}'));
+      expect(merged).toEqual({ a: 1 });
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+      expect(Object.getPrototypeOf(merged)).toBe(Object.prototype);
+    });
+  });
+
+  describe('defaultsDeepWith', () => {
+    it('should keep target values and fill gaps with strategies', () => {
+      const withDefaults = defaultsDeepWith({ skipUndefined: true, arrays: 'union' });
+      expect(
+        withDefaults(
+          { port: undefined, tags: ['api'], tls: { enabled: true } },
+          { port: 8080, tags: ['web'], tls: { enabled: false, cert: 'a.pem' } }
+        )
+      ).toEqual({ port: 8080, tags: ['api', 'web'], tls: { enabled: true, cert: 'a.pem' } });
+      expect(defaultsDeep({ port: undefined }, { port: 8080 })).toEqual({ port: undefined });
+    });
+  });
+
+  describe('isEqualWith', () => {
+    it('should compare built-ins by content in isEqual', () => {
+      expect(isEqual(new Date(1), new Date(1))).toBe(true);
+      expect(isEqual(new Date(1), new Date(2))).toBe(false);
+      expect(isEqual(new Map([['a', { b: 1 }]]), new Map([['a', { b: 1 }]]))).toBe(true);
+      expect(isEqual(new Map([['a', 1]]), new Map([['a', 2]]))).toBe(false);
+      expect(isEqual(new Set([{ a: 1 }]), new Set([{ a: 1 }]))).toBe(true);
+      expect(isEqual(new Set([1]), new Set([2]))).toBe(false);
+      expect(isEqual(/a/g, /a/g)).toBe(true);
+      expect(isEqual(/a/g, /a/i)).toBe(false);
+    });
+
+    it('should compare binary data and errors', () => {
+      expect(isEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBe(true);
+      expect(isEqual(new Uint8Array([1, 2]), new Uint8Array([1, 3]))).toBe(false);
+      expect(isEqual(new Uint8Array([1]), new Int8Array([1]))).toBe(false);
+      expect(isEqual(new Uint8Array([1, 2]).buffer, new Uint8Array([1, 2]).buffer)).toBe(true);
+      expect(isEqual(new ArrayBuffer(2), new ArrayBuffer(3))).toBe(false);
+      expect(isEqual(new Error('boom'), new Error('boom'))).toBe(true);
+      expect(isEqual(new Error('boom'), new Error('bang'))).toBe(false);
+      expect(isEqual(new Error('boom'), new TypeError('boom'))).toBe(false);
+    });
+
+    it('should handle circular references', () => {
+      const a: Record<string, unknown> = { name: 'a' };
+      a.self = a;
+      const b: Record<string, unknown> = { name: 'a' };
+      b.self = b;
+      expect(isEqual(a, b)).toBe(true);
+      b.name = 'b';
+      expect(isEqual(a, b)).toBe(false);
+    });
+
+    it('should compare arrays without order', () => {
+      expect(isEqualWith([1, 2, 2], [2, 1, 2], { unorderedArrays: true })).toBe(true);
+      expect(isEqualWith([1, 1, 2], [1, 2, 2], { unorderedArrays: true })).toBe(false);
+      expect(
+        isEqualWith([{ id: 1 }, { id: 2 }], [{ id: 2 }, { id: 1 }], { unorderedArrays: true })
+      ).toBe(true);
+      expect(isEqualWith([1, 2], [2, 1])).toBe(false);
+    });
+
+    it('should match unordered elements when equality is not transitive', () => {
+      expect(isEqualWith([1, 0], [0.5, 1.5], { unorderedArrays: true, tolerance: 0.5 })).toBe(true);
+      expect(isEqualWith([1, 0], [1.5, 1.4], { unorderedArrays: true, tolerance: 0.5 })).toBe(
+        false
+      );
+      expect(
+        isEqualWith(
+          [
+            { id: 1, v: 1 },
+            { id: 2, v: 1 },
+          ],
+          [
+            { id: 2, v: 1 },
+            { id: 3, v: 2 },
+          ],
+          { unorderedArrays: true, ignorePaths: ['*.id'] }
+        )
+      ).toBe(false);
+    });
+
+    it('should skip ignored paths', () => {
+      const a = { id: 1, meta: { updatedAt: 1 }, items: [{ id: 'x', value: 1 }] };
+      const b = { id: 1, meta: { updatedAt: 2 }, items: [{ id: 'y', value: 1 }] };
+      expect(isEqualWith(a, b)).toBe(false);
+      expect(isEqualWith(a, b, { ignorePaths: ['meta.updatedAt', 'items.*.id'] })).toBe(true);
+      expect(isEqualWith({ a: 1 }, { a: 1, extra: true }, { ignorePaths: [['extra']] })).toBe(true);
+    });
+
+    it('should apply a numeric tolerance', () => {
+      expect(isEqualWith({ total: 0.1 + 0.2 }, { total: 0.3 })).toBe(false);
+      expect(isEqualWith({ total: 0.1 + 0.2 }, { total: 0.3 }, { tolerance: 1e-9 })).toBe(true);
+      expect(
+        isEqualWith(new Float64Array([1.0000001]), new Float64Array([1]), { tolerance: 1e-6 })
+      ).toBe(true);
+      expect(isEqualWith(1, 1.1, { tolerance: 0.01 })).toBe(false);
+    });
+
+    it('should let a comparator decide or defer', () => {
+      const paths: string[] = [];
+      const comparator = (
+        a: unknown,
+        b: unknown,
+        path: readonly unknown[]
+      ): boolean | undefined => {
+        paths.push(path.join('.'));
+        return typeof a === 'string' && typeof b === 'string'
+          ? a.toLowerCase() === b.toLowerCase()
+          : undefined;
+      };
+      expect(
+        isEqualWith({ name: 'Ada', tags: ['X'] }, { name: 'ADA', tags: ['x'] }, { comparator })
+      ).toBe(true);
+      expect(paths).toEqual(['', 'name', 'tags', 'tags.0']);
+
+      const kept: Array<readonly unknown[]> = [];
+      isEqualWith(
+        { a: { b: 1 } },
+        { a: { b: 1 } },
+        { comparator: (_a, _b, path) => void kept.push(path) }
+      );
+      expect(kept).toEqual([[], ['a'], ['a', 'b']]);
+      expect(isEqualWith({ a: 1 }, { a: 1 }, { comparator: () => false })).toBe(false);
+    });
+  });
+
+  describe('whyNotEqual', () => {
+    it('should return undefined for equal values', () => {
+      expect(whyNotEqual({ a: [1] }, { a: [1] })).toBeUndefined();
+    });
+
+    it('should report the first differing path', () => {
+      expect(whyNotEqual({ items: [{ id: 1 }] }, { items: [{ id: 2 }] })).toEqual({
+        path: 'items[0].id',
+        reason: '1 is not equal to 2',
+        a: 1,
+        b: 2,
+      });
+      expect(whyNotEqual({ a: 1 }, { a: 1, b: 2 })).toMatchObject({
+        path: 'b',
+        reason: 'missing in a',
+      });
+      expect(whyNotEqual([1], [1, 2])).toMatchObject({
+        path: '',
+        reason: 'length 1 is not equal to 2',
+      });
+      expect(whyNotEqual(new Map([['k', 'v']]), new Map([['k', 'w']]))).toMatchObject({
+        path: 'k',
+      });
+    });
+
+    it('should honour the same options as isEqualWith', () => {
+      expect(
+        whyNotEqual({ total: 0.30000000000000004 }, { total: 0.3 }, { tolerance: 1e-9 })
+      ).toBeUndefined();
+      expect(
+        whyNotEqual({ a: { b: 1 } }, { a: { b: 2 } }, { ignorePaths: ['a.b'] })
+      ).toBeUndefined();
+    });
+  });
+
+  describe('flattenObject', () => {
+    const config = {
+      db: { host: 'localhost', ports: [5432, 5433] },
+      features: [{ name: 'a', on: true }],
+      empty: {},
+      none: [],
+      createdAt: new Date(0),
+    };
+
+    it('should flatten nested objects and arrays', () => {
+      expect(flattenObject(config)).toEqual({
+        'db.host': 'localhost',
+        'db.ports.0': 5432,
+        'db.ports.1': 5433,
+        'features.0.name': 'a',
+        'features.0.on': true,
+        empty: {},
+        none: [],
+        createdAt: new Date(0),
+      });
+    });
+
+    it('should support delimiters and array formats', () => {
+      expect(flattenObject({ db: { ports: [1] } }, { delimiter: '__' })).toEqual({
+        db__ports__0: 1,
+      });
+      expect(flattenObject({ items: [{ id: 1 }] }, { arrayFormat: 'bracket' })).toEqual({
+        'items[0].id': 1,
+      });
+      expect(flattenObject({ db: { ports: [1] } }, { arrayFormat: 'keep' })).toEqual({
+        'db.ports': [1],
+      });
+    });
+
+    it('should stop at maxDepth', () => {
+      expect(flattenObject({ a: { b: { c: 1 } } }, { maxDepth: 1 })).toEqual({ 'a.b': { c: 1 } });
+      expect(flattenObject({ a: { b: 1 } }, { maxDepth: 0 })).toEqual({ a: { b: 1 } });
+      expect(() => flattenObject({}, { maxDepth: -1 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+    });
+
+    it('should reject ambiguous keys and cycles', () => {
+      expect(() => flattenObject({ 'a.b': 1 })).toThrow(/cannot be flattened/);
+      expect(() => flattenObject({ '': { b: 1 }, b: 2 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+      expect(flattenObject({ 'a.b': 1 }, { delimiter: '/' })).toEqual({ 'a.b': 1 });
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+      expect(() => flattenObject(circular)).toThrow(/circular/);
+    });
+
+    it('should reject roots that are not plain objects', () => {
+      expect(() => flattenObject([1, 2])).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+      expect(() => flattenObject(new Date(0))).toThrow(/plain object/);
+    });
+  });
+
+  describe('unflattenObject', () => {
+    it('should rebuild nested objects and arrays', () => {
+      expect(unflattenObject({ 'db.host': 'localhost', 'db.ports.0': 5432 })).toEqual({
+        db: { host: 'localhost', ports: [5432] },
+      });
+      expect(unflattenObject({ 'items[0].id': 1 }, { arrayFormat: 'bracket' })).toEqual({
+        items: [{ id: 1 }],
+      });
+      expect(unflattenObject({ DB__PORT: 1 }, { delimiter: '__' })).toEqual({ DB: { PORT: 1 } });
+    });
+
+    it('should only read canonical, reachable indexes as array segments', () => {
+      expect(unflattenObject(flattenObject({ codes: { '01': 'x', '2': 'y' } }))).toEqual({
+        codes: { '01': 'x', '2': 'y' },
+      });
+      expect(unflattenObject({ 'ids.99999999': 1 })).toEqual({ ids: { '99999999': 1 } });
+      expect(unflattenObject({ 'ids[01]': 1 }, { arrayFormat: 'bracket' })).toEqual({
+        'ids[01]': 1,
+      });
+    });
+
+    it('should keep numeric object keys apart from arrays with bracket indexes', () => {
+      const value = { codes: { '0': 'x', '1': 'y' }, list: ['x', 'y'] };
+      expect(unflattenObject(flattenObject(value))).toEqual({
+        codes: ['x', 'y'],
+        list: ['x', 'y'],
+      });
+      const options = { arrayFormat: 'bracket' } as const;
+      expect(unflattenObject(flattenObject(value, options), options)).toEqual(value);
+    });
+
+    it.each([
+      { arrayFormat: 'index', delimiter: '.' },
+      { arrayFormat: 'bracket', delimiter: '.' },
+      { arrayFormat: 'keep', delimiter: '__' },
+    ] as const)('should round-trip with %j', (options) => {
+      const value = {
+        matrix: [
+          [1, 2],
+          [3, 4],
+        ],
+        users: [{ name: 'Ada', tags: ['x'] }],
+        empty: [],
+        nested: { deep: { value: null } },
+      };
+      expect(unflattenObject(flattenObject(value, options), options)).toEqual(value);
+    });
+  });
 });
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterOption,
+  flatMapOption,
+  fromNullable,
+  fromResult,
+  getOrElse,
+  isNone,
+  isSome,
+  mapOption,
+  matchOption,
+  none,
+  some,
+  toResult,
+} from '../../src/runtime/option.js';
+import { err, ok } from '../../src/runtime/result.js';
+import { getOption } from '../../src/runtime/object/index.js';
+
+describe('option', () => {
+  describe('constructors', () => {
+    it('should create present and absent options', () => {
+      expect(some(1)).toEqual({ some: true, value: 1 });
+      expect(none()).toEqual({ some: false });
+      expect(isSome(some(undefined))).toBe(true);
+      expect(isNone(none())).toBe(true);
+    });
+
+    it('should treat null and undefined as absent in fromNullable', () => {
+      expect(fromNullable(null)).toEqual({ some: false });
+      expect(fromNullable(undefined)).toEqual({ some: false });
+      expect(fromNullable(0)).toEqual({ some: true, value: 0 });
+    });
+  });
+
+  describe('combinators', () => {
+    it('should map and flatMap present values', () => {
+      expect(mapOption(some(2), (value) => value * 2)).toEqual({ some: true, value: 4 });
+      expect(mapOption(none<number>(), (value) => value * 2)).toEqual({ some: false });
+      expect(
+        flatMapOption(some({ manager: null }), (value) => fromNullable(value.manager))
+      ).toEqual({ some: false });
+    });
+
+    it('should filter by predicate', () => {
+      expect(filterOption(some(3), (value) => value > 5)).toEqual({ some: false });
+      expect(filterOption(some(8), (value) => value > 5)).toEqual({ some: true, value: 8 });
+    });
+
+    it('should fall back and fold', () => {
+      expect(getOrElse(none<number>(), () => 0)).toBe(0);
+      expect(getOrElse(some(1), () => 0)).toBe(1);
+      expect(matchOption(some('a'), { some: (value) => value, none: () => 'missing' })).toBe('a');
+    });
+  });
+
+  describe('result interop', () => {
+    it('should convert to and from Result', () => {
+      const missing = new Error('missing');
+      expect(toResult(some(1), missing)).toEqual({ ok: true, value: 1 });
+      expect(toResult(none(), missing)).toEqual({ ok: false, error: missing });
+      expect(fromResult(ok(1))).toEqual({ some: true, value: 1 });
+      expect(fromResult(err(missing))).toEqual({ some: false });
+    });
+  });
+
+  describe('getOption', () => {
+    it('should distinguish missing paths from undefined values', () => {
+      const object = { a: { b: undefined, c: 1 } };
+      expect(getOption(object, 'a.b')).toEqual({ some: true, value: undefined });
+      expect(getOption(object, 'a.c')).toEqual({ some: true, value: 1 });
+      expect(getOption(object, 'a.x')).toEqual({ some: false });
+      expect(getOption(object, ['a', 'c', 'd'])).toEqual({ some: false });
+    });
+  });
+});
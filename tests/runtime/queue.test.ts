@@ -0,0 +1,196 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createQueue } from '../../src/runtime/queue.js';
+import { deferred, sleep } from '../../src/runtime/async.js';
+import { isUtilsError } from '../../src/runtime/error.js';
+
+const hasCode = (code: string) => (error: unknown) => isUtilsError(error) && error.code === code;
+
+describe('createQueue', () => {
+  it('should respect the concurrency limit', async () => {
+    const queue = createQueue({ concurrency: 2 });
+    let active = 0;
+    let peak = 0;
+    const task = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await sleep(1);
+      active--;
+    };
+
+    await queue.addAll([task, task, task, task, task]);
+    expect(peak).toBe(2);
+    expect(queue.pending).toBe(0);
+  });
+
+  it('should run higher priorities first and keep insertion order within a priority', async () => {
+    const queue = createQueue({ concurrency: 1, autoStart: false });
+    const order: string[] = [];
+    const record = (name: string) => () => {
+      order.push(name);
+    };
+
+    void queue.add(record('low'), { priority: -1 });
+    void queue.add(record('a'));
+    void queue.add(record('high'), { priority: 5 });
+    void queue.add(record('b'));
+    expect(queue.size).toBe(4);
+
+    queue.resume();
+    await queue.onIdle();
+    expect(order).toEqual(['high', 'a', 'b', 'low']);
+  });
+
+  it('should pause and resume processing', async () => {
+    const queue = createQueue({ concurrency: 1 });
+    const gate = deferred<void>();
+    const second = vi.fn();
+
+    void queue.add(() => gate.promise);
+    queue.pause();
+    void queue.add(second);
+    gate.resolve();
+    await sleep(0);
+
+    expect(queue.isPaused).toBe(true);
+    expect(second).not.toHaveBeenCalled();
+    expect(queue.size).toBe(1);
+
+    queue.resume();
+    await queue.onIdle();
+    expect(second).toHaveBeenCalledOnce();
+  });
+
+  it('should resolve onEmpty before onIdle', async () => {
+    const queue = createQueue({ concurrency: 1 });
+    const gate = deferred<void>();
+    const events: string[] = [];
+
+    void queue.add(() => gate.promise);
+    void queue.add(() => gate.promise);
+
+    const empty = queue.onEmpty().then(() => events.push('empty'));
+    const idle = queue.onIdle().then(() => events.push('idle'));
+    gate.resolve();
+    await Promise.all([empty, idle]);
+    expect(events).toEqual(['empty', 'idle']);
+  });
+
+  it('should reject waiting tasks on clear', async () => {
+    const queue = createQueue({ concurrency: 1 });
+    const gate = deferred<void>();
+    const running = queue.add(() => gate.promise);
+    const waiting = queue.add(() => 'never');
+
+    queue.clear();
+    expect(queue.size).toBe(0);
+    await expect(waiting).rejects.toSatisfy(hasCode('ABORTED'));
+
+    gate.resolve();
+    await expect(running).resolves.toBeUndefined();
+  });
+
+  it('should time out tasks and abort their signal', async () => {
+    const queue = createQueue({ timeout: 5 });
+    let taskSignal: AbortSignal | undefined;
+
+    const pending = queue.add((signal) => {
+      taskSignal = signal;
+      return new Promise<never>(() => undefined);
+    });
+
+    await expect(pending).rejects.toSatisfy(hasCode('TIMEOUT'));
+    expect(taskSignal?.aborted).toBe(true);
+    await expect(queue.add(() => sleep(1), { timeout: 1000 })).resolves.toBeUndefined();
+  });
+
+  it('should keep the slot of a timed out task until the task settles', async () => {
+    const queue = createQueue({ concurrency: 1, timeout: 5 });
+    const gate = deferred<void>();
+    const next = vi.fn();
+
+    const slow = queue.add(() => gate.promise);
+    const waiting = queue.add(next, { timeout: 1000 });
+
+    await expect(slow).rejects.toSatisfy(hasCode('TIMEOUT'));
+    expect(queue.pending).toBe(1);
+    expect(next).not.toHaveBeenCalled();
+
+    gate.resolve();
+    await waiting;
+    expect(next).toHaveBeenCalledOnce();
+    expect(queue.pending).toBe(0);
+  });
+
+  it('should not fail tasks when a listener throws', async () => {
+    const queue = createQueue();
+    const listenerError = new Error('listener');
+    const errors = vi.fn();
+    const reported: Array<() => void> = [];
+    const spy = vi.spyOn(globalThis, 'queueMicrotask').mockImplementation((callback) => {
+      reported.push(callback);
+    });
+    queue.on('completed', () => {
+      throw listenerError;
+    });
+    queue.on('error', errors);
+
+    try {
+      await expect(queue.add(() => 1)).resolves.toBe(1);
+    } finally {
+      spy.mockRestore();
+    }
+    expect(errors).not.toHaveBeenCalled();
+    expect(reported).toHaveLength(1);
+    expect(() => reported[0]?.()).toThrow(listenerError);
+  });
+
+  it('should remove waiting tasks when their signal aborts', async () => {
+    const queue = createQueue({ concurrency: 1 });
+    const gate = deferred<void>();
+    const controller = new AbortController();
+    const task = vi.fn();
+
+    void queue.add(() => gate.promise);
+    const cancelled = queue.add(task, { signal: controller.signal });
+    controller.abort();
+
+    await expect(cancelled).rejects.toSatisfy(hasCode('ABORTED'));
+    gate.resolve();
+    await queue.onIdle();
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('should emit lifecycle events', async () => {
+    const queue = createQueue({ concurrency: 1 });
+    const events: string[] = [];
+    for (const event of ['add', 'active', 'completed', 'error', 'empty', 'idle'] as const) {
+      queue.on(event, () => events.push(event));
+    }
+
+    await queue.add(() => 1);
+    await queue
+      .add(() => {
+        throw new Error('boom');
+      })
+      .catch(() => undefined);
+
+    expect(events).toEqual([
+      'add',
+      'active',
+      'empty',
+      'completed',
+      'idle',
+      'add',
+      'active',
+      'empty',
+      'error',
+      'idle',
+    ]);
+  });
+
+  it('should reject invalid concurrency', () => {
+    expect(() => createQueue({ concurrency: 0 })).toThrow(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+  });
+});
@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { rateLimit } from '../../src/runtime/rate-limit.js';
+import { isUtilsError } from '../../src/runtime/error.js';
+
+const hasCode = (code: string) => (error: unknown) => isUtilsError(error) && error.code === code;
+
+const createClock = () => {
+  let now = 0;
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+};
+
+describe('rateLimit', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run calls immediately while tokens are available', async () => {
+    const limited = rateLimit(async (value: number) => value * 2, {
+      tokensPerInterval: 2,
+      interval: 1000,
+    });
+
+    await expect(Promise.all([limited(1), limited(2)])).resolves.toEqual([2, 4]);
+    expect(limited.remaining).toBe(0);
+  });
+
+  it('should queue excess calls until tokens refill', async () => {
+    const calls: number[] = [];
+    const limited = rateLimit((value: number) => calls.push(value), {
+      tokensPerInterval: 1,
+      interval: 1000,
+    });
+
+    const pending = Promise.all([limited(1), limited(2), limited(3)]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls).toEqual([1]);
+    expect(limited.pending).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(calls).toEqual([1, 2]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(pending).resolves.toEqual([1, 2, 3]);
+  });
+
+  it('should allow bursts above the average rate', async () => {
+    const limited = rateLimit(() => 'ok', { tokensPerInterval: 1, interval: 1000, burst: 3 });
+    await Promise.all([limited(), limited(), limited()]);
+    expect(limited.pending).toBe(0);
+    expect(limited.remaining).toBe(0);
+
+    vi.advanceTimersByTime(500);
+    expect(limited.remaining).toBe(0.5);
+  });
+
+  it('should reject excess calls with RATE_LIMITED when overflow is reject', async () => {
+    const limited = rateLimit(() => 'ok', {
+      tokensPerInterval: 1,
+      interval: 1000,
+      overflow: 'reject',
+    });
+
+    await limited();
+    const error = await limited().catch((caught: unknown) => caught);
+    expect(hasCode('RATE_LIMITED')(error)).toBe(true);
+    expect(isUtilsError(error) && error.details?.['retryAfter']).toBe(1000);
+  });
+
+  it('should reject once the queue is full', async () => {
+    const limited = rateLimit(() => 'ok', { tokensPerInterval: 1, interval: 1000, maxQueue: 1 });
+    await limited();
+    const queued = limited();
+    await expect(limited()).rejects.toSatisfy(hasCode('RATE_LIMITED'));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(queued).resolves.toBe('ok');
+  });
+
+  it('should consume per-call weights', async () => {
+    const limited = rateLimit((items: string[]) => items.length, {
+      tokensPerInterval: 10,
+      interval: 1000,
+      weight: (items) => items.length,
+    });
+
+    await limited(['a', 'b', 'c']);
+    expect(limited.remaining).toBe(7);
+    await limited.schedule({ weight: 5 }, []);
+    expect(limited.remaining).toBe(2);
+    await expect(limited.schedule({ weight: 11 }, [])).rejects.toSatisfy(
+      hasCode('INVALID_ARGUMENT')
+    );
+  });
+
+  it('should reject rather than throw when the weight function throws', async () => {
+    const function_ = vi.fn((items: string[]) => items.length);
+    const limited = rateLimit(function_, {
+      tokensPerInterval: 10,
+      interval: 1000,
+      weight: () => {
+        throw new Error('bad weight');
+      },
+    });
+
+    let pending: Promise<number> | undefined;
+    expect(() => {
+      pending = limited([]);
+    }).not.toThrow();
+    await expect(pending).rejects.toThrow('bad weight');
+    expect(function_).not.toHaveBeenCalled();
+    expect(limited.remaining).toBe(10);
+  });
+
+  it('should limit starts within a sliding window', async () => {
+    const calls: number[] = [];
+    const limited = rateLimit(() => calls.push(Date.now()), {
+      tokensPerInterval: 2,
+      interval: 1000,
+      strategy: 'sliding-window',
+    });
+
+    const start = Date.now();
+    const pending = Promise.all([limited(), limited(), limited()]);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(calls).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(calls.map((time) => time - start)).toEqual([0, 0, 1000]);
+  });
+
+  it('should measure capacity with an injected clock', async () => {
+    const clock = createClock();
+    const bucket = rateLimit(() => 'ok', {
+      tokensPerInterval: 2,
+      interval: 1000,
+      overflow: 'reject',
+      clock,
+    });
+    const sliding = rateLimit(() => 'ok', {
+      tokensPerInterval: 2,
+      interval: 1000,
+      strategy: 'sliding-window',
+      overflow: 'reject',
+      clock,
+    });
+
+    await Promise.all([bucket(), bucket(), sliding(), sliding()]);
+    clock.advance(250);
+    expect(bucket.remaining).toBe(0.5);
+    expect(sliding.remaining).toBe(0);
+    const error = await sliding().catch((caught: unknown) => caught);
+    expect(isUtilsError(error) && error.details?.['retryAfter']).toBe(750);
+
+    clock.advance(750);
+    expect(bucket.remaining).toBe(2);
+    await expect(sliding()).resolves.toBe('ok');
+    expect(sliding.remaining).toBe(1);
+  });
+
+  it('should cancel queued calls via AbortSignal', async () => {
+    const function_ = vi.fn(() => 'ok');
+    const limited = rateLimit(function_, { tokensPerInterval: 1, interval: 1000 });
+    const controller = new AbortController();
+
+    await limited();
+    const cancelled = limited.schedule({ signal: controller.signal });
+    const next = limited();
+    controller.abort();
+
+    await expect(cancelled).rejects.toSatisfy(hasCode('ABORTED'));
+    expect(limited.pending).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(next).resolves.toBe('ok');
+    expect(function_).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject all queued calls on clear', async () => {
+    const limited = rateLimit(() => 'ok', { tokensPerInterval: 1, interval: 1000 });
+    await limited();
+    const queued = limited();
+    limited.clear();
+
+    await expect(queued).rejects.toSatisfy(hasCode('ABORTED'));
+    expect(limited.pending).toBe(0);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should validate options', () => {
+    expect(() => rateLimit(() => 1, { tokensPerInterval: 0, interval: 1000 })).toThrow(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  andThen,
+  andThenAsync,
+  combine,
+  combineAsync,
+  err,
+  fromPromise,
+  fromThrowable,
+  mapErr,
+  mapResult,
+  mapResultAsync,
+  matchResult,
+  ok,
+  orElse,
+  tapErr,
+  tapResult,
+  unwrap,
+  unwrapOr,
+  unwrapOrElse,
+  type Result,
+} from '../../src/runtime/result.js';
+import { isUtilsError } from '../../src/runtime/error.js';
+
+const boom = new Error('boom');
+
+describe('result', () => {
+  describe('mapResult / mapErr', () => {
+    it('should map successful values', () => {
+      expect(mapResult(ok(2), (value) => value * 2)).toEqual({ ok: true, value: 4 });
+    });
+
+    it('should leave failures untouched when mapping values', () => {
+      const failure: Result<number> = err(boom);
+      expect(mapResult(failure, (value) => value * 2)).toBe(failure);
+    });
+
+    it('should map errors', () => {
+      const result = mapErr(err(boom), (error) => new Error(`wrapped: ${error.message}`));
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error.message).toBe('wrapped: boom');
+    });
+
+    it('should support typed error channels', () => {
+      type ParseError = { kind: 'empty' } | { kind: 'nan'; input: string };
+      const parse = (input: string): Result<number, ParseError> => {
+        if (input === '') {
+          return err({ kind: 'empty' });
+        }
+        const value = Number(input);
+        return Number.isNaN(value) ? err({ kind: 'nan', input }) : ok(value);
+      };
+
+      const result = mapErr(parse('x'), (error) => error.kind);
+      expect(result).toEqual({ ok: false, error: 'nan' });
+    });
+  });
+
+  describe('andThen / orElse', () => {
+    const parse = (input: string): Result<number> =>
+      Number.isNaN(Number(input)) ? err(new Error('NaN')) : ok(Number(input));
+
+    it('should chain Result-returning operations', () => {
+      expect(andThen(ok('42'), parse)).toEqual({ ok: true, value: 42 });
+      expect(andThen(ok('x'), parse).ok).toBe(false);
+    });
+
+    it('should recover from failures', () => {
+      expect(orElse(err(boom), () => ok(0))).toEqual({ ok: true, value: 0 });
+      expect(orElse(ok(1), () => ok(0))).toEqual({ ok: true, value: 1 });
+    });
+  });
+
+  describe('unwrap helpers', () => {
+    it('should unwrap values and throw errors', () => {
+      expect(unwrap(ok(1))).toBe(1);
+      expect(() => unwrap(err(boom))).toThrow(boom);
+    });
+
+    it('should fall back on failure', () => {
+      expect(unwrapOr(err(boom), 0)).toBe(0);
+      expect(unwrapOrElse(err(boom), (error) => error.message.length)).toBe(4);
+    });
+  });
+
+  describe('matchResult / tap', () => {
+    it('should fold both branches', () => {
+      const matcher = {
+        ok: (value: number) => `got ${value}`,
+        err: (error: Error) => error.message,
+      };
+      expect(matchResult(ok(1), matcher)).toBe('got 1');
+      expect(matchResult(err(boom), matcher)).toBe('boom');
+    });
+
+    it('should run side effects for the matching branch only', () => {
+      const onValue = vi.fn();
+      const onError = vi.fn();
+      tapErr(tapResult(ok(1), onValue), onError);
+      tapErr(tapResult(err(boom), onValue), onError);
+      expect(onValue).toHaveBeenCalledOnce();
+      expect(onError).toHaveBeenCalledWith(boom);
+    });
+  });
+
+  describe('combine', () => {
+    it('should combine arrays of results', () => {
+      expect(combine([ok(1), ok('a')])).toEqual({ ok: true, value: [1, 'a'] });
+    });
+
+    it('should combine records of results', () => {
+      expect(combine({ id: ok(1), name: ok('a') })).toEqual({
+        ok: true,
+        value: { id: 1, name: 'a' },
+      });
+    });
+
+    it('should short-circuit on the first failure', () => {
+      expect(combine([ok(1), err(boom), err(new Error('later'))])).toEqual({
+        ok: false,
+        error: boom,
+      });
+    });
+  });
+
+  describe('converters', () => {
+    it('should wrap throwing functions', () => {
+      const safeParse = fromThrowable((input: string) => JSON.parse(input) as unknown);
+      expect(safeParse('{"a":1}')).toEqual({ ok: true, value: { a: 1 } });
+      expect(safeParse('{').ok).toBe(false);
+    });
+
+    it('should normalize non-Error throws into UtilsError', () => {
+      const result = fromThrowable(() => {
+        // eslint-disable-next-line @typescript-eslint/only-throw-error
+        throw 'nope';
+      })();
+      expect(!result.ok && isUtilsError(result.error)).toBe(true);
+    });
+
+    it('should map errors with mapError', async () => {
+      const toCode = (error: unknown) => (error instanceof Error ? error.message : 'unknown');
+      const result = fromThrowable(() => {
+        throw new Error('E_PARSE');
+      }, toCode)();
+      expect(result).toEqual({ ok: false, error: 'E_PARSE' });
+      await expect(fromPromise(Promise.reject(new Error('E_IO')), toCode)).resolves.toEqual({
+        ok: false,
+        error: 'E_IO',
+      });
+    });
+
+    it('should convert promises into results', async () => {
+      await expect(fromPromise(Promise.resolve(1))).resolves.toEqual({ ok: true, value: 1 });
+      await expect(fromPromise(Promise.reject(boom))).resolves.toEqual({ ok: false, error: boom });
+    });
+  });
+
+  describe('async variants', () => {
+    it('should map and chain async results', async () => {
+      const mapped = await mapResultAsync(
+        fromPromise(Promise.resolve(2)),
+        async (value) => value * 3
+      );
+      expect(mapped).toEqual({ ok: true, value: 6 });
+
+      const chained = await andThenAsync(ok(1), (value) => fromPromise(Promise.resolve(value + 1)));
+      expect(chained).toEqual({ ok: true, value: 2 });
+    });
+
+    it('should combine async results', async () => {
+      await expect(combineAsync([ok(1), fromPromise(Promise.resolve(2))])).resolves.toEqual({
+        ok: true,
+        value: [1, 2],
+      });
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { s } from '../../src/runtime/schema.js';
+import { isUtilsError } from '../../src/runtime/error.js';
+
+const User = s.object({
+  id: s.integer().refine((id) => id > 0, 'Expected a positive id'),
+  email: s.email().transform((email) => email.toLowerCase()),
+  role: s.literal('admin', 'member'),
+  website: s.url().optional(),
+  tags: s.array(s.string()),
+});
+
+describe('schema', () => {
+  it('should return the validated and transformed value', () => {
+    const result = User.safeParse({
+      id: 1,
+      email: 'Ada@Example.com',
+      role: 'admin',
+      tags: ['a'],
+      extra: true,
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      value: { id: 1, email: 'ada@example.com', role: 'admin', tags: ['a'] },
+    });
+  });
+
+  it('should report every failing field with its path', () => {
+    const result = User.safeParse({
+      id: -1,
+      email: 'nope',
+      role: 'owner',
+      website: 'not a url',
+      tags: ['ok', 2],
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('VALIDATION_ERROR');
+      expect(result.error.message).toBe('Validation failed at id: Expected a positive id');
+      expect(result.error.details?.issues).toEqual([
+        { path: 'id', message: 'Expected a positive id' },
+        { path: 'email', message: 'Expected email address' },
+        { path: 'role', message: 'Expected "admin" | "member"' },
+        { path: 'website', message: 'Expected URL' },
+        { path: 'tags[1]', message: 'Expected string, received number' },
+      ]);
+    }
+  });
+
+  it('should annotate nested paths', () => {
+    const Order = s.object({ items: s.array(s.object({ sku: s.string() })) });
+    const result = Order.safeParse({ items: [{ sku: 'a' }, { sku: null }] });
+    expect(!result.ok && result.error.details?.issues).toEqual([
+      { path: 'items[1].sku', message: 'Expected string, received null' },
+    ]);
+  });
+
+  it('should try union members in order', () => {
+    const Id = s.union(s.integer(), s.string().transform(Number));
+    expect(Id.parse(4)).toBe(4);
+    expect(Id.parse('5')).toBe(5);
+    expect(Id.is(true)).toBe(false);
+  });
+
+  it('should accept undefined and null for optional and nullable schemas', () => {
+    expect(s.optional(s.number()).parse(undefined)).toBeUndefined();
+    expect(s.nullable(s.number()).parse(null)).toBeNull();
+    expect(s.object({ note: s.string().optional() }).parse({})).toEqual({});
+  });
+
+  it('should throw the VALIDATION_ERROR from parse', () => {
+    let caught: unknown;
+    try {
+      s.number().parse('1');
+    } catch (error) {
+      caught = error;
+    }
+    expect(isUtilsError(caught) && caught.message).toBe(
+      'Validation failed: Expected number, received string'
+    );
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { pipe } from '../../src/runtime/function.js';
+import {
+  countOccurrences,
+  pad,
+  padEnd,
+  padStart,
+  removePrefix,
+  removeSuffix,
+  truncate,
+} from '../../src/runtime/string/index.js';
+
+describe('string', () => {
+  describe('data-last', () => {
+    it('should return functions that match the data-first results', () => {
+      expect(truncate(8)('hello world')).toBe(truncate('hello world', 8));
+      expect(truncate(6, '!')('hello world')).toBe('hello!');
+      expect(pad(7, '*')('hello')).toBe('*hello*');
+      expect(padStart(3, '0')('5')).toBe('005');
+      expect(padEnd(3)('5')).toBe('5  ');
+      expect(removePrefix('v')('v1.2')).toBe('1.2');
+      expect(removeSuffix('.txt')('notes.txt')).toBe('notes');
+      expect(countOccurrences('l')('hello')).toBe(2);
+    });
+
+    it('should compose with pipe', () => {
+      const normalize = pipe(removePrefix('v'), removeSuffix('-beta'), padStart(6, '0'));
+      expect(normalize('v1.2-beta')).toBe('0001.2');
+    });
+  });
+});
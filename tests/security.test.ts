@@ -1,5 +1,14 @@
 import { test, expect } from 'vitest';
 import { chunk, groupBy } from '../src/runtime/array/index.js';
+import {
+  flattenObject,
+  get,
+  getOption,
+  has,
+  set,
+  setIn,
+  unflattenObject,
+} from '../src/runtime/object/index.js';
 
 describe('security tests', () => {
   test('chunk handles large arrays safely', () => {
@@ -22,6 +31,53 @@ describe('security tests', () => {
     expect(result).toHaveProperty('[object Object]');
   });
 
+  test.each([
+    '__proto__.polluted',
+    'constructor.prototype.polluted',
+    'a[__proto__].polluted',
+    ['__proto__', 'polluted'],
+    ['constructor', 'prototype', 'polluted'],
+  ])('set rejects prototype pollution through %j', (path) => {
+    expect(() => set({}, path as string[], true)).toThrow(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+    expect(() => setIn({}, path as string[], true)).toThrow(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+    expect(({} as any).polluted).toBeUndefined();
+    expect((Object.prototype as any).polluted).toBeUndefined();
+  });
+
+  test('path reads reject prototype segments', () => {
+    expect(() => get({}, ['constructor'])).toThrow(/Unsafe path segment "constructor"/);
+    expect(() => get({}, ['__proto__'])).toThrow(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+    expect(() => has({}, ['prototype'])).toThrow(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+    expect(() => getOption({}, 'a.__proto__')).toThrow(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+  });
+
+  test.each(['__proto__.polluted', 'constructor.prototype.polluted', 'a.__proto__.polluted'])(
+    'unflattenObject rejects prototype pollution through %j',
+    (key) => {
+      expect(() => unflattenObject({ [key]: true })).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+      expect(({} as any).polluted).toBeUndefined();
+    }
+  );
+
+  test('flattenObject rejects prototype keys from parsed input', () => {
+    expect(() => flattenObject(JSON.parse('{"a": {"__proto__": {"polluted": true}}}'))).toThrow(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+    expect(({} as any).polluted).toBeUndefined();
+  });
+
   test('no eval usage in string operations', () => {
     // This is more of a build-time check, but we can test that functions don't use eval
     const testString = 'console.log("test")';